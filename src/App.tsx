@@ -3,6 +3,8 @@ import { NavigationDock } from './components/common/NavigationDock';
 import { Dashboard } from './components/dashboard/Dashboard';
 import { Journal } from './components/journal/Journal';
 import { TradeModal, PreferencesModal } from './components/modals/Modals';
+import { ImportWizard } from './components/modals/ImportWizard';
+import { AccountModal } from './components/modals/AccountModal';
 
 // Lazy load components that are not always visible with preload capability
 const Stats = React.lazy(() => 
@@ -20,10 +22,19 @@ const preloadStats = () => import('./components/dashboard/Stats');
 const preloadPlanningBoard = () => import('./components/planning/PlanningBoard');
 const preloadTradeDetail = () => import('./components/journal/TradeDetail');
 
-import { Trade } from './types';
+import { BoardLink, Trade } from './types';
 import { DEFAULT_TRADE, STORAGE_KEYS } from './constants';
+import { readStoredJson } from './utils';
+import { isClosedTrade } from './utils/tradePnl';
+import { collectTags } from './utils/tags';
 import { useWindowSize } from './hooks/useWindowSize';
-import { useTrades } from './hooks/useTrades';
+import { canAddTrade, useTrades } from './hooks/useTrades';
+import { useBoards } from './hooks/useBoards';
+import { useAccounts } from './hooks/useAccounts';
+import { useCustomFields } from './hooks/useCustomFields';
+import { useTagGroups } from './hooks/useTagGroups';
+import { useSessionConfig } from './hooks/useSessionConfig';
+import { useJournalTimezone } from './hooks/useJournalTimezone';
 import { useLayoutConfig } from './hooks/useLayoutConfig';
 import { usePageTransition } from './hooks/usePageTransition';
 import { usePreload } from './hooks/usePreload';
@@ -33,7 +44,7 @@ const App: React.FC = () => {
   // Keep track of visited tabs to keep them mounted (optimizes transition speed)
   const [visitedTabs, setVisitedTabs] = useState<Set<string>>(new Set(['dashboard']));
 
-  const [navPosition, setNavPosition] = useState<'bottom' | 'top' | 'left' | 'right'>('bottom');
+  const [navPosition, setNavPosition] = useState<'bottom' | 'top' | 'left' | 'right'>(() => readStoredJson(STORAGE_KEYS.NAV_POSITION, 'bottom'));
   const [isPreferencesOpen, setIsPreferencesOpen] = useState(false);
   const [isUIHidden, setIsUIHidden] = useState<boolean>(false);
   const [journalKey, setJournalKey] = useState(0);
@@ -43,7 +54,16 @@ const App: React.FC = () => {
 
   // Custom hooks
   const windowSize = useWindowSize();
-  const { trades, saveTrades, addTrade: addTradeHook, updateTrade } = useTrades();
+  const timezoneState = useJournalTimezone();
+  const { timezone } = timezoneState;
+  const { accounts, selection: accountSelection, selectedAccount, activeAccount, selectAccount, createAccount, updateAccount, deleteAccount } = useAccounts();
+  const { trades, saveTrades, addTrade: addTradeHook, updateTrade, importTrades, deleteTrades, restoreTrades, duplicateTrades, bulkUpdate, getTradeBalance } = useTrades(timezone, accounts);
+  const boardsState = useBoards();
+  const customFieldsState = useCustomFields();
+  const tagGroupsState = useTagGroups();
+  const sessionConfigState = useSessionConfig();
+  // The combined view has no single account, so new trades go to the first one unless picked otherwise
+  const defaultAccountId = selectedAccount?.id ?? accounts[0]?.id;
   const layoutConfig = useLayoutConfig();
   
   // Page transition and preload hooks
@@ -57,10 +77,13 @@ const App: React.FC = () => {
 
   // Modals state
   const [isTradeModalOpen, setIsTradeModalOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isAccountOpen, setIsAccountOpen] = useState(false);
   const [newTrade, setNewTrade] = useState<Partial<Trade>>(DEFAULT_TRADE);
 
   // Navigation details state
   const [activeTrade, setActiveTrade] = useState<Trade | null>(null);
+  const [boardFocus, setBoardFocus] = useState<BoardLink | null>(null);
 
   const changeTab = useCallback((tab: string) => {
     if (tab === currentTab) return;
@@ -94,13 +117,13 @@ const App: React.FC = () => {
   }, [preloadComponent]);
 
   const addTrade = useCallback(() => {
-    if (!newTrade.ticker || newTrade.pnl === undefined) return;
-    const trade = addTradeHook(newTrade);
+    if (!canAddTrade(newTrade)) return;
+    const trade = addTradeHook({ ...newTrade, accountId: newTrade.accountId ?? defaultAccountId });
     if (trade) {
       setNewTrade(DEFAULT_TRADE);
       setIsTradeModalOpen(false);
     }
-  }, [newTrade, addTradeHook]);
+  }, [newTrade, addTradeHook, defaultAccountId]);
 
   const openTradeDetail = useCallback((trade: Trade) => {
     if (!trade.tda || trade.tda.length === 0) {
@@ -115,14 +138,38 @@ const App: React.FC = () => {
     changeTab('journal');
   }, [updateTrade, changeTab]);
 
+  const openLinkedBoard = useCallback((link: BoardLink, editedTrade: Trade) => {
+    updateTrade(editedTrade);
+    boardsState.selectBoard(link.boardId);
+    // A fresh object, so opening the same area twice still re-centres the board
+    setBoardFocus({ boardId: link.boardId, region: link.region && { ...link.region } });
+    changeTab('traders');
+  }, [updateTrade, boardsState.selectBoard, changeTab]);
+
+
+  // Memoized calculations; performance stats only count positions that are closed
+  const accountTrades = useMemo(
+    () => (accountSelection === 'all' ? trades : trades.filter(t => t.accountId === accountSelection)),
+    [trades, accountSelection]
+  );
+  const closedTrades = useMemo(() => accountTrades.filter(isClosedTrade), [accountTrades]);
+  // Suggested from every account, so the same setup names are reused across them
+  const tagSuggestions = useMemo(() => collectTags(trades, tagGroupsState.tagGroups), [trades, tagGroupsState.tagGroups]);
+
+  const openNewAccount = useCallback(() => {
+    createAccount();
+    setIsAccountOpen(true);
+  }, [createAccount]);
+
+  // An account can only go once nothing is recorded on it
+  const canDeleteSelectedAccount = !!selectedAccount && accounts.length > 1 && !trades.some(t => t.accountId === selectedAccount.id);
 
-  // Memoized calculations
   const { totalPnL, winrate } = useMemo(() => {
-    const total = trades.reduce((acc, t) => acc + t.pnl, 0);
-    const winCount = trades.filter(t => t.pnl > 0).length;
-    const winrate = trades.length === 0 ? 0 : Math.round((winCount / trades.length) * 100);
+    const total = closedTrades.reduce((acc, t) => acc + t.pnl, 0);
+    const winCount = closedTrades.filter(t => t.pnl > 0).length;
+    const winrate = closedTrades.length === 0 ? 0 : Math.round((winCount / closedTrades.length) * 100);
     return { totalPnL: total, winrate };
-  }, [trades]);
+  }, [closedTrades]);
 
   // Disable container transition for all page transitions to prevent expansion flicker
   useLayoutEffect(() => {
@@ -186,6 +233,10 @@ const App: React.FC = () => {
     };
   }, [currentTab]);
 
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.NAV_POSITION, JSON.stringify(navPosition));
+  }, [navPosition]);
+
   const getLayoutPadding = useCallback(() => {
     const basePaddingX = `clamp(16px, 8vw, ${layoutConfig.layoutConfig.paddingX}px)`;
     const basePaddingY = `clamp(24px, 5vh, ${layoutConfig.layoutConfig.paddingY}px)`;
@@ -241,6 +292,11 @@ const App: React.FC = () => {
         edgeOffset={layoutConfig.edgeOffset}
         onOpenSettings={() => setIsPreferencesOpen(true)}
         isUIHidden={isUIHidden}
+        accounts={accounts}
+        accountSelection={accountSelection}
+        onSelectAccount={selectAccount}
+        onCreateAccount={openNewAccount}
+        onManageAccount={() => setIsAccountOpen(true)}
       />
       
       <main className="w-full relative">
@@ -265,11 +321,14 @@ const App: React.FC = () => {
               style={{ display: currentTab === 'dashboard' ? 'block' : 'none' }}
             >
               <Dashboard 
-                trades={trades} 
+                trades={closedTrades} 
+                account={activeAccount}
                 totalPnL={totalPnL} 
                 winrate={winrate} 
                 openTradeModal={() => setIsTradeModalOpen(true)} 
+                openAccountModal={selectedAccount ? () => setIsAccountOpen(true) : undefined}
                 changeTab={changeTab}
+                timezone={timezone}
               />
             </div>
 
@@ -287,7 +346,7 @@ const App: React.FC = () => {
                     </div>
                   </div>
                 }>
-                  <Stats trades={trades} changeTab={changeTab} />
+                  <Stats trades={closedTrades} account={activeAccount} sessionConfig={sessionConfigState.sessionConfig} timezone={timezone} tagGroups={tagGroupsState.tagGroups} changeTab={changeTab} />
                 </Suspense>
               </div>
             )}
@@ -299,7 +358,13 @@ const App: React.FC = () => {
                 style={{ display: currentTab === 'traders' ? 'block' : 'none' }}
               >
                 <Suspense fallback={<div className="flex items-center justify-center h-64 text-slate-400">Loading Whiteboard...</div>}>
-                  <PlanningBoard />
+                  <PlanningBoard
+                    boardsState={boardsState}
+                    trades={trades}
+                    openTradeDetail={openTradeDetail}
+                    focus={boardFocus}
+                    onFocusHandled={() => setBoardFocus(null)}
+                  />
                 </Suspense>
               </div>
             )}
@@ -312,9 +377,18 @@ const App: React.FC = () => {
               >
                 <Journal 
                   key={journalKey}
-                  trades={trades} 
+                  trades={accountTrades} 
+                  customFields={customFieldsState.customFields}
+                  tagGroups={tagGroupsState.tagGroups}
+                  sessionConfig={sessionConfigState.sessionConfig}
+                  timezone={timezone}
                   openTradeModal={() => setIsTradeModalOpen(true)}
+                  openImportWizard={() => setIsImportOpen(true)}
                   openTradeDetail={openTradeDetail}
+                  deleteTrades={deleteTrades}
+                  restoreTrades={restoreTrades}
+                  duplicateTrades={duplicateTrades}
+                  bulkUpdateTrades={bulkUpdate}
                   controlsScale={layoutConfig.controlsScale}
                   dateToggleConfig={layoutConfig.dateToggleConfig}
                   positionsConfig={layoutConfig.positionsConfig}
@@ -342,6 +416,13 @@ const App: React.FC = () => {
                     trade={activeTrade}
                     goBack={() => changeTab('journal')}
                     onSave={saveTradeDetail}
+                    boards={boardsState.boards}
+                    onOpenBoard={openLinkedBoard}
+                    tagGroups={tagGroupsState.tagGroups}
+                    tagSuggestions={tagSuggestions}
+                    customFields={customFieldsState.customFields}
+                    timezone={timezone}
+                    getBalance={getTradeBalance}
                   />
                 </Suspense>
               </div>
@@ -356,6 +437,27 @@ const App: React.FC = () => {
         newTrade={newTrade}
         setNewTrade={setNewTrade}
         onSave={addTrade}
+        accounts={accounts}
+        defaultAccountId={defaultAccountId}
+        getBalance={getTradeBalance}
+        tagGroups={tagGroupsState.tagGroups}
+        tagSuggestions={tagSuggestions}
+      />
+
+      <ImportWizard
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        existingTrades={trades}
+        timezone={timezone}
+        onImport={(imported) => importTrades(imported, defaultAccountId)}
+      />
+
+      <AccountModal
+        isOpen={isAccountOpen}
+        onClose={() => setIsAccountOpen(false)}
+        account={selectedAccount}
+        onSave={(settings) => selectedAccount && updateAccount(selectedAccount.id, settings)}
+        onDelete={canDeleteSelectedAccount ? () => deleteAccount(selectedAccount!.id) : undefined}
       />
 
       <PreferencesModal
@@ -363,6 +465,10 @@ const App: React.FC = () => {
         onClose={() => setIsPreferencesOpen(false)}
         position={navPosition}
         setPosition={setNavPosition}
+        customFieldsState={customFieldsState}
+        tagGroupsState={tagGroupsState}
+        sessionConfigState={sessionConfigState}
+        timezoneState={timezoneState}
       />
 
     </div>
@@ -0,0 +1,88 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Wallet, Check, Plus, Settings2, Layers } from 'lucide-react';
+import { Account, AccountSelection } from '../../types';
+
+interface AccountSwitcherProps {
+  accounts: Account[];
+  selection: AccountSelection;
+  onSelect: (selection: AccountSelection) => void;
+  onCreate: () => void;
+  onManage: () => void;
+  position: 'bottom' | 'top' | 'left' | 'right';
+}
+
+// The menu opens away from the screen edge the dock sits on
+const MENU_PLACEMENT = {
+  bottom: 'bottom-full mb-4 left-1/2 -translate-x-1/2',
+  top: 'top-full mt-4 left-1/2 -translate-x-1/2',
+  left: 'left-full ml-4 top-1/2 -translate-y-1/2',
+  right: 'right-full mr-4 top-1/2 -translate-y-1/2'
+};
+
+export const AccountSwitcher: React.FC<AccountSwitcherProps> = ({ accounts, selection, onSelect, onCreate, onManage, position }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const current = selection === 'all' ? null : accounts.find(a => a.id === selection);
+  const label = current?.name ?? 'All Accounts';
+
+  const item = (isActive: boolean) =>
+    `w-full flex items-center gap-2 rounded-xl px-3 py-2 text-left text-xs font-semibold transition ${isActive ? 'bg-slate-100 text-slate-900' : 'text-slate-600 hover:bg-slate-50'}`;
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`relative flex items-center justify-center w-12 h-12 rounded-2xl border transition-all duration-200 ${isOpen ? 'bg-slate-100 border-slate-200 text-slate-900' : 'border-transparent text-slate-400 hover:text-slate-600 hover:bg-slate-100'}`}
+        title={`Account: ${label}`}
+      >
+        {selection === 'all' ? <Layers className="w-5 h-5 stroke-[1.5]" /> : <Wallet className="w-5 h-5 stroke-[1.5]" />}
+        {current?.challenge && <span className="absolute top-2 right-2 w-1.5 h-1.5 rounded-full bg-orange-400" />}
+      </button>
+
+      {isOpen && (
+        <div className={`absolute ${MENU_PLACEMENT[position]} w-60 bg-white border border-slate-200 rounded-2xl shadow-xl p-1.5 animate-fade-in`}>
+          <div className="px-3 pt-2 pb-1 text-[10px] font-bold uppercase tracking-wider text-slate-400">Accounts</div>
+          <div className="max-h-64 overflow-y-auto">
+            {accounts.map(account => (
+              <button key={account.id} onClick={() => { onSelect(account.id); setIsOpen(false); }} className={item(selection === account.id)}>
+                <span className="flex-1 truncate">{account.name}</span>
+                {account.challenge && <span className="text-[9px] font-bold uppercase text-orange-500">Challenge</span>}
+                <span className="text-[10px] text-slate-400">{account.currency}</span>
+                {selection === account.id && <Check className="w-3.5 h-3.5 text-slate-800" />}
+              </button>
+            ))}
+          </div>
+          {accounts.length > 1 && (
+            <button onClick={() => { onSelect('all'); setIsOpen(false); }} className={item(selection === 'all')}>
+              <Layers className="w-3.5 h-3.5 text-slate-400" />
+              <span className="flex-1">All Accounts</span>
+              {selection === 'all' && <Check className="w-3.5 h-3.5 text-slate-800" />}
+            </button>
+          )}
+          <div className="h-px bg-slate-100 my-1" />
+          {current && (
+            <button onClick={() => { onManage(); setIsOpen(false); }} className={item(false)}>
+              <Settings2 className="w-3.5 h-3.5 text-slate-400" /> Account settings
+            </button>
+          )}
+          <button onClick={() => { onCreate(); setIsOpen(false); }} className={item(false)}>
+            <Plus className="w-3.5 h-3.5 text-slate-400" /> New account
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+AccountSwitcher.displayName = 'AccountSwitcher';
@@ -7,10 +7,14 @@ import {
   XAxis,
   YAxis,
   Tooltip,
-  CartesianGrid
+  CartesianGrid,
+  Cell
 } from 'recharts';
-import { Trade, ChartType, ChartStyle, ChartColor, Timeframe, Stat } from '../../types';
+import { Account, Trade, ChartType, ChartStyle, ChartColor, Timeframe, Stat, RBucket } from '../../types';
 import { getFilteredTrades } from '../../utils';
+import { buildEquityCurve, EquityPoint } from '../../utils/accountEquity';
+import { getMetricHistory, isMetricId } from '../../utils/performanceMetrics';
+import { UnderwaterPoint } from '../../utils/drawdown';
 
 // --- Safe Wrapper (AutoSizer) ---
 interface SafeChartWrapperProps {
@@ -83,6 +87,10 @@ interface ChartProps {
   customColor: string;
   selectedStat?: Stat;
   isDetailed?: boolean;
+  // Needed for the balance, growth and drawdown metrics
+  account?: Account | null;
+  // Journal timezone the week and month timeframes start in
+  timezone?: string;
 }
 
 // Wrapped in React.memo to prevent re-renders when parent Dashboard re-renders 
@@ -97,10 +105,23 @@ export const DashboardChart: React.FC<ChartProps> = React.memo(({
   chartColor,
   customColor,
   selectedStat,
-  isDetailed = false
+  isDetailed = false,
+  account,
+  timezone = ''
 }) => {
+  // Replayed over every trade, so a shorter timeframe still starts from the real balance
+  const equityByTrade = useMemo(() => {
+    if (!account) return null;
+    return new Map<number, EquityPoint>(buildEquityCurve(account, trades).points.map(p => [p.tradeId, p]));
+  }, [account, trades]);
+
+  const metricHistory = useMemo(
+    () => (selectedStat && isMetricId(selectedStat.id) ? getMetricHistory(trades, account ?? null) : null),
+    [selectedStat, trades, account]
+  );
+
   const data = useMemo(() => {
-    const { trades: filteredTrades, initialData } = getFilteredTrades(trades, timeframe, customStart, customEnd);
+    const { trades: filteredTrades, initialData } = getFilteredTrades(trades, timeframe, customStart, customEnd, timezone);
     
     let balance = initialData.balance;
     let wins = initialData.wins;
@@ -142,6 +163,13 @@ export const DashboardChart: React.FC<ChartProps> = React.memo(({
           if (pnl > 0) grossWin += pnl;
           else grossLoss += Math.abs(pnl);
           value = parseFloat((grossLoss === 0 ? grossWin : grossWin / grossLoss).toFixed(2));
+        } else if (metricHistory && isMetricId(selectedStat.id)) {
+          value = parseFloat((metricHistory.get(t.id)?.[selectedStat.id] ?? 0).toFixed(2));
+        } else if (equityByTrade) {
+          const point = equityByTrade.get(t.id);
+          if (selectedStat.id === 'balance') value = parseFloat((point?.balance ?? 0).toFixed(2));
+          else if (selectedStat.id === 'growth') value = parseFloat((point?.growth ?? 0).toFixed(2));
+          else if (selectedStat.id === 'drawdown') value = -parseFloat((point?.drawdown ?? 0).toFixed(2));
         }
       }
 
@@ -150,7 +178,7 @@ export const DashboardChart: React.FC<ChartProps> = React.memo(({
         value: value
       };
     });
-  }, [trades, timeframe, customStart, customEnd, chartType, isDetailed, selectedStat]);
+  }, [trades, timeframe, customStart, customEnd, chartType, isDetailed, selectedStat, equityByTrade, metricHistory, timezone]);
 
   const color = useMemo(() => {
     if (chartColor === 'custom') return customColor;
@@ -158,7 +186,8 @@ export const DashboardChart: React.FC<ChartProps> = React.memo(({
     if (chartColor === 'purple') return '#8b5cf6';
     
     // Default logic
-    if (chartType === 'equity' || (selectedStat?.id === 'net')) {
+    if (selectedStat?.id === 'drawdown') return '#f43f5e';
+    if (chartType === 'equity' || selectedStat?.id === 'net' || selectedStat?.id === 'growth') {
        if (data.length > 0 && data[data.length - 1].value < 0) return '#f43f5e';
        return '#10b981';
     }
@@ -238,6 +267,92 @@ export const DashboardChart: React.FC<ChartProps> = React.memo(({
 
 DashboardChart.displayName = 'DashboardChart';
 
+// Trade count per R bucket, losses in red and wins in green
+export const RDistributionChart: React.FC<{ buckets: RBucket[] }> = React.memo(({ buckets }) => (
+  <SafeChartWrapper>
+    {(width, height) => (
+      <BarChart width={width} height={height} data={buckets} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+        <CartesianGrid vertical={false} stroke="#f1f5f9" strokeDasharray="4 4" />
+        <XAxis 
+          dataKey="label" 
+          axisLine={false} 
+          tickLine={false} 
+          tick={{ fill: '#94a3b8', fontSize: 10 }} 
+        />
+        <YAxis 
+          allowDecimals={false}
+          axisLine={false} 
+          tickLine={false} 
+          tick={{ fill: '#94a3b8', fontSize: 12 }} 
+        />
+        <Tooltip 
+          cursor={{ fill: '#f8fafc' }}
+          contentStyle={{ borderRadius: '0.75rem', border: '1px solid #f1f5f9', boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.02)' }}
+          itemStyle={{ color: '#334155', fontWeight: 600 }}
+          formatter={(value) => [value, 'Trades']}
+        />
+        <Bar dataKey="count" radius={[4, 4, 0, 0]} isAnimationActive={true}>
+          {buckets.map(bucket => (
+            <Cell key={bucket.label} fill={bucket.isLoss ? '#f43f5e' : '#10b981'} />
+          ))}
+        </Bar>
+      </BarChart>
+    )}
+  </SafeChartWrapper>
+));
+
+RDistributionChart.displayName = 'RDistributionChart';
+
+// Percent below the running peak over time, drawn downwards from zero
+export const UnderwaterChart: React.FC<{ points: UnderwaterPoint[] }> = React.memo(({ points }) => {
+  const data = useMemo(() => points.map(p => ({ key: p.key, date: p.date, value: -parseFloat(p.drawdown.toFixed(2)) })), [points]);
+  const gradientId = useMemo(() => `underwaterGradient-${Math.random().toString(36).substr(2, 9)}`, []);
+
+  return (
+    <SafeChartWrapper>
+      {(width, height) => (
+        <AreaChart width={width} height={height} data={data} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+          <defs>
+            <linearGradient id={gradientId} x1="0" y1="0" x2="0" y2="1">
+              <stop offset="5%" stopColor="#f43f5e" stopOpacity={0} />
+              <stop offset="95%" stopColor="#f43f5e" stopOpacity={0.2} />
+            </linearGradient>
+          </defs>
+          <CartesianGrid vertical={false} stroke="#f1f5f9" strokeDasharray="4 4" />
+          <XAxis 
+            dataKey="date" 
+            axisLine={false} 
+            tickLine={false} 
+            tick={{ fill: '#94a3b8', fontSize: 10 }} 
+          />
+          <YAxis 
+            axisLine={false} 
+            tickLine={false} 
+            tick={{ fill: '#94a3b8', fontSize: 12 }} 
+            tickFormatter={(value) => `${value}%`}
+          />
+          <Tooltip 
+            contentStyle={{ borderRadius: '0.75rem', border: '1px solid #f1f5f9', boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.02)' }}
+            itemStyle={{ color: '#f43f5e', fontWeight: 600 }}
+            formatter={(value) => [`${value}%`, 'Drawdown']}
+          />
+          <Area 
+            type="stepAfter" 
+            dataKey="value" 
+            stroke="#f43f5e" 
+            strokeWidth={2} 
+            fillOpacity={1} 
+            fill={`url(#${gradientId})`} 
+            isAnimationActive={true}
+          />
+        </AreaChart>
+      )}
+    </SafeChartWrapper>
+  );
+});
+
+UnderwaterChart.displayName = 'UnderwaterChart';
+
 export const MockChart: React.FC<{ isProfitable: boolean; type: 'trader' | 'profile' }> = ({ isProfitable, type }) => {
   const data = useMemo(() => {
     const pointsCount = type === 'profile' ? 30 : 20;
@@ -1,5 +1,7 @@
 import React, { useMemo } from 'react';
 import { Home, PenTool, BookOpen, Settings, BarChart2 } from 'lucide-react';
+import { Account, AccountSelection } from '../../types';
+import { AccountSwitcher } from './AccountSwitcher';
 
 interface NavigationDockProps {
   currentTab: string;
@@ -10,9 +12,14 @@ interface NavigationDockProps {
   edgeOffset: number;
   onOpenSettings: () => void;
   isUIHidden?: boolean;
+  accounts: Account[];
+  accountSelection: AccountSelection;
+  onSelectAccount: (selection: AccountSelection) => void;
+  onCreateAccount: () => void;
+  onManageAccount: () => void;
 }
 
-const NavigationDockComponent: React.FC<NavigationDockProps> = ({ currentTab, changeTab, onNavHover, position, scale, edgeOffset, onOpenSettings, isUIHidden = false }) => {
+const NavigationDockComponent: React.FC<NavigationDockProps> = ({ currentTab, changeTab, onNavHover, position, scale, edgeOffset, onOpenSettings, isUIHidden = false, accounts, accountSelection, onSelectAccount, onCreateAccount, onManageAccount }) => {
   const menuItems = useMemo(() => [
     { id: 'dashboard', icon: Home, label: 'Dashboard' },
     { id: 'stats', icon: BarChart2, label: 'Analytics' },
@@ -114,6 +121,15 @@ const NavigationDockComponent: React.FC<NavigationDockProps> = ({ currentTab, ch
       {/* Divider */}
       <div className={`${isVertical ? 'w-8 h-[1px]' : 'h-8 w-[1px]'} bg-slate-200 mx-1`}></div>
 
+      <AccountSwitcher
+        accounts={accounts}
+        selection={accountSelection}
+        onSelect={onSelectAccount}
+        onCreate={onCreateAccount}
+        onManage={onManageAccount}
+        position={position}
+      />
+
       {/* Settings Button */}
       <button
         onClick={onOpenSettings}
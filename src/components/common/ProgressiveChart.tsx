@@ -1,7 +1,7 @@
 import React, { useRef, useEffect, useState } from 'react';
 import { useProgressiveLoad } from '../../hooks/useProgressiveLoad';
 import { DashboardChart } from './Charts';
-import { Trade, Timeframe, ChartStyle, ChartColor, Stat } from '../../types';
+import { Account, Trade, Timeframe, ChartStyle, ChartColor, Stat } from '../../types';
 
 interface ProgressiveChartProps {
   trades: Trade[];
@@ -13,6 +13,8 @@ interface ProgressiveChartProps {
   customColor: string;
   selectedStat?: Stat;
   isDetailed?: boolean;
+  account?: Account | null;
+  timezone?: string;
 }
 
 /**
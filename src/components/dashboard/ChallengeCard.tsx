@@ -0,0 +1,71 @@
+import React, { useMemo } from 'react';
+import { AlertTriangle, BadgeCheck, Flag } from 'lucide-react';
+import { Account, Trade } from '../../types';
+import { ChallengeRuleStatus, evaluateChallenge } from '../../utils/challenge';
+
+interface ChallengeCardProps {
+  account: Account;
+  trades: Trade[];
+  timezone: string;
+}
+
+const BAR_COLORS: Record<ChallengeRuleStatus, string> = {
+  ok: 'bg-slate-800',
+  warning: 'bg-orange-400',
+  breached: 'bg-rose-500',
+  passed: 'bg-green-500'
+};
+
+/** Live progress of a prop-firm evaluation account against its rules. */
+export const ChallengeCard: React.FC<ChallengeCardProps> = ({ account, trades, timezone }) => {
+  const challenge = useMemo(() => evaluateChallenge(account, trades, new Date(), timezone), [account, trades, timezone]);
+  if (!challenge || challenge.rules.length === 0) return null;
+
+  const warnings = challenge.rules.filter(rule => rule.status === 'warning');
+
+  return (
+    <div className="soft-card p-6 lg:p-8 blur-loading animate-blur-in space-y-5">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium text-slate-700 flex items-center gap-2">
+          <Flag className="w-4 h-4 text-slate-400" /> Challenge
+        </h3>
+        {challenge.isBreached ? (
+          <span className="px-3 py-1 rounded-full bg-rose-50 text-rose-600 border border-rose-100 text-xs font-semibold">Breached</span>
+        ) : challenge.isPassed ? (
+          <span className="flex items-center gap-1 px-3 py-1 rounded-full bg-green-50 text-green-600 border border-green-100 text-xs font-semibold">
+            <BadgeCheck className="w-3.5 h-3.5" /> Passed
+          </span>
+        ) : (
+          <span className="px-3 py-1 rounded-full bg-slate-100 text-slate-500 text-xs font-semibold">In Progress</span>
+        )}
+      </div>
+
+      {(challenge.isBreached || warnings.length > 0) && (
+        <div className={`flex items-start gap-2 rounded-xl px-4 py-3 text-xs font-medium ${challenge.isBreached ? 'bg-rose-50 text-rose-600' : 'bg-orange-50 text-orange-600'}`}>
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          <span>
+            {challenge.isBreached
+              ? `${challenge.rules.filter(rule => rule.status === 'breached').map(rule => rule.label).join(', ')} broken. This evaluation is over.`
+              : `Close to the ${warnings.map(rule => rule.label.toLowerCase()).join(' and ')} limit.`}
+          </span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+        {challenge.rules.map(rule => (
+          <div key={rule.id}>
+            <div className="flex justify-between items-baseline mb-1.5">
+              <span className="text-sm font-medium text-slate-600">{rule.label}</span>
+              <span className="text-xs text-slate-400">{rule.detail}</span>
+            </div>
+            <div className="h-2 rounded-full bg-slate-100 overflow-hidden">
+              <div className={`h-full rounded-full transition-all ${BAR_COLORS[rule.status]}`} style={{ width: `${rule.progress * 100}%` }} />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+ChallengeCard.displayName = 'ChallengeCard';
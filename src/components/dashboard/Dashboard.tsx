@@ -1,19 +1,26 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { BadgeCheck, Plus, Settings, Palette, TrendingUp, Activity, Layers } from 'lucide-react';
-import { Trade, Timeframe, ChartStyle, ChartColor, Stat } from '../../types';
-import { formatPercent } from '../../utils';
+import { BadgeCheck, Plus, Settings, Palette, TrendingUp, Activity, Layers, Wallet } from 'lucide-react';
+import { Account, Trade, Timeframe, ChartStyle, ChartColor, Stat } from '../../types';
+import { formatCurrency, formatPercent } from '../../utils';
+import { buildEquityCurve } from '../../utils/accountEquity';
+import { METRIC_DEFINITIONS } from '../../utils/performanceMetrics';
 import { ProgressiveChart } from '../common/ProgressiveChart';
 import { DebouncedColorInput } from '../common/DebouncedColorInput';
+import { ChallengeCard } from './ChallengeCard';
 
 interface DashboardProps {
   trades: Trade[];
+  account: Account | null;
   totalPnL: number;
   winrate: number;
   openTradeModal: () => void;
+  // Missing for the combined view, which has no settings of its own
+  openAccountModal?: () => void;
   changeTab: (tab: string) => void;
+  timezone: string;
 }
 
-const DashboardComponent: React.FC<DashboardProps> = ({ trades, totalPnL, winrate, openTradeModal, changeTab }) => {
+const DashboardComponent: React.FC<DashboardProps> = ({ trades, account, totalPnL, winrate, openTradeModal, openAccountModal, changeTab, timezone }) => {
   const [timeframe, setTimeframe] = useState<Timeframe>('all');
   const [customStart, setCustomStart] = useState('');
   const [customEnd, setCustomEnd] = useState('');
@@ -27,12 +34,20 @@ const DashboardComponent: React.FC<DashboardProps> = ({ trades, totalPnL, winrat
   // Color State
   const [customColor, setCustomColor] = useState('#5b21b6'); 
 
+  const equity = useMemo(() => (account ? buildEquityCurve(account, trades) : null), [account, trades]);
+
   const metrics = [
     { id: 'net', label: 'Net Return' },
     { id: 'winrate', label: 'Winrate' },
     { id: 'avg', label: 'Avg Return' },
     { id: 'pf', label: 'Profit Factor' },
-    { id: 'total', label: 'Total Trades' }
+    { id: 'total', label: 'Total Trades' },
+    ...METRIC_DEFINITIONS.map(({ id, label }) => ({ id, label })),
+    ...(account ? [
+      { id: 'balance', label: `Balance (${account.currency})` },
+      { id: 'growth', label: 'Growth' },
+      { id: 'drawdown', label: 'Drawdown' }
+    ] : [])
   ];
 
   const chartTitle = metrics.find(m => m.id === selectedMetric)?.label || 'Net Return';
@@ -51,12 +66,31 @@ const DashboardComponent: React.FC<DashboardProps> = ({ trades, totalPnL, winrat
           <p className="text-slate-400 mt-1">Here is your Weekly briefing.</p>
         </div>
         <div className="text-right flex flex-col items-end">
-          <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Total Return</span>
-          <div 
-            className={`text-3xl font-light tracking-tight mb-2 ${totalPnL >= 0 ? 'text-green-600' : 'text-rose-500'}`}
-          >
-             {formatPercent(totalPnL)}
-          </div>
+          {account && equity ? (
+            <>
+              <button
+                onClick={openAccountModal}
+                disabled={!openAccountModal}
+                className="flex items-center gap-1.5 text-xs font-semibold text-slate-400 uppercase tracking-wider hover:text-slate-700 disabled:hover:text-slate-400 transition"
+                title={openAccountModal ? 'Account settings' : undefined}
+              >
+                <Wallet className="w-3 h-3" /> {account.name}
+              </button>
+              <div className="flex items-baseline gap-2 mb-2">
+                <span className="text-3xl font-light tracking-tight text-slate-800">{formatCurrency(equity.balance, account.currency)}</span>
+                <span className={`text-sm font-semibold ${equity.growth >= 0 ? 'text-green-600' : 'text-rose-500'}`}>{formatPercent(equity.growth)}</span>
+              </div>
+            </>
+          ) : (
+            <>
+              <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Total Return</span>
+              <div 
+                className={`text-3xl font-light tracking-tight mb-2 ${totalPnL >= 0 ? 'text-green-600' : 'text-rose-500'}`}
+              >
+                 {formatPercent(totalPnL)}
+              </div>
+            </>
+          )}
           <button 
             onClick={openTradeModal}
             className="flex items-center gap-2 bg-slate-900 text-white px-4 py-2 rounded-xl text-xs font-semibold hover:bg-slate-800 transition"
@@ -119,7 +153,7 @@ const DashboardComponent: React.FC<DashboardProps> = ({ trades, totalPnL, winrat
                  <div className="absolute right-0 top-full mt-2 w-72 bg-white rounded-2xl shadow-xl border border-slate-100 p-5 z-10 space-y-5 animate-fade-in">
                     <div>
                         <label className="text-xs font-bold text-slate-400 uppercase tracking-wider block mb-2">Metric</label>
-                        <div className="grid grid-cols-2 gap-2 bg-slate-50 p-2 rounded-xl">
+                        <div className="grid grid-cols-2 gap-2 bg-slate-50 p-2 rounded-xl max-h-64 overflow-y-auto">
                             {metrics.map(m => (
                                 <button 
                                   key={m.id}
@@ -170,9 +204,13 @@ const DashboardComponent: React.FC<DashboardProps> = ({ trades, totalPnL, winrat
             customColor={customColor}
             isDetailed={true}
             selectedStat={selectedStatObj}
+            account={account}
+            timezone={timezone}
         />
       </div>
 
+      {account?.challenge && <ChallengeCard account={account} trades={trades} timezone={timezone} />}
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <div className="soft-card p-6 flex flex-col justify-between h-40 group hover:border-blue-200 transition blur-loading animate-blur-in" style={{ animationDelay: '0.1s' }}>
             <div className="flex justify-between items-start">
@@ -1,16 +1,44 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { ArrowLeft, EyeOff, ChevronUp, ChevronDown, Plus, Settings, Palette, TrendingUp, Percent, Activity, PieChart, Calendar, Layers, Clock, TrendingDown, Trophy, AlertTriangle } from 'lucide-react';
-import { Trade, Stat, Timeframe, ChartStyle, ChartColor } from '../../types';
-import { formatPercent, calculateRiskStats } from '../../utils';
+import { ArrowLeft, EyeOff, ChevronUp, ChevronDown, Plus, Settings, Palette, TrendingUp, Percent, Activity, PieChart, Calendar, Layers, Clock, TrendingDown, Trophy, AlertTriangle, Target, Wallet, Tag, Scale } from 'lucide-react';
+import { Account, Trade, Stat, Timeframe, ChartStyle, ChartColor, TagGroupId, TagGroupDefinition, SessionConfig } from '../../types';
+import { formatCurrency, formatPercent, calculateRiskStats } from '../../utils';
+import { buildEquityCurve } from '../../utils/accountEquity';
+import { getTagStats } from '../../utils/tags';
+import { getTimeBreakdown, TimeDimension } from '../../utils/timeBreakdowns';
+import { computeMetrics, formatMetric, METRIC_DEFINITIONS } from '../../utils/performanceMetrics';
+import { analyzeDrawdowns, DrawdownResolution } from '../../utils/drawdown';
+import { getTradeDay } from '../../utils/timezone';
 import { ProgressiveChart } from '../common/ProgressiveChart';
+import { RDistributionChart, UnderwaterChart } from '../common/Charts';
 import { DebouncedColorInput } from '../common/DebouncedColorInput';
 
 interface StatsProps {
   trades: Trade[];
+  account: Account | null;
+  sessionConfig: SessionConfig;
+  timezone: string;
+  tagGroups: TagGroupDefinition[];
   changeTab: (tab: string) => void;
 }
 
-const StatsComponent: React.FC<StatsProps> = ({ trades, changeTab }) => {
+const TIME_DIMENSIONS: { id: TimeDimension; label: string }[] = [
+  { id: 'session', label: 'Session' },
+  { id: 'weekday', label: 'Weekday' },
+  { id: 'hour', label: 'Hour' },
+  { id: 'holdtime', label: 'Hold Time' }
+];
+
+const DRAWDOWN_RESOLUTIONS: { id: DrawdownResolution; label: string }[] = [
+  { id: 'trade', label: 'Per Trade' },
+  { id: 'day', label: 'Per Day' }
+];
+
+// Deepest drawdowns listed under the underwater chart
+const MAX_EPISODES = 5;
+
+const formatDays = (days: number) => `${days}d`;
+
+const StatsComponent: React.FC<StatsProps> = ({ trades, account, sessionConfig, timezone, tagGroups, changeTab }) => {
   const [statsFilter, setStatsFilter] = useState('all');
   const [hiddenStatIds, setHiddenStatIds] = useState<string[]>([]);
   const [statsOrder, setStatsOrder] = useState(['net', 'avg', 'winrate', 'pf', 'roi', 'total', 'hold']);
@@ -27,6 +55,9 @@ const StatsComponent: React.FC<StatsProps> = ({ trades, changeTab }) => {
   const [customColor, setCustomColor] = useState('#000000'); 
 
   const [selectedStatId, setSelectedStatId] = useState('net');
+  const [tagGroupFilter, setTagGroupFilter] = useState<TagGroupId | 'all'>('all');
+  const [timeDimension, setTimeDimension] = useState<TimeDimension>('session');
+  const [drawdownResolution, setDrawdownResolution] = useState<DrawdownResolution>('trade');
 
   const filteredStatsTrades = useMemo(() => {
     if (statsFilter === 'all') return trades;
@@ -37,7 +68,7 @@ const StatsComponent: React.FC<StatsProps> = ({ trades, changeTab }) => {
     const tradesToUse = filteredStatsTrades;
     const totalPnL = tradesToUse.reduce((acc, t) => acc + t.pnl, 0);
     const avgReturn = tradesToUse.length > 0 ? (totalPnL / tradesToUse.length) : 0;
-    const months = new Set(tradesToUse.map(t => t.date.substring(0, 7))).size || 1;
+    const months = new Set(tradesToUse.map(t => getTradeDay(t, timezone).substring(0, 7))).size || 1;
     const monthlyRoi = (totalPnL / months).toFixed(1);
     
     const wins = tradesToUse.filter(t => t.pnl > 0).reduce((a, t) => a + t.pnl, 0);
@@ -53,20 +84,52 @@ const StatsComponent: React.FC<StatsProps> = ({ trades, changeTab }) => {
         { id: 'winrate', label: 'Winrate', icon: 'activity', desc: 'Percentage of profitable trades', value: winrate + '%' },
         { id: 'pf', label: 'Profit Factor', icon: 'pie-chart', desc: 'Ratio of gross profit to gross loss', value: pf },
         { id: 'roi', label: 'Monthly ROI', icon: 'calendar', desc: 'Average return per month', value: formatPercent(monthlyRoi) },
-        { id: 'total', label: 'Total Trades', icon: 'layers', desc: 'Number of executed trades', value: tradesToUse.length },
-        { id: 'hold', label: 'Time in Trade', icon: 'clock', desc: 'Average position duration', value: '4h 12m' }
+        { id: 'total', label: 'Total Trades', icon: 'layers', desc: 'Number of executed trades', value: tradesToUse.length }
     ];
 
+    const metrics = computeMetrics(tradesToUse, account);
+    METRIC_DEFINITIONS.forEach(({ id, label, icon, desc }) => {
+        rawStats.push({ id, label, icon, desc, value: formatMetric(id, metrics[id]) });
+    });
+
+    if (account) {
+        const equity = buildEquityCurve(account, tradesToUse);
+        rawStats.push(
+            { id: 'balance', label: 'Balance', icon: 'wallet', desc: 'Account balance after deposits and withdrawals', value: formatCurrency(equity.balance, account.currency) },
+            { id: 'growth', label: 'Growth', icon: 'trending-up', desc: 'Compounded return on the balance', value: formatPercent(equity.growth) },
+            { id: 'drawdown', label: 'Drawdown', icon: 'trending-down', desc: 'Distance below the balance peak', value: '-' + equity.maxDrawdown.toFixed(1) + '%' }
+        );
+    }
+
     const ordered = statsOrder
       .map(id => rawStats.find(s => s.id === id))
       .filter(s => s !== undefined) as Stat[];
 
     const missing = rawStats.filter(s => !statsOrder.includes(s.id));
     return [...ordered, ...missing];
-  }, [filteredStatsTrades, statsOrder]);
+  }, [filteredStatsTrades, statsOrder, account, timezone]);
 
   const selectedStat = currentStatsList.find(s => s.id === selectedStatId) || currentStatsList[0];
-  const advancedRiskStats = useMemo(() => calculateRiskStats(filteredStatsTrades), [filteredStatsTrades]);
+  const advancedRiskStats = useMemo(() => calculateRiskStats(filteredStatsTrades, account), [filteredStatsTrades, account]);
+  const tagStats = useMemo(
+    () => getTagStats(filteredStatsTrades, tagGroups)
+      .filter(row => tagGroupFilter === 'all' || row.group === tagGroupFilter)
+      .sort((a, b) => b.count - a.count || b.expectancy - a.expectancy),
+    [filteredStatsTrades, tagGroups, tagGroupFilter]
+  );
+  const timeBreakdown = useMemo(
+    () => getTimeBreakdown(filteredStatsTrades, timeDimension, sessionConfig, timezone),
+    [filteredStatsTrades, timeDimension, sessionConfig, timezone]
+  );
+  const maxBreakdownPnl = Math.max(0, ...timeBreakdown.map(row => Math.abs(row.pnl)));
+  const drawdown = useMemo(
+    () => analyzeDrawdowns(filteredStatsTrades, account, drawdownResolution, timezone),
+    [filteredStatsTrades, account, drawdownResolution, timezone]
+  );
+  const worstEpisodes = useMemo(
+    () => [...drawdown.episodes].sort((a, b) => b.depth - a.depth).slice(0, MAX_EPISODES),
+    [drawdown]
+  );
 
   // Drag and Drop Handlers
   const handleDragStart = (e: React.DragEvent, id: string) => {
@@ -122,6 +185,10 @@ const StatsComponent: React.FC<StatsProps> = ({ trades, changeTab }) => {
         case 'calendar': return Calendar;
         case 'layers': return Layers;
         case 'clock': return Clock;
+        case 'wallet': return Wallet;
+        case 'trending-down': return TrendingDown;
+        case 'target': return Target;
+        case 'scale': return Scale;
         default: return TrendingUp;
     }
   };
@@ -281,11 +348,91 @@ const StatsComponent: React.FC<StatsProps> = ({ trades, changeTab }) => {
                     customColor={customColor}
                     selectedStat={selectedStat}
                     isDetailed={true}
+                    account={account}
+                    timezone={timezone}
                 />
             </div>
          </div>
        </div>
 
+       <div className="soft-card p-6 lg:p-8 blur-loading animate-blur-in" style={{ animationDelay: '0.05s' }}>
+            <div className="flex flex-col sm:flex-row justify-between sm:items-start gap-4 mb-6">
+                <div>
+                    <h3 className="font-medium text-slate-700 text-lg flex items-center gap-2">
+                        <TrendingDown className="w-4 h-4 text-slate-400" /> Drawdown
+                    </h3>
+                    <p className="text-xs text-slate-400 mt-1">
+                        Distance below the running peak of {account ? 'the account balance' : 'the summed trade returns'}
+                    </p>
+                </div>
+                <div className="flex bg-slate-100 p-1 rounded-xl">
+                    {DRAWDOWN_RESOLUTIONS.map(resolution => (
+                        <button
+                          key={resolution.id}
+                          onClick={() => setDrawdownResolution(resolution.id)}
+                          className={`px-3 py-1.5 text-xs font-semibold rounded-lg transition ${drawdownResolution === resolution.id ? 'bg-white shadow-sm text-slate-800' : 'text-slate-500 hover:text-slate-700'}`}
+                        >
+                            {resolution.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            {drawdown.points.length > 0 ? (
+                <>
+                    <div className="flex gap-8 mb-6">
+                        <div>
+                            <div className="text-xs text-slate-400">Current</div>
+                            <div className="text-2xl font-light text-slate-800">
+                                -{drawdown.currentDrawdown.toFixed(1)}%
+                                {drawdown.currentDays > 0 && <span className="text-xs text-slate-400 ml-2">for {formatDays(drawdown.currentDays)}</span>}
+                            </div>
+                        </div>
+                        <div>
+                            <div className="text-xs text-slate-400">Max</div>
+                            <div className="text-2xl font-light text-slate-800">-{drawdown.maxDrawdown.toFixed(1)}%</div>
+                        </div>
+                        <div>
+                            <div className="text-xs text-slate-400">Longest Recovery</div>
+                            <div className="text-2xl font-light text-slate-800">{drawdown.longestRecoveryDays !== null ? formatDays(drawdown.longestRecoveryDays) : '—'}</div>
+                        </div>
+                    </div>
+                    <div className="h-56">
+                        <UnderwaterChart points={drawdown.points} />
+                    </div>
+                    {worstEpisodes.length > 0 && (
+                        <table className="w-full text-sm mt-6">
+                            <thead>
+                                <tr className="text-[11px] font-bold text-slate-400 uppercase tracking-wider text-left">
+                                    <th className="pb-3 font-bold">Peak</th>
+                                    <th className="pb-3 font-bold">Trough</th>
+                                    <th className="pb-3 font-bold">Recovered</th>
+                                    <th className="pb-3 font-bold text-right">Depth</th>
+                                    <th className="pb-3 font-bold text-right">Duration</th>
+                                    <th className="pb-3 font-bold text-right">Time to Recover</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {worstEpisodes.map(episode => (
+                                    <tr key={`${episode.start}-${episode.trough}`} className="border-t border-slate-100">
+                                        <td className="py-3 text-slate-700">{episode.start}</td>
+                                        <td className="py-3 text-slate-700">{episode.trough}</td>
+                                        <td className="py-3 text-slate-400">{episode.recovery ?? 'Ongoing'}</td>
+                                        <td className="py-3 text-right font-semibold text-rose-500">-{episode.depth.toFixed(1)}%</td>
+                                        <td className="py-3 text-right text-slate-700">{formatDays(episode.durationDays)}</td>
+                                        <td className="py-3 text-right text-slate-700">{episode.recoveryDays !== null ? formatDays(episode.recoveryDays) : '—'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </>
+            ) : (
+                <div className="h-32 flex items-center justify-center text-sm text-slate-400">
+                    Closed trades show up here.
+                </div>
+            )}
+       </div>
+
        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-8">
             <div className="soft-card p-6 flex flex-col justify-between h-40 group hover:border-rose-200 transition blur-loading animate-blur-in" style={{ animationDelay: '0.1s' }}>
                 <div className="flex justify-between items-start">
@@ -296,7 +443,9 @@ const StatsComponent: React.FC<StatsProps> = ({ trades, changeTab }) => {
                 </div>
                 <div>
                     <span className="text-3xl font-light text-slate-800">{advancedRiskStats.dd}</span>
-                    <div className="text-xs text-slate-400 mt-1">Peak to Valley</div>
+                    <div className="text-xs text-slate-400 mt-1">
+                        {advancedRiskStats.ddAmount ? <>Peak to Valley: <span className="font-semibold text-rose-500">{advancedRiskStats.ddAmount}</span></> : 'Peak to Valley'}
+                    </div>
                 </div>
             </div>
 
@@ -336,6 +485,152 @@ const StatsComponent: React.FC<StatsProps> = ({ trades, changeTab }) => {
                 </div>
             </div>
        </div>
+
+       <div className="soft-card p-6 lg:p-8 blur-loading animate-blur-in" style={{ animationDelay: '0.25s' }}>
+            <div className="flex flex-col sm:flex-row justify-between sm:items-start gap-4 mb-6">
+                <div>
+                    <h3 className="font-medium text-slate-700 text-lg flex items-center gap-2">
+                        <Target className="w-4 h-4 text-slate-400" /> R Distribution
+                    </h3>
+                    <p className="text-xs text-slate-400 mt-1">
+                        Realized R of the {advancedRiskStats.rTradeCount} of {filteredStatsTrades.length} trades with a stop-loss
+                    </p>
+                </div>
+                <div className="flex gap-8">
+                    <div>
+                        <div className="text-xs text-slate-400">Avg. Realized</div>
+                        <div className="text-2xl font-light text-slate-800">{advancedRiskStats.avgR}</div>
+                    </div>
+                    <div>
+                        <div className="text-xs text-slate-400">Avg. Planned</div>
+                        <div className="text-2xl font-light text-slate-800">{advancedRiskStats.avgPlannedR}</div>
+                    </div>
+                </div>
+            </div>
+            {advancedRiskStats.rTradeCount > 0 ? (
+                <div className="h-64">
+                    <RDistributionChart buckets={advancedRiskStats.rDistribution} />
+                </div>
+            ) : (
+                <div className="h-32 flex items-center justify-center text-sm text-slate-400">
+                    Add entry and stop-loss prices to your trades to see their R multiples.
+                </div>
+            )}
+       </div>
+
+       <div className="soft-card p-6 lg:p-8 blur-loading animate-blur-in" style={{ animationDelay: '0.3s' }}>
+            <div className="flex flex-col sm:flex-row justify-between sm:items-start gap-4 mb-6">
+                <div>
+                    <h3 className="font-medium text-slate-700 text-lg flex items-center gap-2">
+                        <Tag className="w-4 h-4 text-slate-400" /> Tag Performance
+                    </h3>
+                    <p className="text-xs text-slate-400 mt-1">Winrate, profit factor and expectancy of the trades carrying each tag</p>
+                </div>
+                <div className="flex bg-slate-100 p-1 rounded-xl">
+                    {[{ id: 'all' as const, label: 'All' }, ...tagGroups].map(group => (
+                        <button
+                          key={group.id}
+                          onClick={() => setTagGroupFilter(group.id)}
+                          className={`px-3 py-1.5 text-xs font-semibold rounded-lg transition ${tagGroupFilter === group.id ? 'bg-white shadow-sm text-slate-800' : 'text-slate-500 hover:text-slate-700'}`}
+                        >
+                            {group.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            {tagStats.length > 0 ? (
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-[11px] font-bold text-slate-400 uppercase tracking-wider text-left">
+                            <th className="pb-3 font-bold">Tag</th>
+                            <th className="pb-3 font-bold">Group</th>
+                            <th className="pb-3 font-bold text-right">Trades</th>
+                            <th className="pb-3 font-bold text-right">Winrate</th>
+                            <th className="pb-3 font-bold text-right">Profit Factor</th>
+                            <th className="pb-3 font-bold text-right">Expectancy</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {tagStats.map(row => (
+                            <tr key={`${row.group}-${row.tag}`} className="border-t border-slate-100">
+                                <td className="py-3 font-semibold text-slate-800">{row.tag}</td>
+                                <td className="py-3 text-slate-400">{tagGroups.find(g => g.id === row.group)?.label}</td>
+                                <td className="py-3 text-right text-slate-700">{row.count}</td>
+                                <td className="py-3 text-right text-slate-700">{row.winrate}%</td>
+                                <td className="py-3 text-right text-slate-700">{row.profitFactor}</td>
+                                <td className={`py-3 text-right font-semibold ${row.expectancy >= 0 ? 'text-green-600' : 'text-rose-500'}`}>{formatPercent(row.expectancy)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            ) : (
+                <div className="h-32 flex items-center justify-center text-sm text-slate-400">
+                    Tag your trades with setups, mistakes, emotions and market conditions to compare them here.
+                </div>
+            )}
+       </div>
+
+       <div className="soft-card p-6 lg:p-8 blur-loading animate-blur-in" style={{ animationDelay: '0.35s' }}>
+            <div className="flex flex-col sm:flex-row justify-between sm:items-start gap-4 mb-6">
+                <div>
+                    <h3 className="font-medium text-slate-700 text-lg flex items-center gap-2">
+                        <Clock className="w-4 h-4 text-slate-400" /> Time Performance
+                    </h3>
+                    <p className="text-xs text-slate-400 mt-1">
+                        Results by entry session, weekday and hour ({timezone || 'browser time'}), and by how long trades were held
+                    </p>
+                </div>
+                <div className="flex bg-slate-100 p-1 rounded-xl">
+                    {TIME_DIMENSIONS.map(dimension => (
+                        <button
+                          key={dimension.id}
+                          onClick={() => setTimeDimension(dimension.id)}
+                          className={`px-3 py-1.5 text-xs font-semibold rounded-lg transition ${timeDimension === dimension.id ? 'bg-white shadow-sm text-slate-800' : 'text-slate-500 hover:text-slate-700'}`}
+                        >
+                            {dimension.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            {timeBreakdown.length > 0 ? (
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-[11px] font-bold text-slate-400 uppercase tracking-wider text-left">
+                            <th className="pb-3 font-bold">{TIME_DIMENSIONS.find(d => d.id === timeDimension)?.label}</th>
+                            <th className="pb-3 font-bold w-1/3">Net PnL</th>
+                            <th className="pb-3 font-bold text-right">Trades</th>
+                            <th className="pb-3 font-bold text-right">Winrate</th>
+                            <th className="pb-3 font-bold text-right">Expectancy</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {timeBreakdown.map(row => (
+                            <tr key={row.key} className="border-t border-slate-100">
+                                <td className="py-3 font-semibold text-slate-800">{row.label}</td>
+                                <td className="py-3 pr-6">
+                                    <div className="flex items-center gap-2">
+                                        <div className="flex-1 h-2 rounded-full bg-slate-100 overflow-hidden">
+                                            <div
+                                              className={`h-full rounded-full ${row.pnl >= 0 ? 'bg-green-500' : 'bg-rose-400'}`}
+                                              style={{ width: `${maxBreakdownPnl ? (Math.abs(row.pnl) / maxBreakdownPnl) * 100 : 0}%` }}
+                                            />
+                                        </div>
+                                        <span className={`w-16 text-right text-xs font-semibold ${row.pnl >= 0 ? 'text-green-600' : 'text-rose-500'}`}>{formatPercent(row.pnl)}</span>
+                                    </div>
+                                </td>
+                                <td className="py-3 text-right text-slate-700">{row.count}</td>
+                                <td className="py-3 text-right text-slate-700">{row.winrate}%</td>
+                                <td className={`py-3 text-right font-semibold ${row.expectancy >= 0 ? 'text-green-600' : 'text-rose-500'}`}>{formatPercent(row.expectancy)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            ) : (
+                <div className="h-32 flex items-center justify-center text-sm text-slate-400">
+                    Trades with an entry time show up here.
+                </div>
+            )}
+       </div>
     </div>
   );
 };
@@ -0,0 +1,152 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Copy, Trash2, ChevronDown, Check, X, Undo } from 'lucide-react';
+import { Trade } from '../../types';
+import { TradeBulkPatch } from '../../hooks/useTrades';
+
+const STYLES: Trade['style'][] = ['Scalping', 'Intraday', 'Intraweek', 'Swing'];
+const DIRECTIONS: Trade['direction'][] = ['Long', 'Short'];
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  onDelete: () => void;
+  onDuplicate: () => void;
+  onUpdate: (patch: TradeBulkPatch) => void;
+  onClearSelection: () => void;
+}
+
+type OpenMenu = 'style' | 'direction' | 'risk' | null;
+
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({ selectedCount, onDelete, onDuplicate, onUpdate, onClearSelection }) => {
+  const [openMenu, setOpenMenu] = useState<OpenMenu>(null);
+  const [riskValue, setRiskValue] = useState('1.0');
+  const barRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (barRef.current && !barRef.current.contains(event.target as Node)) {
+        setOpenMenu(null);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const toggleMenu = (menu: OpenMenu) => setOpenMenu(prev => (prev === menu ? null : menu));
+
+  const applyRisk = () => {
+    const risk = parseFloat(riskValue);
+    if (isNaN(risk) || risk <= 0) return;
+    onUpdate({ risk });
+    setOpenMenu(null);
+  };
+
+  const menuButtonClass = (menu: OpenMenu) =>
+    `flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-semibold transition outline-none focus:outline-none ${openMenu === menu ? 'bg-slate-100 text-slate-900' : 'text-slate-600 hover:bg-slate-50'}`;
+
+  return (
+    <div
+      ref={barRef}
+      className="fixed bottom-28 left-1/2 -translate-x-1/2 z-40 bg-white border border-slate-200 shadow-2xl shadow-slate-200/60 rounded-2xl p-1.5 flex items-center gap-1 animate-fade-in"
+    >
+      <span className="px-3 text-xs font-bold text-slate-800 whitespace-nowrap">{selectedCount} selected</span>
+      <div className="h-5 w-[1px] bg-slate-200 mx-1"></div>
+
+      <div className="relative">
+        <button onClick={() => toggleMenu('style')} className={menuButtonClass('style')}>
+          Style <ChevronDown className="w-3 h-3 text-slate-400" />
+        </button>
+        {openMenu === 'style' && (
+          <div className="absolute bottom-full left-0 mb-2 w-40 bg-white border border-slate-100 rounded-xl shadow-xl p-1 animate-fade-in">
+            {STYLES.map(style => (
+              <button
+                key={style}
+                onClick={() => { onUpdate({ style }); setOpenMenu(null); }}
+                className="w-full text-left px-3 py-2 text-xs font-medium text-slate-600 hover:bg-slate-50 rounded-lg"
+              >
+                {style}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="relative">
+        <button onClick={() => toggleMenu('direction')} className={menuButtonClass('direction')}>
+          Direction <ChevronDown className="w-3 h-3 text-slate-400" />
+        </button>
+        {openMenu === 'direction' && (
+          <div className="absolute bottom-full left-0 mb-2 w-32 bg-white border border-slate-100 rounded-xl shadow-xl p-1 animate-fade-in">
+            {DIRECTIONS.map(direction => (
+              <button
+                key={direction}
+                onClick={() => { onUpdate({ direction }); setOpenMenu(null); }}
+                className="w-full text-left px-3 py-2 text-xs font-medium text-slate-600 hover:bg-slate-50 rounded-lg"
+              >
+                {direction}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="relative">
+        <button onClick={() => toggleMenu('risk')} className={menuButtonClass('risk')}>
+          Risk <ChevronDown className="w-3 h-3 text-slate-400" />
+        </button>
+        {openMenu === 'risk' && (
+          <div className="absolute bottom-full left-0 mb-2 w-44 bg-white border border-slate-100 rounded-xl shadow-xl p-2 flex items-center gap-2 animate-fade-in">
+            <input
+              type="number"
+              step="0.1"
+              value={riskValue}
+              onChange={e => setRiskValue(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') applyRisk(); }}
+              className="w-full bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-semibold text-slate-800 focus:outline-none focus:ring-2 focus:ring-slate-200"
+              autoFocus
+            />
+            <span className="text-xs text-slate-400">%</span>
+            <button onClick={applyRisk} className="p-1.5 rounded-lg bg-slate-900 text-white hover:bg-slate-800 transition" title="Apply">
+              <Check className="w-3 h-3" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="h-5 w-[1px] bg-slate-200 mx-1"></div>
+
+      <button onClick={onDuplicate} className="p-2 rounded-xl text-slate-500 hover:text-slate-800 hover:bg-slate-50 transition" title="Duplicate">
+        <Copy className="w-4 h-4" />
+      </button>
+      <button onClick={onDelete} className="p-2 rounded-xl text-slate-500 hover:text-rose-600 hover:bg-rose-50 transition" title="Delete">
+        <Trash2 className="w-4 h-4" />
+      </button>
+      <button onClick={onClearSelection} className="p-2 rounded-xl text-slate-400 hover:text-slate-600 hover:bg-slate-50 transition" title="Clear selection">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+BulkActionBar.displayName = 'BulkActionBar';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+export const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss }) => {
+  return (
+    <div className="fixed bottom-28 left-1/2 -translate-x-1/2 z-40 bg-slate-900 text-white shadow-2xl rounded-2xl pl-4 pr-1.5 py-1.5 flex items-center gap-3 animate-fade-in">
+      <span className="text-xs font-medium whitespace-nowrap">{message}</span>
+      <button onClick={onUndo} className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-xs font-bold bg-white/10 hover:bg-white/20 transition">
+        <Undo className="w-3 h-3" /> Undo
+      </button>
+      <button onClick={onDismiss} className="p-1.5 rounded-lg text-white/60 hover:text-white transition" title="Dismiss">
+        <X className="w-3 h-3" />
+      </button>
+    </div>
+  );
+};
+
+UndoToast.displayName = 'UndoToast';
@@ -0,0 +1,94 @@
+import React from 'react';
+import { CustomFieldDefinition, CustomFieldValue } from '../../types';
+
+interface CustomFieldInputProps {
+  field: CustomFieldDefinition;
+  value: CustomFieldValue | undefined;
+  // Undefined clears the value from the trade
+  onChange: (value: CustomFieldValue | undefined) => void;
+}
+
+const inputClass = 'w-full text-xs font-semibold border border-slate-200 rounded-lg p-2 focus:outline-none focus:ring-1 focus:ring-slate-300';
+
+/** Editor for one custom field value, shaped by the field's type. */
+export const CustomFieldInput: React.FC<CustomFieldInputProps> = ({ field, value, onChange }) => {
+  switch (field.type) {
+    case 'number':
+      return (
+        <input
+          type="number"
+          step="any"
+          value={typeof value === 'number' ? value : ''}
+          onChange={e => onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))}
+          className={inputClass}
+          placeholder="0"
+        />
+      );
+    case 'date':
+      return (
+        <input
+          type="date"
+          value={typeof value === 'string' ? value : ''}
+          onChange={e => onChange(e.target.value || undefined)}
+          className={inputClass}
+        />
+      );
+    case 'checkbox':
+      return (
+        <label className="flex items-center gap-2 h-[34px] text-xs font-semibold text-slate-600 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!value}
+            onChange={e => onChange(e.target.checked || undefined)}
+            className="accent-slate-800"
+          />
+          {value ? 'Yes' : 'No'}
+        </label>
+      );
+    case 'select':
+      return (
+        <select
+          value={typeof value === 'string' ? value : ''}
+          onChange={e => onChange(e.target.value || undefined)}
+          className={`${inputClass} bg-white`}
+        >
+          <option value="">—</option>
+          {(field.options ?? []).map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+    case 'multiselect': {
+      const selected = Array.isArray(value) ? value : [];
+      const toggle = (option: string) => {
+        const next = selected.includes(option) ? selected.filter(o => o !== option) : [...selected, option];
+        onChange(next.length ? next : undefined);
+      };
+      return (
+        <div className="flex flex-wrap gap-1 min-h-[34px] items-center">
+          {(field.options ?? []).length === 0 && <span className="text-xs text-slate-400">Add options in the preferences.</span>}
+          {(field.options ?? []).map(option => (
+            <button
+              key={option}
+              onClick={() => toggle(option)}
+              className={`px-2 py-1 rounded-lg text-xs font-semibold border transition ${selected.includes(option) ? 'bg-slate-800 border-slate-800 text-white' : 'bg-white border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      );
+    }
+    default:
+      return (
+        <input
+          type="text"
+          value={typeof value === 'string' ? value : ''}
+          onChange={e => onChange(e.target.value || undefined)}
+          className={inputClass}
+        />
+      );
+  }
+};
+
+CustomFieldInput.displayName = 'CustomFieldInput';
@@ -0,0 +1,124 @@
+import React from 'react';
+import { LogIn, LogOut, Trash2 } from 'lucide-react';
+import { Execution } from '../../types';
+import { formatNumber } from '../../utils';
+import { summarizeExecutions } from '../../utils/tradePnl';
+import { compareTimestamps, fromWallTime, toWallTime, toZonedTimestamp } from '../../utils/timezone';
+
+interface ExecutionsEditorProps {
+  executions: Execution[];
+  onChange: (executions: Execution[]) => void;
+  // Times are typed and shown on the journal's clock
+  timezone: string;
+}
+
+/** Scale-in and scale-out fills of one trade, in the order they happened. */
+export const ExecutionsEditor: React.FC<ExecutionsEditorProps> = ({ executions, onChange, timezone }) => {
+  const sorted = [...executions].sort((a, b) => compareTimestamps(a.date, b.date));
+  const summary = summarizeExecutions(executions);
+  const remaining = summary ? summary.quantity - summary.exitedQuantity : 0;
+
+  const addExecution = (side: Execution['side']) => {
+    const last = sorted[sorted.length - 1];
+    onChange([...executions, {
+      id: Date.now(),
+      side,
+      date: toZonedTimestamp(new Date(), timezone),
+      price: last?.price ?? 0,
+      // An exit defaults to closing whatever is still open
+      quantity: side === 'exit' && remaining > 0 ? remaining : 0
+    }]);
+  };
+
+  const updateExecution = (id: number, patch: Partial<Execution>) => {
+    onChange(executions.map(e => (e.id === id ? { ...e, ...patch } : e)));
+  };
+
+  const removeExecution = (id: number) => {
+    onChange(executions.filter(e => e.id !== id));
+  };
+
+  const inputClass = 'w-full text-xs font-semibold border border-slate-200 rounded-lg p-2 focus:outline-none focus:ring-1 focus:ring-slate-300';
+
+  return (
+    <div className="space-y-2">
+      {sorted.length > 0 && (
+        <div className="grid grid-cols-[72px_1fr_1fr_1fr_1fr_28px] gap-2 text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+          <span>Side</span>
+          <span>Time</span>
+          <span>Price</span>
+          <span>Size</span>
+          <span>Fee</span>
+          <span />
+        </div>
+      )}
+      {sorted.map(execution => (
+        <div key={execution.id} className="grid grid-cols-[72px_1fr_1fr_1fr_1fr_28px] gap-2 items-center">
+          <button
+            onClick={() => updateExecution(execution.id, { side: execution.side === 'entry' ? 'exit' : 'entry' })}
+            className={`px-2 py-2 rounded-lg text-[10px] font-bold uppercase border transition ${execution.side === 'entry' ? 'bg-blue-50 border-blue-100 text-blue-600' : 'bg-slate-50 border-slate-200 text-slate-600'}`}
+            title="Switch between entry and exit"
+          >
+            {execution.side === 'entry' ? 'Entry' : 'Exit'}
+          </button>
+          <input
+            type="datetime-local"
+            value={toWallTime(execution.date, timezone)}
+            onChange={e => e.target.value && updateExecution(execution.id, { date: fromWallTime(e.target.value, timezone) })}
+            className={inputClass}
+          />
+          <input
+            type="number"
+            step="any"
+            value={execution.price}
+            onChange={e => updateExecution(execution.id, { price: parseFloat(e.target.value) || 0 })}
+            className={inputClass}
+          />
+          <input
+            type="number"
+            step="any"
+            value={execution.quantity}
+            onChange={e => updateExecution(execution.id, { quantity: Math.max(0, parseFloat(e.target.value) || 0) })}
+            className={inputClass}
+          />
+          <input
+            type="number"
+            step="any"
+            value={execution.fee ?? ''}
+            onChange={e => updateExecution(execution.id, { fee: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+            className={inputClass}
+            placeholder="0.00"
+          />
+          <button
+            onClick={() => removeExecution(execution.id)}
+            className="p-1.5 text-slate-300 hover:text-rose-500 transition"
+            title="Remove execution"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2 pt-1">
+        <button
+          onClick={() => addExecution('entry')}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-100 text-slate-600 text-xs font-semibold hover:bg-slate-200 transition"
+        >
+          <LogIn className="w-3.5 h-3.5" /> Scale in
+        </button>
+        <button
+          onClick={() => addExecution('exit')}
+          disabled={remaining <= 0}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-100 text-slate-600 text-xs font-semibold hover:bg-slate-200 transition disabled:opacity-40"
+        >
+          <LogOut className="w-3.5 h-3.5" /> Scale out
+        </button>
+        {summary && remaining > 0 && (
+          <span className="ml-auto text-xs font-semibold text-slate-400">{formatNumber(remaining, 8)} still open</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+ExecutionsEditor.displayName = 'ExecutionsEditor';
@@ -0,0 +1,170 @@
+import React from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import {
+  FilterCombinator, FilterField, FilterGroup, FilterOperator, FilterRule, FilterTree,
+  OPERATORS_BY_KIND, OPERATOR_LABELS, newFilterGroup, newFilterRule, operatorNeedsValue
+} from '../../utils/journalFilters';
+
+interface FilterBuilderProps {
+  tree: FilterTree;
+  fields: FilterField[];
+  onChange: (tree: FilterTree) => void;
+}
+
+const DATE_OPERATOR_LABELS: Partial<Record<FilterOperator, string>> = {
+  atLeast: 'on or after',
+  atMost: 'on or before'
+};
+
+const selectClass = 'bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs font-semibold text-slate-600 outline-none cursor-pointer';
+const inputClass = 'min-w-0 flex-1 bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs text-slate-700 outline-none focus:ring-1 focus:ring-slate-300';
+
+const CombinatorToggle: React.FC<{ value: FilterCombinator; onChange: (value: FilterCombinator) => void; labels: [string, string] }> = ({ value, onChange, labels }) => (
+  <div className="flex bg-slate-100 p-0.5 rounded-lg">
+    {(['and', 'or'] as const).map((combinator, i) => (
+      <button
+        key={combinator}
+        onClick={() => onChange(combinator)}
+        className={`px-2 py-0.5 text-[10px] font-bold uppercase rounded-md transition ${value === combinator ? 'bg-white shadow-sm text-slate-800' : 'text-slate-400 hover:text-slate-600'}`}
+      >
+        {labels[i]}
+      </button>
+    ))}
+  </div>
+);
+
+const RuleValueInput: React.FC<{ rule: FilterRule; field: FilterField; onChange: (patch: Partial<FilterRule>) => void }> = ({ rule, field, onChange }) => {
+  if (!operatorNeedsValue(rule.operator)) return null;
+
+  if (field.kind === 'option' || field.kind === 'multi') {
+    const selected = Array.isArray(rule.value) ? rule.value : [];
+    const toggle = (option: string) =>
+      onChange({ value: selected.includes(option) ? selected.filter(v => v !== option) : [...selected, option] });
+    return (
+      <div className="flex flex-wrap gap-1 w-full pt-1">
+        {(field.options ?? []).length === 0 && <span className="text-[10px] text-slate-400">Nothing to choose from yet.</span>}
+        {(field.options ?? []).map(option => (
+          <button
+            key={option}
+            onClick={() => toggle(option)}
+            className={`px-2 py-0.5 rounded text-xs font-semibold border transition ${selected.includes(option) ? 'bg-slate-800 text-white border-slate-800' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'}`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  const type = field.kind === 'number' ? 'number' : field.kind === 'date' ? 'date' : 'text';
+  const parse = (raw: string) => (raw === '' ? undefined : type === 'number' ? parseFloat(raw) : raw);
+  const valueOf = (value: FilterRule['value']) => (value === undefined || Array.isArray(value) ? '' : value);
+
+  return (
+    <>
+      <input type={type} step="any" value={valueOf(rule.value)} onChange={e => onChange({ value: parse(e.target.value) })} className={inputClass} />
+      {rule.operator === 'between' && (
+        <>
+          <span className="text-[10px] text-slate-400">and</span>
+          <input type={type} step="any" value={valueOf(rule.valueTo)} onChange={e => onChange({ valueTo: parse(e.target.value) })} className={inputClass} />
+        </>
+      )}
+    </>
+  );
+};
+
+/** AND/OR groups of conditions over any trade property, tag group or custom field. */
+export const FilterBuilder: React.FC<FilterBuilderProps> = ({ tree, fields, onChange }) => {
+  const fieldsById = new Map(fields.map(f => [f.id, f]));
+
+  const updateGroup = (groupId: number, patch: Partial<FilterGroup>) => {
+    onChange({ ...tree, groups: tree.groups.map(g => (g.id === groupId ? { ...g, ...patch } : g)) });
+  };
+
+  const removeGroup = (groupId: number) => {
+    onChange({ ...tree, groups: tree.groups.filter(g => g.id !== groupId) });
+  };
+
+  const updateRule = (group: FilterGroup, ruleId: number, patch: Partial<FilterRule>) => {
+    updateGroup(group.id, { rules: group.rules.map(r => (r.id === ruleId ? { ...r, ...patch } : r)) });
+  };
+
+  const removeRule = (group: FilterGroup, ruleId: number) => {
+    const rules = group.rules.filter(r => r.id !== ruleId);
+    if (rules.length === 0) removeGroup(group.id);
+    else updateGroup(group.id, { rules });
+  };
+
+  // A new field keeps nothing of the old condition, since its operators and values differ
+  const changeField = (group: FilterGroup, rule: FilterRule, fieldId: string) => {
+    const field = fieldsById.get(fieldId);
+    if (field) updateRule(group, rule.id, { ...newFilterRule(field, tree), id: rule.id });
+  };
+
+  return (
+    <div className="space-y-2">
+      {tree.groups.length > 1 && (
+        <div className="flex items-center gap-2 text-[10px] font-semibold text-slate-400">
+          Match
+          <CombinatorToggle value={tree.combinator} onChange={combinator => onChange({ ...tree, combinator })} labels={['All groups', 'Any group']} />
+        </div>
+      )}
+
+      {tree.groups.map(group => (
+        <div key={group.id} className="rounded-xl border border-slate-100 bg-slate-50 p-2 space-y-1.5">
+          <div className="flex items-center justify-between">
+            <CombinatorToggle value={group.combinator} onChange={combinator => updateGroup(group.id, { combinator })} labels={['And', 'Or']} />
+            <button onClick={() => removeGroup(group.id)} className="p-1 text-slate-300 hover:text-rose-500 transition" title="Remove group">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+
+          {group.rules.map(rule => {
+            const field = fieldsById.get(rule.field);
+            return (
+              <div key={rule.id} className="flex flex-wrap items-center gap-1">
+                <select value={rule.field} onChange={e => changeField(group, rule, e.target.value)} className={selectClass}>
+                  {!field && <option value={rule.field}>Removed field</option>}
+                  {fields.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+                </select>
+                {field && (
+                  <>
+                    <select
+                      value={rule.operator}
+                      onChange={e => updateRule(group, rule.id, { operator: e.target.value as FilterOperator })}
+                      className={selectClass}
+                    >
+                      {OPERATORS_BY_KIND[field.kind].map(op => (
+                        <option key={op} value={op}>{(field.kind === 'date' && DATE_OPERATOR_LABELS[op]) || OPERATOR_LABELS[op]}</option>
+                      ))}
+                    </select>
+                    <RuleValueInput rule={rule} field={field} onChange={patch => updateRule(group, rule.id, patch)} />
+                  </>
+                )}
+                <button onClick={() => removeRule(group, rule.id)} className="p-1 text-slate-300 hover:text-slate-600 transition" title="Remove condition">
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            );
+          })}
+
+          <button
+            onClick={() => updateGroup(group.id, { rules: [...group.rules, newFilterRule(fields[0], tree)] })}
+            className="flex items-center gap-1 text-[10px] font-semibold text-slate-400 hover:text-slate-700 transition"
+          >
+            <Plus className="w-3 h-3" /> Condition
+          </button>
+        </div>
+      ))}
+
+      <button
+        onClick={() => onChange({ ...tree, groups: [...tree.groups, newFilterGroup(fields[0], tree)] })}
+        className="w-full flex items-center justify-center gap-1.5 py-2 rounded-xl border border-dashed border-slate-200 text-slate-500 text-xs font-semibold hover:bg-slate-50 hover:text-slate-700 transition"
+      >
+        <Plus className="w-3.5 h-3.5" /> {tree.groups.length ? 'Add group' : 'Add filter'}
+      </button>
+    </div>
+  );
+};
+
+FilterBuilder.displayName = 'FilterBuilder';
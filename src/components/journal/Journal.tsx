@@ -1,19 +1,45 @@
 
 import React, { useState, useMemo, useEffect, useRef, useCallback, useLayoutEffect } from 'react';
 import { useProgressiveLoad } from '../../hooks/useProgressiveLoad';
+import { useJournalViews } from '../../hooks/useJournalViews';
 import { 
   ArrowUp, ArrowDown, ChevronDown, ChevronLeft, ChevronRight, 
   Check, Plus, Minus, LineChart, Columns3, Filter, Star, Search, Inbox, Settings,
   Eye, EyeOff, GripVertical, ListFilter, AlignLeft, WrapText,
-  ArrowLeftRight, Calendar, Globe, CalendarDays, Timer, LogIn, LogOut, Hash, BarChart3, AlertTriangle, CalendarCheck, Banknote, X
+  Calendar, CalendarDays, X, Upload
 } from 'lucide-react';
-import { Trade } from '../../types';
-import { formatPercent } from '../../utils';
+import { CustomFieldDefinition, SessionConfig, TagGroupDefinition, Trade } from '../../types';
+import { formatNumber, formatPercent, formatR } from '../../utils';
+import { getTradeDay, getZonedParts, toDayKey } from '../../utils/timezone';
+import { getPlannedR, getRealizedR, getTradeVolume, isClosedTrade, isOpenTrade } from '../../utils/tradePnl';
+import { collectTags, countTags } from '../../utils/tags';
+import {
+  customFieldColumnId, formatCustomFieldValue, getCustomFieldIdFromColumn, getCustomFieldSortValue, getCustomFieldValue
+} from '../../utils/customFields';
+import {
+  EMPTY_FILTER_TREE, FilterField, FilterTree, countActiveRules, createTreeMatcher, getFilterFields, matchesSearch
+} from '../../utils/journalFilters';
+import { getHoldTime, getSession, getWeekday } from '../../utils/tradeTime';
+import { TradeBulkPatch } from '../../hooks/useTrades';
+import { BulkActionBar, UndoToast } from './BulkActionBar';
+import { TAG_CHIP_CLASSES } from './TagEditor';
+import { FilterBuilder } from './FilterBuilder';
+import { ViewsMenu } from './ViewsMenu';
+import { TradingCalendar } from './TradingCalendar';
 
 interface JournalProps {
   trades: Trade[];
+  customFields: CustomFieldDefinition[];
+  tagGroups: TagGroupDefinition[];
+  sessionConfig: SessionConfig;
+  timezone: string;
   openTradeModal: () => void;
+  openImportWizard: () => void;
   openTradeDetail: (trade: Trade) => void;
+  deleteTrades: (ids: number[]) => Trade[];
+  restoreTrades: (trades: Trade[]) => void;
+  duplicateTrades: (ids: number[]) => Trade[];
+  bulkUpdateTrades: (ids: number[], patch: TradeBulkPatch) => void;
   controlsScale: number;
   dateToggleConfig: { fontSize: number; fontWeight: number; height: number; paddingX: number };
   positionsConfig: { fontSize: number; fontWeight: number; height: number; paddingX: number; borderRadius: number };
@@ -24,12 +50,40 @@ interface JournalProps {
   skipAnimation?: boolean;
 }
 
-type SortField = 'date' | 'ticker' | 'direction' | 'style' | 'risk' | 'pnl';
+type SortField = 'date' | 'ticker' | 'direction' | 'style' | 'risk' | 'pnl' | 'entryPrice' | 'exitPrice' | 'quantity' | 'volume' | 'r' | `custom:${string}`;
 type SortDirection = 'asc' | 'desc';
 
+// Derived columns are computed; everything else sorts on the stored field
+const getSortValue = (trade: Trade, field: SortField, customFields: CustomFieldDefinition[]) => {
+  if (field === 'volume') return getTradeVolume(trade);
+  if (field === 'r') return getRealizedR(trade);
+  const customFieldId = getCustomFieldIdFromColumn(field);
+  if (customFieldId !== null) {
+    const customField = customFields.find(f => f.id === customFieldId);
+    return customField ? getCustomFieldSortValue(customField, getCustomFieldValue(trade, customField)) : null;
+  }
+  return trade[field as Exclude<SortField, `custom:${string}`>];
+};
+
+// Everything a saved view restores; fields are optional so older saves keep loading
+type JournalViewSettings = Partial<{
+  filters: FilterState;
+  dateFilterMode: DateFilterMode;
+  layout: JournalLayout;
+  isTextWrapEnabled: boolean;
+  metricsOrder: string[];
+  hiddenMetrics: string[];
+  columnsOrder: string[];
+  hiddenColumns: string[];
+  columnWidths: Record<string, number>;
+  sortConfig: { field: SortField; direction: SortDirection };
+}>;
+
 type StyleOption = 'All' | 'Scalping' | 'Intraday' | 'Intraweek' | 'Swing';
 type OutcomeOption = 'All' | 'Win' | 'BE' | 'Loss';
 type DirectionOption = 'All' | 'Long' | 'Short';
+type DateFilterMode = 'All' | 'Q' | 'M' | 'W' | 'Custom';
+type JournalLayout = 'table' | 'calendar';
 
 interface FilterState {
   startDate: string;
@@ -38,38 +92,49 @@ interface FilterState {
   status: 'All' | 'Open' | 'Closed';
   style: StyleOption[];
   outcome: OutcomeOption[];
+  advanced: FilterTree;
 }
 
-const SELECTION_COL_WIDTH = 48; // Explicit pixel width for alignment
-
-// --- Helpers for the new Table Design ---
-
-const getSession = (dateStr: string) => {
-    if (!dateStr) return '—';
-    const hour = new Date(dateStr).getHours();
-    if (hour >= 22 || hour < 8) return 'Asian';
-    if (hour >= 8 && hour < 14) return 'London';
-    return 'New-York';
+const DEFAULT_FILTERS: FilterState = {
+  startDate: '', endDate: '', direction: 'All', status: 'All', style: ['All'], outcome: ['All'], advanced: EMPTY_FILTER_TREE
 };
 
-const getWeekday = (dateStr: string) => {
-    if (!dateStr) return '—';
-    return new Date(dateStr).toLocaleDateString('en-US', { weekday: 'long' });
+// Range of the relative date toggles (this week, month or quarter), as of today in the journal timezone
+const getDateRange = (mode: Exclude<DateFilterMode, 'Custom'>, timezone: string): { startDate: string; endDate: string } => {
+  const now = getZonedParts(new Date(), timezone);
+
+  if (mode === 'W') {
+      return { startDate: toDayKey(now.year, now.month, now.day - now.weekday), endDate: toDayKey(now.year, now.month, now.day) };
+  }
+  if (mode === 'M') {
+      return {
+          startDate: toDayKey(now.year, now.month, 1),
+          endDate: toDayKey(now.year, now.month + 1, 0)
+      };
+  }
+  if (mode === 'Q') {
+      const q = Math.floor((now.month - 1) / 3);
+      return {
+          startDate: toDayKey(now.year, q * 3 + 1, 1),
+          endDate: toDayKey(now.year, q * 3 + 4, 0)
+      };
+  }
+  return { startDate: '', endDate: '' };
 };
 
-const getHoldTime = (start: string, end?: string) => {
-    if (!start || !end) return '—';
-    const diff = new Date(end).getTime() - new Date(start).getTime();
-    const minutes = Math.floor(diff / 60000);
-    
-    if (minutes < 60) return `${minutes}m`;
-    const hours = Math.floor(minutes / 60);
-    if (hours < 24) return `${hours}h`;
-    const days = Math.floor(hours / 24);
-    return `${days}d`;
+// Relative ranges are recomputed so a "this month" view keeps following the calendar
+const getViewFilters = (view: JournalViewSettings, timezone: string): FilterState => {
+  const filters = { ...DEFAULT_FILTERS, ...view.filters };
+  const mode = view.dateFilterMode ?? 'All';
+  return mode === 'Custom' ? filters : { ...filters, ...getDateRange(mode, timezone) };
 };
 
-const formatTableDate = (dateStr: string) => {
+const SELECTION_COL_WIDTH = 48; // Explicit pixel width for alignment
+const UNDO_TIMEOUT_MS = 6000;
+
+// --- Helpers for the new Table Design ---
+
+const formatTableDate = (dateStr: string, timezone: string) => {
     if (!dateStr) return '—';
     const d = new Date(dateStr);
     return d.toLocaleString('en-GB', { 
@@ -78,7 +143,8 @@ const formatTableDate = (dateStr: string) => {
         year: 'numeric', 
         hour: '2-digit', 
         minute: '2-digit',
-        hour12: false 
+        hour12: false,
+        timeZone: timezone || undefined
     }).replace(',', '');
 };
 
@@ -431,41 +497,21 @@ const PropertiesMenu: React.FC<{
 };
 
 // --- Filter Menu Component ---
-const FilterMenu: React.FC = () => {
-    const filterOptions = [
-        { id: 'ticker', label: 'Pair', icon: ArrowLeftRight },
-        { id: 'date', label: 'Open Date', icon: Calendar },
-        { id: 'session', label: 'Session', icon: Globe },
-        { id: 'weekday', label: 'Weekday', icon: CalendarDays },
-        { id: 'holdtime', label: 'Holdtime', icon: Timer },
-        { id: 'entry', label: 'Entry', icon: LogIn },
-        { id: 'exit', label: 'Exit', icon: LogOut },
-        { id: 'size', label: 'Size', icon: Hash },
-        { id: 'volume', label: 'Volume', icon: BarChart3 },
-        { id: 'risk', label: 'Risk', icon: AlertTriangle },
-        { id: 'exitDate', label: 'Close Date', icon: CalendarCheck },
-        { id: 'pnl', label: 'PnL', icon: Banknote },
-    ];
-
+const FilterMenu: React.FC<{
+    tree: FilterTree;
+    fields: FilterField[];
+    onChange: (tree: FilterTree) => void;
+}> = ({ tree, fields, onChange }) => {
     return (
-        <div className="absolute top-full right-0 mt-2 w-56 bg-white border border-slate-100 rounded-xl shadow-xl z-50 p-2 animate-fade-in origin-top-right">
-            <div className="px-3 py-2 flex items-center justify-between border-b border-slate-50 mb-1">
-                <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Add Filter</span>
+        <div className="absolute top-full right-0 mt-2 w-[420px] bg-white border border-slate-100 rounded-xl shadow-xl z-50 p-2 animate-fade-in origin-top-right">
+            <div className="px-3 py-2 flex items-center justify-between border-b border-slate-50 mb-2">
+                <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Filters</span>
+                {countActiveRules(tree) > 0 && (
+                    <button onClick={() => onChange(EMPTY_FILTER_TREE)} className="text-[10px] font-semibold text-slate-400 hover:text-slate-700 transition">Clear</button>
+                )}
             </div>
-            <div className="space-y-0.5 max-h-[320px] overflow-y-auto custom-scrollbar">
-                {filterOptions.map(opt => (
-                    <button
-                        key={opt.id}
-                        className="w-full flex items-center gap-3 px-3 py-2 rounded-lg transition-colors hover:bg-slate-50 text-left group"
-                    >
-                        <div className="text-slate-300 group-hover:text-slate-500 transition-colors">
-                            <opt.icon className="w-4 h-4 stroke-[1.5]" />
-                        </div>
-                        <span className="text-sm font-medium text-slate-600 group-hover:text-slate-900">
-                            {opt.label}
-                        </span>
-                    </button>
-                ))}
+            <div className="px-1 pb-1 max-h-[420px] overflow-y-auto">
+                <FilterBuilder tree={tree} fields={fields} onChange={onChange} />
             </div>
         </div>
     );
@@ -554,24 +600,64 @@ const PROPERTY_LABELS: Record<string, string> = {
   size: 'Size',
   volume: 'Volume',
   risk: 'Risk',
+  r: 'R Multiple',
+  tags: 'Tags',
   exitDate: 'Close Date',
   pnl: 'PnL'
 };
 
+const DEFAULT_COLUMNS = ['ticker', 'date', 'session', 'weekday', 'holdtime', 'entry', 'exit', 'size', 'volume', 'risk', 'r', 'tags', 'exitDate', 'pnl'];
+
+const DEFAULT_COLUMN_WIDTHS: Record<string, number> = {
+  ticker: 120,
+  date: 140,
+  session: 100,
+  weekday: 100,
+  holdtime: 100,
+  entry: 100,
+  exit: 100,
+  size: 80,
+  volume: 80,
+  risk: 100,
+  r: 100,
+  tags: 180,
+  exitDate: 140,
+  pnl: 100
+};
+
+const DEFAULT_METRICS = ['totalPnL', 'winrate', 'avgR', 'pf', 'avgRisk'];
+
+const DEFAULT_SORT: { field: SortField; direction: SortDirection } = { field: 'date', direction: 'desc' };
+
+const CUSTOM_COLUMN_WIDTH = 140;
+
+
+export const Journal: React.FC<JournalProps> = ({ trades, customFields, tagGroups, sessionConfig, timezone, openTradeModal, openImportWizard, openTradeDetail, deleteTrades, restoreTrades, duplicateTrades, bulkUpdateTrades, controlsScale, dateToggleConfig, positionsConfig, metricsConfig, rightGutter, leftGutter, filterBarSpacing, skipAnimation = false }) => {
+  const journalViews = useJournalViews<JournalViewSettings>();
+  const { activeView, saveActiveSettings } = journalViews;
+  const [savedView] = useState(() => activeView.settings);
+  const [isViewsMenuOpen, setIsViewsMenuOpen] = useState(false);
+  const viewsMenuRef = useRef<HTMLDivElement>(null);
 
-export const Journal: React.FC<JournalProps> = ({ trades, openTradeModal, openTradeDetail, controlsScale, dateToggleConfig, positionsConfig, metricsConfig, rightGutter, leftGutter, filterBarSpacing, skipAnimation = false }) => {
   // View Settings State
-  const [isTextWrapEnabled, setIsTextWrapEnabled] = useState(true);
+  const [isTextWrapEnabled, setIsTextWrapEnabled] = useState(savedView.isTextWrapEnabled ?? true);
   const [isViewSettingsOpen, setIsViewSettingsOpen] = useState(false);
   const viewSettingsMenuRef = useRef<HTMLDivElement>(null);
   const viewSettingsButtonRef = useRef<HTMLButtonElement>(null);
   const journalViewRef = useRef<HTMLElement>(null);
 
-  const [filters, setFilters] = useState<FilterState>({
-    startDate: '', endDate: '', direction: 'All', status: 'All', style: ['All'], outcome: ['All']
-  });
+  const [filters, setFilters] = useState<FilterState>(() => getViewFilters(savedView, timezone));
+
+  const tagOptions = useMemo(() => collectTags(trades, tagGroups), [trades, tagGroups]);
+
+  const filterFields = useMemo(() => getFilterFields(customFields, tagGroups, tagOptions, sessionConfig, timezone), [customFields, tagGroups, tagOptions, sessionConfig, timezone]);
 
-  const [dateFilterMode, setDateFilterMode] = useState<'All' | 'Q' | 'M' | 'W' | 'Custom'>('All');
+  const setAdvancedFilter = useCallback((advanced: FilterTree) => {
+    setFilters(prev => ({ ...prev, advanced }));
+  }, []);
+
+  const [dateFilterMode, setDateFilterMode] = useState<DateFilterMode>(savedView.dateFilterMode ?? 'All');
+  const [layout, setLayout] = useState<JournalLayout>(savedView.layout ?? 'table');
   const [showPositionMenu, setShowPositionMenu] = useState(false);
   const positionMenuRef = useRef<HTMLDivElement>(null);
 
@@ -589,6 +675,49 @@ export const Journal: React.FC<JournalProps> = ({ trades, openTradeModal, openTr
   // Selection State
   const [selectedIds, setSelectedIds] = useState<number[]>([]);
 
+  // Bulk Actions State
+  const [deletedTrades, setDeletedTrades] = useState<Trade[] | null>(null);
+  const undoTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+    };
+  }, []);
+
+  const dismissUndo = useCallback(() => {
+    if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+    undoTimerRef.current = null;
+    setDeletedTrades(null);
+  }, []);
+
+  const handleBulkDelete = useCallback(() => {
+    const removed = deleteTrades(selectedIds);
+    setSelectedIds([]);
+    if (removed.length === 0) return;
+
+    if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+    setDeletedTrades(removed);
+    undoTimerRef.current = setTimeout(() => {
+      setDeletedTrades(null);
+      undoTimerRef.current = null;
+    }, UNDO_TIMEOUT_MS);
+  }, [deleteTrades, selectedIds]);
+
+  const handleUndoDelete = useCallback(() => {
+    if (deletedTrades) restoreTrades(deletedTrades);
+    dismissUndo();
+  }, [deletedTrades, restoreTrades, dismissUndo]);
+
+  const handleBulkDuplicate = useCallback(() => {
+    duplicateTrades(selectedIds);
+    setSelectedIds([]);
+  }, [duplicateTrades, selectedIds]);
+
+  const handleBulkUpdate = useCallback((patch: TradeBulkPatch) => {
+    bulkUpdateTrades(selectedIds, patch);
+  }, [bulkUpdateTrades, selectedIds]);
+
   // --- NEW DATE SELECTOR LOGIC ---
   const dateOptions = ['All', 'Q', 'M', 'W', 'Custom'];
   const tabsRef = useRef<(HTMLButtonElement | null)[]>([]);
@@ -597,35 +726,33 @@ export const Journal: React.FC<JournalProps> = ({ trades, openTradeModal, openTr
   const customPickerRef = useRef<HTMLDivElement>(null);
 
   // --- Metrics State ---
-  const [metricsOrder, setMetricsOrder] = useState(['totalPnL', 'winrate', 'avgR', 'pf', 'avgRisk']);
+  const [metricsOrder, setMetricsOrder] = useState(savedView.metricsOrder ?? DEFAULT_METRICS);
   
-  const [hiddenMetrics, setHiddenMetrics] = useState<string[]>([]);
+  const [hiddenMetrics, setHiddenMetrics] = useState<string[]>(savedView.hiddenMetrics ?? []);
   const [isMetricsMenuOpen, setIsMetricsMenuOpen] = useState(false);
   const metricsMenuRef = useRef<HTMLDivElement>(null);
   const metricsButtonRef = useRef<HTMLButtonElement>(null);
 
   // --- Table Columns State ---
-  const [columnsOrder, setColumnsOrder] = useState(['ticker', 'date', 'session', 'weekday', 'holdtime', 'entry', 'exit', 'size', 'volume', 'risk', 'exitDate', 'pnl']);
-  const [hiddenColumns, setHiddenColumns] = useState<string[]>([]);
+  const [columnsOrder, setColumnsOrder] = useState(savedView.columnsOrder ?? DEFAULT_COLUMNS);
+  // Columns added since the view was saved (including new custom fields) are appended so they can
+  // still be toggled; columns of removed custom fields drop out
+  const orderedColumns = useMemo(() => {
+    const available = [...DEFAULT_COLUMNS, ...customFields.map(customFieldColumnId)];
+    const kept = columnsOrder.filter(id => available.includes(id));
+    return [...kept, ...available.filter(id => !kept.includes(id))];
+  }, [columnsOrder, customFields]);
+  const propertyLabels = useMemo(() => ({
+    ...PROPERTY_LABELS,
+    ...Object.fromEntries(customFields.map(f => [customFieldColumnId(f), f.name]))
+  }), [customFields]);
+  const [hiddenColumns, setHiddenColumns] = useState<string[]>(savedView.hiddenColumns ?? []);
   const [isPropertiesMenuOpen, setIsPropertiesMenuOpen] = useState(false);
   const propertiesMenuRef = useRef<HTMLDivElement>(null);
   const propertiesButtonRef = useRef<HTMLButtonElement>(null);
 
   // Column Resizing State
-  const [columnWidths, setColumnWidths] = useState<Record<string, number>>({
-    ticker: 120,
-    date: 140,
-    session: 100,
-    weekday: 100,
-    holdtime: 100,
-    entry: 100,
-    exit: 100,
-    size: 80,
-    volume: 80,
-    risk: 100,
-    exitDate: 140,
-    pnl: 100
-  });
+  const [columnWidths, setColumnWidths] = useState<Record<string, number>>({ ...DEFAULT_COLUMN_WIDTHS, ...savedView.columnWidths });
 
   const [resizeState, setResizeState] = useState<{col: string, startX: number, startW: number} | null>(null);
 
@@ -637,7 +764,7 @@ export const Journal: React.FC<JournalProps> = ({ trades, openTradeModal, openTr
   const startResize = useCallback((col: string, e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
-    setResizeState({ col, startX: e.clientX, startW: columnWidths[col] });
+    setResizeState({ col, startX: e.clientX, startW: columnWidths[col] ?? CUSTOM_COLUMN_WIDTH });
   }, [columnWidths]);
 
   useEffect(() => {
@@ -668,7 +795,7 @@ export const Journal: React.FC<JournalProps> = ({ trades, openTradeModal, openTr
   const filterMenuRef = useRef<HTMLDivElement>(null);
   const filterButtonRef = useRef<HTMLButtonElement>(null);
 
-  const visibleColumns = useMemo(() => columnsOrder.filter(id => !hiddenColumns.includes(id)), [columnsOrder, hiddenColumns]);
+  const visibleColumns = useMemo(() => orderedColumns.filter(id => !hiddenColumns.includes(id)), [orderedColumns, hiddenColumns]);
 
   // Memoize updateHighlight to prevent recreating event listeners unnecessarily
   const updateHighlight = useCallback(() => {
@@ -703,6 +830,9 @@ export const Journal: React.FC<JournalProps> = ({ trades, openTradeModal, openTr
       if (positionMenuRef.current && !positionMenuRef.current.contains(target)) {
         setShowPositionMenu(false);
       }
+      if (viewsMenuRef.current && !viewsMenuRef.current.contains(target)) {
+        setIsViewsMenuOpen(false);
+      }
       if (customPickerRef.current && !customPickerRef.current.contains(target) && !tabsRef.current[4]?.contains(target)) {
           setIsCustomPickerOpen(false);
       }
@@ -752,9 +882,28 @@ export const Journal: React.FC<JournalProps> = ({ trades, openTradeModal, openTr
     };
   }, []); // Run once on mount
 
-  const [sortConfig, setSortConfig] = useState<{ field: SortField; direction: SortDirection }>({
-    field: 'date', direction: 'desc'
-  });
+  const [sortConfig, setSortConfig] = useState<{ field: SortField; direction: SortDirection }>(
+    savedView.sortConfig ?? DEFAULT_SORT
+  );
+
+  useEffect(() => {
+    saveActiveSettings({ filters, dateFilterMode, layout, isTextWrapEnabled, metricsOrder, hiddenMetrics, columnsOrder, hiddenColumns, columnWidths, sortConfig });
+  }, [saveActiveSettings, filters, dateFilterMode, layout, isTextWrapEnabled, metricsOrder, hiddenMetrics, columnsOrder, hiddenColumns, columnWidths, sortConfig]);
+
+  // Puts a saved view on screen; the effect above then keeps saving into it
+  const applyView = useCallback((view: JournalViewSettings) => {
+    setFilters(getViewFilters(view, timezone));
+    setDateFilterMode(view.dateFilterMode ?? 'All');
+    setLayout(view.layout ?? 'table');
+    setIsTextWrapEnabled(view.isTextWrapEnabled ?? true);
+    setMetricsOrder(view.metricsOrder ?? DEFAULT_METRICS);
+    setHiddenMetrics(view.hiddenMetrics ?? []);
+    setColumnsOrder(view.columnsOrder ?? DEFAULT_COLUMNS);
+    setHiddenColumns(view.hiddenColumns ?? []);
+    setColumnWidths({ ...DEFAULT_COLUMN_WIDTHS, ...view.columnWidths });
+    setSortConfig(view.sortConfig ?? DEFAULT_SORT);
+    setSelectedIds([]);
+  }, [timezone]);
 
   const handleSort = useCallback((field: SortField) => {
     setSortConfig(current => ({
@@ -785,7 +934,7 @@ export const Journal: React.FC<JournalProps> = ({ trades, openTradeModal, openTr
   }, []);
 
 
-  const applyDateFilter = useCallback((mode: 'All' | 'Q' | 'M' | 'W' | 'Custom') => {
+  const applyDateFilter = useCallback((mode: DateFilterMode) => {
       setDateFilterMode(mode);
       
       if (mode === 'Custom') {
@@ -794,46 +943,19 @@ export const Journal: React.FC<JournalProps> = ({ trades, openTradeModal, openTr
       }
       
       setIsCustomPickerOpen(false);
-
-      const now = new Date();
-      const fmt = (d: Date) => {
-        const y = d.getFullYear();
-        const m = String(d.getMonth() + 1).padStart(2, '0');
-        const day = String(d.getDate()).padStart(2, '0');
-        return `${y}-${m}-${day}`;
-      };
-
-      let start = '';
-      let end = '';
-
-      if (mode === 'W') {
-          const day = now.getDay() || 7; 
-          const d = new Date(now);
-          if (day !== 1) d.setDate(d.getDate() - (day - 1));
-          start = fmt(d);
-          end = fmt(now); 
-      } else if (mode === 'M') {
-          start = fmt(new Date(now.getFullYear(), now.getMonth(), 1));
-          end = fmt(new Date(now.getFullYear(), now.getMonth() + 1, 0));
-      } else if (mode === 'Q') {
-          const q = Math.floor(now.getMonth() / 3);
-          start = fmt(new Date(now.getFullYear(), q * 3, 1));
-          end = fmt(new Date(now.getFullYear(), q * 3 + 3, 0));
-      }
-      
-      setFilters(prev => ({ ...prev, startDate: start, endDate: end }));
-  }, []);
+      setFilters(prev => ({ ...prev, ...getDateRange(mode, timezone) }));
+  }, [timezone]);
 
   // Memoize filtered trades separately to avoid unnecessary recalculations
-  const filteredTrades = useMemo(() => {
+  // Every filter but the date range; the calendar plots these across all dates
+  const undatedTrades = useMemo(() => {
+    const matchesAdvanced = createTreeMatcher(filters.advanced, filterFields);
     return trades.filter(trade => {
       // Search filter
-      if (searchQuery && !trade.ticker.toLowerCase().includes(searchQuery.toLowerCase())) {
+      if (!matchesSearch(trade, searchQuery)) {
         return false;
       }
 
-      if (filters.startDate && trade.date < filters.startDate) return false;
-      if (filters.endDate && trade.date > filters.endDate) return false;
       if (filters.direction !== 'All' && trade.direction !== filters.direction) return false;
       
       // Status Filter
@@ -848,25 +970,47 @@ export const Journal: React.FC<JournalProps> = ({ trades, openTradeModal, openTr
         if (filters.outcome.includes('BE') && trade.pnl === 0) match = true;
         if (!match) return false;
       }
+      if (!matchesAdvanced(trade)) return false;
       return true;
     });
-  }, [trades, filters, searchQuery]);
+  }, [trades, filters.direction, filters.status, filters.style, filters.outcome, filters.advanced, searchQuery, filterFields]);
+
+  const filteredTrades = useMemo(() => {
+    const { startDate, endDate } = filters;
+    if (!startDate && !endDate) return undatedTrades;
+    return undatedTrades.filter(trade => {
+      const day = getTradeDay(trade, timezone);
+      return (!startDate || day >= startDate) && (!endDate || day <= endDate);
+    });
+  }, [undatedTrades, filters.startDate, filters.endDate, timezone]);
+
+  const calendarTrades = useMemo(() => undatedTrades.filter(isClosedTrade), [undatedTrades]);
+
+  // A day picked on the calendar becomes a custom range of that single day, shown in the table
+  const selectCalendarDay = useCallback((date: string) => {
+    setFilters(prev => ({ ...prev, startDate: date, endDate: date }));
+    setDateFilterMode('Custom');
+    setLayout('table');
+  }, []);
 
   // Memoize sorted trades separately
   const processedTrades = useMemo(() => {
     // Create a new array for sorting to avoid mutating the filtered array
     const sorted = [...filteredTrades];
     sorted.sort((a, b) => {
-      let aValue: any = a[sortConfig.field];
-      let bValue: any = b[sortConfig.field];
+      let aValue: any = getSortValue(a, sortConfig.field, customFields);
+      let bValue: any = getSortValue(b, sortConfig.field, customFields);
       if (sortConfig.field === 'style') { aValue = a.style || 'Intraday'; bValue = b.style || 'Intraday'; }
       if (sortConfig.field === 'risk') { aValue = a.risk || 0; bValue = b.risk || 0; }
+      // Trades without executions sort below every priced one
+      if (aValue === undefined || aValue === null) aValue = -Infinity;
+      if (bValue === undefined || bValue === null) bValue = -Infinity;
       if (aValue < bValue) return sortConfig.direction === 'asc' ? -1 : 1;
       if (aValue > bValue) return sortConfig.direction === 'asc' ? 1 : -1;
       return 0;
     });
     return sorted;
-  }, [filteredTrades, sortConfig]);
+  }, [filteredTrades, sortConfig, customFields]);
 
   // Selection Logic
   const toggleSelection = useCallback((id: number, e: React.MouseEvent) => {
@@ -892,29 +1036,31 @@ export const Journal: React.FC<JournalProps> = ({ trades, openTradeModal, openTr
 
   const metrics = useMemo(() => {
     const defaults = { totalPnL: 0, winrate: 0, pf: '0.00', avgR: '0.0R', avgRisk: '0.0%' };
-    if (processedTrades.length === 0) return defaults;
+    // Open positions have no final result yet
+    const closedTrades = processedTrades.filter(isClosedTrade);
+    if (closedTrades.length === 0) return defaults;
 
-    const totalPnL = processedTrades.reduce((acc, t) => acc + t.pnl, 0);
-    const winCount = processedTrades.filter(t => t.pnl > 0).length;
-    const winrate = Math.round((winCount / processedTrades.length) * 100);
+    const totalPnL = closedTrades.reduce((acc, t) => acc + t.pnl, 0);
+    const winCount = closedTrades.filter(t => t.pnl > 0).length;
+    const winrate = Math.round((winCount / closedTrades.length) * 100);
     
-    const grossWin = processedTrades.filter(t => t.pnl > 0).reduce((acc, t) => acc + t.pnl, 0);
-    const grossLoss = Math.abs(processedTrades.filter(t => t.pnl < 0).reduce((acc, t) => acc + t.pnl, 0));
+    const grossWin = closedTrades.filter(t => t.pnl > 0).reduce((acc, t) => acc + t.pnl, 0);
+    const grossLoss = Math.abs(closedTrades.filter(t => t.pnl < 0).reduce((acc, t) => acc + t.pnl, 0));
     const pf = grossLoss === 0 ? (grossWin === 0 ? 0 : 100) : grossWin / grossLoss; 
 
-    // Avg R
-    const totalR = processedTrades.reduce((acc, t) => acc + (t.risk ? t.pnl / t.risk : 0), 0);
-    const avgR = totalR / processedTrades.length;
+    // Avg R, over the trades that have a stop to measure against
+    const rValues = closedTrades.map(getRealizedR).filter((r): r is number => r !== null);
+    const avgR = rValues.length ? rValues.reduce((acc, r) => acc + r, 0) / rValues.length : 0;
     
     // Avg Risk
-    const totalRisk = processedTrades.reduce((acc, t) => acc + t.risk, 0);
-    const avgRisk = totalRisk / processedTrades.length;
+    const totalRisk = closedTrades.reduce((acc, t) => acc + t.risk, 0);
+    const avgRisk = totalRisk / closedTrades.length;
 
     return {
         totalPnL,
         winrate,
         pf: pf === 100 ? '∞' : pf.toFixed(2),
-        avgR: (avgR > 0 ? '+' : '') + avgR.toFixed(1) + 'R',
+        avgR: rValues.length ? formatR(avgR) : '—',
         avgRisk: avgRisk.toFixed(1) + '%'
     };
   }, [processedTrades]);
@@ -936,7 +1082,7 @@ export const Journal: React.FC<JournalProps> = ({ trades, openTradeModal, openTr
 
   // Helper for rendering table headers dynamically
   const renderHeader = useCallback((id: string, isLast: boolean) => {
-    const width = columnWidths[id];
+    const width = columnWidths[id] ?? CUSTOM_COLUMN_WIDTH;
     const borderClass = isLast ? '' : 'border-r border-slate-200';
     
     // Common props for SortableHeader and Static Header
@@ -960,20 +1106,26 @@ export const Journal: React.FC<JournalProps> = ({ trades, openTradeModal, openTr
         case 'session': return <th key={id} style={commonProps.style} className={`border-y border-slate-200 p-4 text-[11px] font-bold text-slate-400 uppercase tracking-wider relative group text-left align-middle break-words ${borderClass}`}>Session {Resizer}</th>;
         case 'weekday': return <th key={id} style={commonProps.style} className={`border-y border-slate-200 p-4 text-[11px] font-bold text-slate-400 uppercase tracking-wider relative group text-left align-middle break-words ${borderClass}`}>Weekday {Resizer}</th>;
         case 'holdtime': return <th key={id} style={commonProps.style} className={`border-y border-slate-200 p-4 text-[11px] font-bold text-slate-400 uppercase tracking-wider relative group text-left align-middle break-words ${borderClass}`}>Holdtime {Resizer}</th>;
-        case 'entry': return <th key={id} style={commonProps.style} className={`border-y border-slate-200 p-4 text-[11px] font-bold text-slate-400 uppercase tracking-wider relative group text-left align-middle break-words ${borderClass}`}>Entry {Resizer}</th>;
-        case 'exit': return <th key={id} style={commonProps.style} className={`border-y border-slate-200 p-4 text-[11px] font-bold text-slate-400 uppercase tracking-wider relative group text-left align-middle break-words ${borderClass}`}>Exit {Resizer}</th>;
-        case 'size': return <th key={id} style={commonProps.style} className={`border-y border-slate-200 p-4 text-[11px] font-bold text-slate-400 uppercase tracking-wider relative group text-left align-middle break-words ${borderClass}`}>Size {Resizer}</th>;
-        case 'volume': return <th key={id} style={commonProps.style} className={`border-y border-slate-200 p-4 text-[11px] font-bold text-slate-400 uppercase tracking-wider relative group text-left align-middle break-words ${borderClass}`}>Volume {Resizer}</th>;
+        case 'entry': return <SortableHeader key={id} label="Entry" field="entryPrice" currentSort={sortConfig} onSort={handleSort} {...commonProps}>{Resizer}</SortableHeader>;
+        case 'exit': return <SortableHeader key={id} label="Exit" field="exitPrice" currentSort={sortConfig} onSort={handleSort} {...commonProps}>{Resizer}</SortableHeader>;
+        case 'size': return <SortableHeader key={id} label="Size" field="quantity" currentSort={sortConfig} onSort={handleSort} {...commonProps}>{Resizer}</SortableHeader>;
+        case 'volume': return <SortableHeader key={id} label="Volume" field="volume" currentSort={sortConfig} onSort={handleSort} {...commonProps}>{Resizer}</SortableHeader>;
         case 'risk': return <SortableHeader key={id} label="Risk Per Trade" field="risk" currentSort={sortConfig} onSort={handleSort} {...commonProps}>{Resizer}</SortableHeader>;
+        case 'r': return <SortableHeader key={id} label="R Multiple" field="r" currentSort={sortConfig} onSort={handleSort} {...commonProps}>{Resizer}</SortableHeader>;
+        case 'tags': return <th key={id} style={commonProps.style} className={`border-y border-slate-200 p-4 text-[11px] font-bold text-slate-400 uppercase tracking-wider relative group text-left align-middle break-words ${borderClass}`}>Tags {Resizer}</th>;
         case 'exitDate': return <th key={id} style={commonProps.style} className={`border-y border-slate-200 p-4 text-[11px] font-bold text-slate-400 uppercase tracking-wider relative group text-left align-middle break-words ${borderClass}`}>Close Date {Resizer}</th>;
         case 'pnl': return <SortableHeader key={id} label="PnL" field="pnl" currentSort={sortConfig} onSort={handleSort} align="left" {...commonProps}>{Resizer}</SortableHeader>;
-        default: return null;
+        default: {
+            const customField = customFields.find(f => customFieldColumnId(f) === id);
+            if (!customField) return null;
+            return <SortableHeader key={id} label={customField.name} field={customFieldColumnId(customField)} currentSort={sortConfig} onSort={handleSort} {...commonProps}>{Resizer}</SortableHeader>;
+        }
     }
-  }, [columnWidths, sortConfig, handleSort, startResize]);
+  }, [columnWidths, sortConfig, handleSort, startResize, customFields]);
 
   // Helper for rendering table cells dynamically
   const renderCell = useCallback((id: string, trade: Trade, cellBorder: string, isLast: boolean) => {
-    const width = columnWidths[id];
+    const width = columnWidths[id] ?? CUSTOM_COLUMN_WIDTH;
     const verticalBorder = isLast ? '' : 'border-r border-slate-100';
     // Dynamic text wrap class: truncate with ellipsis when disabled
     const wrapClass = isTextWrapEnabled ? 'whitespace-normal break-words' : 'whitespace-nowrap overflow-hidden text-ellipsis';
@@ -985,11 +1137,11 @@ export const Journal: React.FC<JournalProps> = ({ trades, openTradeModal, openTr
         case 'ticker': 
             return <td key={id} style={style} className={`p-4 font-bold text-slate-900 ${combinedClasses}`}>{trade.ticker}/USDT</td>;
         case 'date': 
-            return <td key={id} style={style} className={`p-4 font-medium text-slate-900 ${combinedClasses}`}>{formatTableDate(trade.entryDate)}</td>;
+            return <td key={id} style={style} className={`p-4 font-medium text-slate-900 ${combinedClasses}`}>{formatTableDate(trade.entryDate, timezone)}</td>;
         case 'session': 
-            return <td key={id} style={style} className={`p-4 font-medium text-slate-900 ${combinedClasses}`}>{getSession(trade.entryDate)}</td>;
+            return <td key={id} style={style} className={`p-4 font-medium text-slate-900 ${combinedClasses}`}>{getSession(trade.entryDate, sessionConfig, timezone)}</td>;
         case 'weekday': 
-            return <td key={id} style={style} className={`p-4 font-medium text-slate-900 ${combinedClasses}`}>{getWeekday(trade.entryDate)}</td>;
+            return <td key={id} style={style} className={`p-4 font-medium text-slate-900 ${combinedClasses}`}>{getWeekday(trade.entryDate, timezone)}</td>;
         case 'holdtime': 
             return (
                 <td key={id} style={style} className={`p-4 ${combinedClasses}`}>
@@ -999,27 +1151,65 @@ export const Journal: React.FC<JournalProps> = ({ trades, openTradeModal, openTr
                 </td>
             );
         case 'entry': 
-            return <td key={id} style={style} className={`p-4 font-medium text-slate-900 ${combinedClasses}`}>—</td>;
+            return <td key={id} style={style} className={`p-4 font-medium text-slate-900 ${combinedClasses}`}>{trade.entryPrice !== undefined ? formatNumber(trade.entryPrice, 8) : '—'}</td>;
         case 'exit': 
-            return <td key={id} style={style} className={`p-4 font-medium text-slate-900 ${combinedClasses}`}>—</td>;
+            return <td key={id} style={style} className={`p-4 font-medium text-slate-900 ${combinedClasses}`}>{trade.exitPrice !== undefined ? formatNumber(trade.exitPrice, 8) : '—'}</td>;
         case 'size': 
-            return <td key={id} style={style} className={`p-4 font-medium text-slate-900 ${combinedClasses}`}>—</td>;
-        case 'volume': 
-            return <td key={id} style={style} className={`p-4 font-medium text-slate-900 ${combinedClasses}`}>—</td>;
+            return <td key={id} style={style} className={`p-4 font-medium text-slate-900 ${combinedClasses}`}>{trade.quantity !== undefined ? formatNumber(trade.quantity, 8) : '—'}</td>;
+        case 'volume': {
+            const volume = getTradeVolume(trade);
+            return <td key={id} style={style} className={`p-4 font-medium text-slate-900 ${combinedClasses}`}>{volume !== null ? formatNumber(volume) : '—'}</td>;
+        }
         case 'risk': 
             return <td key={id} style={style} className={`p-4 font-medium text-slate-900 ${combinedClasses}`}>{trade.risk ? trade.risk + '%' : '—'}</td>;
+        case 'r': {
+            const realizedR = getRealizedR(trade);
+            const plannedR = getPlannedR(trade);
+            return (
+                <td key={id} style={style} className={`p-4 font-semibold ${realizedR === null ? 'text-slate-900' : realizedR > 0 ? 'text-green-600' : realizedR < 0 ? 'text-rose-500' : 'text-slate-900'} ${combinedClasses}`}>
+                    {realizedR !== null ? formatR(realizedR) : '—'}
+                    {plannedR !== null && <span className="ml-1.5 text-[10px] font-medium text-slate-400">/ {plannedR.toFixed(1)}R</span>}
+                </td>
+            );
+        }
+        case 'tags':
+            return (
+                <td key={id} style={style} className={`p-4 ${combinedClasses}`}>
+                    {countTags(trade.tags, tagGroups) > 0 ? (
+                        <div className={`flex gap-1 ${isTextWrapEnabled ? 'flex-wrap' : 'overflow-hidden'}`}>
+                            {tagGroups.flatMap(({ id: group, color }) => (trade.tags?.[group] ?? []).map(tag => (
+                                <span key={`${group}-${tag}`} className={`px-2 py-0.5 rounded text-xs font-semibold border whitespace-nowrap ${TAG_CHIP_CLASSES[color]}`}>{tag}</span>
+                            )))}
+                        </div>
+                    ) : '—'}
+                </td>
+            );
         case 'exitDate': 
-            return <td key={id} style={style} className={`p-4 font-medium text-slate-900 ${combinedClasses}`}>{formatTableDate(trade.exitDate)}</td>;
+            return (
+                <td key={id} style={style} className={`p-4 font-medium text-slate-900 ${combinedClasses}`}>
+                    {isOpenTrade(trade) ? (
+                        <span className="bg-amber-50 text-amber-600 px-2 py-0.5 rounded text-xs font-semibold border border-amber-100/50">Open</span>
+                    ) : formatTableDate(trade.exitDate, timezone)}
+                </td>
+            );
         case 'pnl': 
             return (
                 <td key={id} style={style} className={`p-4 font-bold ${trade.pnl > 0 ? 'text-green-600' : trade.pnl < 0 ? 'text-rose-500' : 'text-slate-900'} ${combinedClasses}`}>
                     {formatPercent(trade.pnl)}
+                    {isOpenTrade(trade) && <span className="ml-1.5 text-[10px] font-medium text-slate-400">realized</span>}
+                </td>
+            );
+        default: {
+            const customField = customFields.find(f => customFieldColumnId(f) === id);
+            if (!customField) return null;
+            return (
+                <td key={id} style={style} className={`p-4 font-medium text-slate-900 ${combinedClasses}`}>
+                    {formatCustomFieldValue(customField, getCustomFieldValue(trade, customField))}
                 </td>
             );
-        default: 
-            return null;
+        }
     }
-  }, [columnWidths, isTextWrapEnabled]);
+  }, [columnWidths, isTextWrapEnabled, customFields, tagGroups, sessionConfig, timezone]);
 
   // Progressive loading: Load table only when visible
   const [tableRef, isTableVisible] = useProgressiveLoad<HTMLDivElement>({
@@ -1073,6 +1263,49 @@ export const Journal: React.FC<JournalProps> = ({ trades, openTradeModal, openTr
                     className="journal-view__nav flex items-center gap-3 origin-left transition-transform duration-200 flex-shrink-0"
                     style={{ zoom: controlsScale }}
                 >
+                        {/* Saved Views */}
+                        <div className="bg-white p-1 border border-slate-200 shadow-sm w-fit" style={{ borderRadius: `${positionsConfig.borderRadius + 4}px` }}>
+                            <div className="relative" ref={viewsMenuRef}>
+                                <button
+                                    onClick={() => setIsViewsMenuOpen(!isViewsMenuOpen)}
+                                    className="flex items-center gap-2 text-slate-700 hover:bg-slate-50 transition select-none max-w-[180px] justify-between leading-none outline-none focus:outline-none"
+                                    style={{
+                                        height: `${positionsConfig.height}px`,
+                                        paddingLeft: `${positionsConfig.paddingX}px`,
+                                        paddingRight: `${positionsConfig.paddingX}px`,
+                                        fontSize: `${positionsConfig.fontSize}px`,
+                                        fontWeight: positionsConfig.fontWeight,
+                                        borderRadius: `${positionsConfig.borderRadius}px`
+                                    }}
+                                >
+                                    <span className="truncate">{activeView.name}</span>
+                                    <ChevronDown className="w-3.5 h-3.5 text-slate-400 flex-shrink-0" />
+                                </button>
+                                {isViewsMenuOpen && (
+                                    <ViewsMenu
+                                        views={journalViews.views}
+                                        activeId={activeView.id}
+                                        defaultId={journalViews.defaultViewId}
+                                        onSelect={id => {
+                                            const view = journalViews.selectView(id);
+                                            if (view) applyView(view.settings);
+                                            setIsViewsMenuOpen(false);
+                                        }}
+                                        onDuplicate={id => {
+                                            const copy = journalViews.duplicateView(id);
+                                            if (copy) applyView(copy.settings);
+                                        }}
+                                        onRename={journalViews.renameView}
+                                        onSetDefault={journalViews.setDefaultView}
+                                        onDelete={id => {
+                                            const fallback = journalViews.deleteView(id);
+                                            if (fallback) applyView(fallback.settings);
+                                        }}
+                                    />
+                                )}
+                            </div>
+                        </div>
+
                         {/* Position Dropdown */}
                         <div className="bg-white p-1 border border-slate-200 shadow-sm w-fit" style={{ borderRadius: `${positionsConfig.borderRadius + 4}px` }}>
                             <div className="relative" ref={positionMenuRef}>
@@ -1162,6 +1395,16 @@ export const Journal: React.FC<JournalProps> = ({ trades, openTradeModal, openTr
                 </nav>
                 <nav id="action-nav" aria-label="Action Menu" className="journal-view__nav flex flex-wrap gap-1.5 items-center justify-end flex-shrink-0" style={{ margin: 0, padding: 0 }}>
                         <div className="flex items-center gap-0.5 mr-1 relative">
+                          <button
+                            onClick={() => setLayout(layout === 'calendar' ? 'table' : 'calendar')}
+                            className={`p-2 transition rounded-lg outline-none focus:outline-none ${layout === 'calendar' ? 'bg-slate-100 text-slate-900' : 'text-slate-400 hover:text-slate-600 hover:bg-slate-50'}`}
+                            title={layout === 'calendar' ? 'Show table' : 'Show calendar'}
+                          >
+                              <CalendarDays className="w-5 h-5 stroke-[1.5]" />
+                          </button>
+
+                          <div className="h-5 w-[1px] bg-slate-200 mx-1"></div>
+
                           <div className="relative" ref={metricsMenuRef}>
                               <button 
                                 ref={metricsButtonRef}
@@ -1193,11 +1436,11 @@ export const Journal: React.FC<JournalProps> = ({ trades, openTradeModal, openTr
                             </button>
                             {isPropertiesMenuOpen && (
                                 <PropertiesMenu
-                                    initialOrder={columnsOrder}
+                                    initialOrder={orderedColumns}
                                     hiddenIds={hiddenColumns}
                                     onCommitOrder={setColumnsOrder}
                                     onToggleVisibility={toggleColumnVisibility}
-                                    labels={PROPERTY_LABELS}
+                                    labels={propertyLabels}
                                 />
                             )}
                           </div>
@@ -1206,11 +1449,14 @@ export const Journal: React.FC<JournalProps> = ({ trades, openTradeModal, openTr
                               <button 
                                 ref={filterButtonRef}
                                 onClick={() => setIsFilterMenuOpen(!isFilterMenuOpen)}
-                                className={`p-2 transition rounded-lg outline-none focus:outline-none ${isFilterMenuOpen ? 'bg-slate-100 text-slate-900' : 'text-slate-400 hover:text-slate-600 hover:bg-slate-50'}`}
+                                className={`relative p-2 transition rounded-lg outline-none focus:outline-none ${isFilterMenuOpen ? 'bg-slate-100 text-slate-900' : 'text-slate-400 hover:text-slate-600 hover:bg-slate-50'}`}
                               >
                                 <Filter className="w-5 h-5 stroke-[1.5]" />
+                                {countActiveRules(filters.advanced) > 0 && <span className="absolute top-1.5 right-1.5 w-1.5 h-1.5 rounded-full bg-blue-500" />}
                               </button>
-                              {isFilterMenuOpen && <FilterMenu />}
+                              {isFilterMenuOpen && (
+                                  <FilterMenu tree={filters.advanced} fields={filterFields} onChange={setAdvancedFilter} />
+                              )}
                           </div>
 
                           <div className="h-5 w-[1px] bg-slate-200 mx-1"></div>
@@ -1224,7 +1470,7 @@ export const Journal: React.FC<JournalProps> = ({ trades, openTradeModal, openTr
                                       type="text"
                                       value={searchQuery}
                                       onChange={(e) => setSearchQuery(e.target.value)}
-                                      placeholder="Search ticker..."
+                                      placeholder="Search trades and notes..."
                                       className="bg-transparent border-none outline-none text-sm text-slate-700 w-full placeholder-slate-400"
                                       onBlur={() => !searchQuery && setIsSearchOpen(false)}
                                   />
@@ -1257,6 +1503,13 @@ export const Journal: React.FC<JournalProps> = ({ trades, openTradeModal, openTr
                               )}
                           </div>
                         </div>
+                        <button 
+                            onClick={openImportWizard}
+                            className="p-2 transition rounded-lg text-slate-400 hover:text-slate-600 hover:bg-slate-50 outline-none focus:outline-none"
+                            title="Import trades from CSV"
+                        >
+                            <Upload className="w-5 h-5 stroke-[1.5]" />
+                        </button>
                         <button 
                             onClick={openTradeModal}
                             className="px-6 py-2 rounded-xl bg-[#007AFF] text-white text-sm font-bold shadow-md hover:bg-blue-600 transition flex items-center gap-2 transform active:scale-95 outline-none focus:outline-none"
@@ -1294,7 +1547,9 @@ export const Journal: React.FC<JournalProps> = ({ trades, openTradeModal, openTr
         {/* === BLOCK: DATA GRID (TABLE) === */}
         <section id="data-grid" className="journal-view__grid flex-1 w-full bg-white">
             <div ref={tableRef} className="overflow-x-auto blur-loading animate-blur-in" style={{ animationDelay: '0.2s' }}>
-                {isTableVisible ? (
+                {layout === 'calendar' ? (
+                    <TradingCalendar trades={calendarTrades} timezone={timezone} onSelectDay={selectCalendarDay} />
+                ) : isTableVisible ? (
                     <table className="w-full text-left border-collapse min-w-[1000px] table-fixed">
                         <thead className="bg-slate-50">
                             <tr>
@@ -1394,6 +1649,22 @@ export const Journal: React.FC<JournalProps> = ({ trades, openTradeModal, openTr
             Showing {processedTrades.length} of {trades.length} trades
         </footer>
       </section>
+
+      {selectedIds.length > 0 ? (
+          <BulkActionBar
+            selectedCount={selectedIds.length}
+            onDelete={handleBulkDelete}
+            onDuplicate={handleBulkDuplicate}
+            onUpdate={handleBulkUpdate}
+            onClearSelection={() => setSelectedIds([])}
+          />
+      ) : deletedTrades && (
+          <UndoToast
+            message={`Deleted ${deletedTrades.length} ${deletedTrades.length === 1 ? 'trade' : 'trades'}`}
+            onUndo={handleUndoDelete}
+            onDismiss={dismissUndo}
+          />
+      )}
     </>
   );
 };
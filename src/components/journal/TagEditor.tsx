@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { TagColor, TagGroupDefinition, TagGroupId, TradeTags } from '../../types';
+import { addTag, removeTag } from '../../utils/tags';
+
+// Shared with the journal's Tags column and the preferences so a group looks the same everywhere
+export const TAG_CHIP_CLASSES: Record<TagColor, string> = {
+  blue: 'bg-blue-50 text-blue-600 border-blue-100',
+  rose: 'bg-rose-50 text-rose-600 border-rose-100',
+  amber: 'bg-amber-50 text-amber-600 border-amber-100',
+  violet: 'bg-violet-50 text-violet-600 border-violet-100',
+  emerald: 'bg-emerald-50 text-emerald-600 border-emerald-100',
+  slate: 'bg-slate-100 text-slate-600 border-slate-200'
+};
+
+interface TagEditorProps {
+  tags: TradeTags | undefined;
+  onChange: (tags: TradeTags) => void;
+  groups: TagGroupDefinition[];
+  // Tags already used in the journal, offered while typing
+  suggestions: Record<TagGroupId, string[]>;
+  compact?: boolean;
+}
+
+/** The trade's tags in each of the user's tag groups; Enter or a comma adds the typed tag. */
+export const TagEditor: React.FC<TagEditorProps> = ({ tags, onChange, groups, suggestions, compact = false }) => {
+  const [drafts, setDrafts] = useState<Partial<Record<TagGroupId, string>>>({});
+
+  const commit = (group: TagGroupId) => {
+    const draft = drafts[group];
+    if (!draft?.trim()) return;
+    onChange(addTag(tags, group, draft));
+    setDrafts(prev => ({ ...prev, [group]: '' }));
+  };
+
+  const handleKeyDown = (group: TagGroupId, e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      commit(group);
+    } else if (e.key === 'Backspace' && !drafts[group]) {
+      const current = tags?.[group];
+      if (current?.length) onChange(removeTag(tags, group, current[current.length - 1]));
+    }
+  };
+
+  return (
+    <div className={compact ? 'space-y-2' : 'grid grid-cols-1 md:grid-cols-2 gap-3'}>
+      {groups.map(({ id, label, color }) => {
+        const current = tags?.[id] ?? [];
+        const available = (suggestions[id] ?? []).filter(s => !current.some(t => t.toLowerCase() === s.toLowerCase()));
+        return (
+          <div key={id}>
+            <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">{label}</label>
+            <div className="flex flex-wrap items-center gap-1.5 min-h-[34px] bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 focus-within:ring-1 focus-within:ring-slate-300">
+              {current.map(tag => (
+                <span key={tag} className={`flex items-center gap-1 px-2 py-0.5 rounded text-xs font-semibold border ${TAG_CHIP_CLASSES[color]}`}>
+                  {tag}
+                  <button onClick={() => onChange(removeTag(tags, id, tag))} className="opacity-60 hover:opacity-100" title={`Remove ${tag}`}>
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+              <input
+                type="text"
+                list={`tag-suggestions-${id}`}
+                value={drafts[id] ?? ''}
+                onChange={e => setDrafts(prev => ({ ...prev, [id]: e.target.value }))}
+                onKeyDown={e => handleKeyDown(id, e)}
+                onBlur={() => commit(id)}
+                className="flex-1 min-w-[80px] bg-transparent border-none outline-none text-xs font-semibold text-slate-700 placeholder-slate-300 py-1"
+                placeholder={current.length ? '' : `Add ${label.toLowerCase()}...`}
+              />
+              <datalist id={`tag-suggestions-${id}`}>
+                {available.map(s => <option key={s} value={s} />)}
+              </datalist>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+TagEditor.displayName = 'TagEditor';
@@ -1,17 +1,51 @@
 import React, { useState } from 'react';
-import { ArrowLeft, Calendar, Save, Trash2 } from 'lucide-react';
-import { Trade, TdaItem } from '../../types';
-import { formatPercent, formatTradeDate } from '../../utils';
+import { ArrowLeft, Calendar, Save, Trash2, Link2, X } from 'lucide-react';
+import { Board, BoardLink, CustomFieldDefinition, CustomFieldValue, Execution, TagGroupDefinition, TagGroupId, Trade, TdaItem } from '../../types';
+import { EXECUTION_FIELDS } from '../../constants';
+import { formatAmount, formatNumber, formatPercent, formatR, formatTradeDate } from '../../utils';
+import { toZonedTimestamp } from '../../utils/timezone';
+import { computeTradePnl, getPlannedR, getRealizedR, getTradeVolume, isOpenTrade, withExecutionSummary } from '../../utils/tradePnl';
+import { BoardThumbnail } from '../planning/BoardThumbnail';
+import { ExecutionsEditor } from './ExecutionsEditor';
+import { TagEditor } from './TagEditor';
+import { CustomFieldInput } from './CustomFieldInput';
+import { getViewRegion } from '../planning/whiteboardElements';
+
+// Fields that follow the executions once a trade has any
+const EXECUTION_DERIVED_FIELDS = ['entryPrice', 'exitPrice', 'quantity', 'fees'];
+
+/** A trade logged with a single entry and exit, shown as its first executions. */
+const executionsFromFields = (trade: Trade): Execution[] => {
+  if (trade.entryPrice === undefined || !trade.quantity) return [];
+  const executions: Execution[] = [
+    { id: 1, side: 'entry', date: trade.entryDate, price: trade.entryPrice, quantity: trade.quantity, fee: trade.fees }
+  ];
+  if (trade.exitDate && trade.exitPrice !== undefined) {
+    executions.push({ id: 2, side: 'exit', date: trade.exitDate, price: trade.exitPrice, quantity: trade.quantity });
+  }
+  return executions;
+};
 
 interface TradeDetailProps {
   trade: Trade;
   goBack: () => void;
   onSave: (updatedTrade: Trade) => void;
+  boards: Board[];
+  // Receives the trade as edited so far, since leaving the page would drop unsaved changes
+  onOpenBoard: (link: BoardLink, editedTrade: Trade) => void;
+  tagGroups: TagGroupDefinition[];
+  tagSuggestions: Record<TagGroupId, string[]>;
+  customFields: CustomFieldDefinition[];
+  timezone: string;
+  // Balance a computed result is a percent of
+  getBalance: (trade: Partial<Trade>) => number | null;
 }
 
-export const TradeDetail: React.FC<TradeDetailProps> = ({ trade, goBack, onSave }) => {
+export const TradeDetail: React.FC<TradeDetailProps> = ({ trade, goBack, onSave, boards, onOpenBoard, tagGroups, tagSuggestions, customFields, timezone, getBalance }) => {
   // Local state for editing to avoid mutating prop directly
   const [activeTrade, setActiveTrade] = useState<Trade>(JSON.parse(JSON.stringify(trade)));
+  const [linkBoardId, setLinkBoardId] = useState<number | null>(null);
+  const [linkArea, setLinkArea] = useState<'board' | 'view'>('board');
 
   const handleSave = () => {
     onSave(activeTrade);
@@ -34,6 +68,52 @@ export const TradeDetail: React.FC<TradeDetailProps> = ({ trade, goBack, onSave
     setActiveTrade({...activeTrade, tda: newTda});
   };
 
+  // Averages and dates as they will be saved once the executions are applied
+  const displayTrade = withExecutionSummary(activeTrade);
+  const hasExecutions = !!activeTrade.executions?.length;
+  const isOpen = isOpenTrade(displayTrade);
+  const computedPnl = computeTradePnl(displayTrade, getBalance(displayTrade));
+  const outcome = computedPnl?.percent ?? activeTrade.pnl;
+  const volume = getTradeVolume(displayTrade);
+  const plannedR = getPlannedR(displayTrade);
+  const realizedR = getRealizedR(displayTrade);
+
+  const updateExecutions = (executions: Execution[]) => {
+    setActiveTrade({...activeTrade, executions: executions.length ? executions : undefined});
+  };
+
+  const toggleOpen = () => {
+    setActiveTrade({...activeTrade, exitDate: isOpen ? toZonedTimestamp(new Date(), timezone) : ''});
+  };
+
+  const linkBoard = boards.find(b => b.id === linkBoardId);
+  // Boards last saved before the canvas size was stored can only be linked whole
+  const canLinkView = !linkBoard || !!linkBoard.transform.viewport;
+
+  const addBoardLink = () => {
+    if (!linkBoard) return;
+    const link: BoardLink = { boardId: linkBoard.id };
+    const { viewport } = linkBoard.transform;
+    if (linkArea === 'view' && viewport) {
+      link.region = getViewRegion(linkBoard.transform, viewport.width, viewport.height);
+    }
+    setActiveTrade({...activeTrade, boardLinks: [...(activeTrade.boardLinks || []), link]});
+    setLinkBoardId(null);
+  };
+
+  const updateCustomField = (id: string, value: CustomFieldValue | undefined) => {
+    const next = { ...activeTrade.customFields };
+    if (value === undefined) delete next[id];
+    else next[id] = value;
+    setActiveTrade({...activeTrade, customFields: next});
+  };
+
+  const removeBoardLink = (index: number) => {
+    const newLinks = [...(activeTrade.boardLinks || [])];
+    newLinks.splice(index, 1);
+    setActiveTrade({...activeTrade, boardLinks: newLinks});
+  };
+
   return (
     <div className="space-y-8">
         <button onClick={goBack} className="flex items-center gap-2 text-slate-400 hover:text-slate-800 transition">
@@ -56,17 +136,116 @@ export const TradeDetail: React.FC<TradeDetailProps> = ({ trade, goBack, onSave
                 </h2>
                 <p className="text-slate-400 mt-1 flex items-center gap-2">
                     <Calendar className="w-3 h-3" />
-                    <span dangerouslySetInnerHTML={formatTradeDate(activeTrade, true)} />
+                    <span dangerouslySetInnerHTML={formatTradeDate(displayTrade, true, timezone)} />
                 </p>
             </div>
             <div className="text-right">
                 <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Outcome</span>
-                <div className={`text-3xl font-light tracking-tight ${activeTrade.pnl >= 0 ? 'text-green-600' : 'text-rose-500'}`}>
-                    {formatPercent(activeTrade.pnl)}
+                <div className={`text-3xl font-light tracking-tight ${outcome >= 0 ? 'text-green-600' : 'text-rose-500'}`}>
+                    {formatPercent(outcome)}
                 </div>
+                {computedPnl && (
+                    <div className={`text-sm font-semibold ${computedPnl.amount >= 0 ? 'text-green-600' : 'text-rose-500'}`}>
+                        {formatAmount(computedPnl.amount)}
+                    </div>
+                )}
             </div>
         </header>
 
+        <div className="soft-card p-6 space-y-4">
+            <div className="flex justify-between items-center">
+                <div className="flex items-center gap-3">
+                    <h3 className="font-bold text-xs text-slate-400 uppercase tracking-wider">Execution</h3>
+                    <button
+                      onClick={toggleOpen}
+                      disabled={hasExecutions}
+                      className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase border transition disabled:cursor-default ${isOpen ? 'bg-amber-50 text-amber-600 border-amber-100' : 'bg-slate-50 text-slate-500 border-slate-200'}`}
+                      title={hasExecutions ? 'Follows the executions: closed once the whole size is out' : isOpen ? 'Mark as closed now' : 'Mark as still open'}
+                    >
+                        {isOpen ? 'Open' : 'Closed'}
+                    </button>
+                </div>
+                <div className="flex items-center gap-4 text-xs font-semibold text-slate-400">
+                    {plannedR !== null && <span>Planned {plannedR.toFixed(1)}R</span>}
+                    {realizedR !== null && (
+                        <span className={realizedR >= 0 ? 'text-green-600' : 'text-rose-500'}>Realized {formatR(realizedR)}</span>
+                    )}
+                    {volume !== null && <span>Volume {formatNumber(volume)}</span>}
+                </div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {EXECUTION_FIELDS.map(field => {
+                    const isDerived = hasExecutions && EXECUTION_DERIVED_FIELDS.includes(field.key);
+                    const value = displayTrade[field.key];
+                    return (
+                        <div key={field.key}>
+                            <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">
+                                {isDerived && field.key.endsWith('Price') ? `Avg. ${field.label}` : field.label}
+                            </label>
+                            <input
+                              type="number"
+                              step="any"
+                              value={isDerived && value !== undefined ? Number(value.toFixed(8)) : value ?? ''}
+                              onChange={e => setActiveTrade({...activeTrade, [field.key]: e.target.value === '' ? undefined : parseFloat(e.target.value)})}
+                              readOnly={isDerived}
+                              className={`w-full text-xs font-semibold border border-slate-200 rounded-lg p-2 focus:outline-none focus:ring-1 focus:ring-slate-300 ${isDerived ? 'bg-slate-50 text-slate-500' : ''}`}
+                              placeholder={field.placeholder}
+                              title={isDerived ? 'Computed from the executions below' : undefined}
+                            />
+                        </div>
+                    );
+                })}
+            </div>
+            <div className="pt-2 border-t border-slate-100 space-y-2">
+                <h4 className="font-bold text-[10px] text-slate-400 uppercase tracking-wider">Executions</h4>
+                <ExecutionsEditor
+                  executions={activeTrade.executions ?? executionsFromFields(activeTrade)}
+                  onChange={updateExecutions}
+                  timezone={timezone}
+                />
+            </div>
+            {(!computedPnl || computedPnl.percent === null) && (
+                <div className="flex items-center gap-2 text-xs text-slate-400">
+                    <span>PnL (%)</span>
+                    <input
+                      type="number"
+                      value={activeTrade.pnl}
+                      onChange={e => setActiveTrade({...activeTrade, pnl: parseFloat(e.target.value) || 0})}
+                      className="w-24 text-xs font-semibold text-slate-700 border border-slate-200 rounded-lg p-1.5 focus:outline-none focus:ring-1 focus:ring-slate-300"
+                    />
+                    <span>{isOpen ? 'Realized so far; fill in entry, exit and size to compute it.' : 'Fill in entry, exit and size to compute it.'}</span>
+                </div>
+            )}
+        </div>
+
+        <div className="soft-card p-6 space-y-4">
+            <h3 className="font-bold text-xs text-slate-400 uppercase tracking-wider">Tags</h3>
+            <TagEditor
+              tags={activeTrade.tags}
+              onChange={tags => setActiveTrade({...activeTrade, tags})}
+              groups={tagGroups}
+              suggestions={tagSuggestions}
+            />
+        </div>
+
+        {customFields.length > 0 && (
+            <div className="soft-card p-6 space-y-4">
+                <h3 className="font-bold text-xs text-slate-400 uppercase tracking-wider">Custom Fields</h3>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    {customFields.map(field => (
+                        <div key={field.id}>
+                            <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">{field.name}</label>
+                            <CustomFieldInput
+                              field={field}
+                              value={activeTrade.customFields?.[field.id]}
+                              onChange={value => updateCustomField(field.id, value)}
+                            />
+                        </div>
+                    ))}
+                </div>
+            </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div className="soft-card p-6 space-y-4">
                 <h3 className="font-bold text-xs text-slate-400 uppercase tracking-wider">Entry Execution</h3>
@@ -96,6 +275,73 @@ export const TradeDetail: React.FC<TradeDetailProps> = ({ trade, goBack, onSave
             </div>
         </div>
 
+        <div>
+            <h3 className="text-xl font-semibold text-slate-700 mb-4">Planning Boards</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {activeTrade.boardLinks?.map((link, idx) => {
+                    const board = boards.find(b => b.id === link.boardId);
+                    return (
+                        <div key={idx} className="soft-card p-4 space-y-3">
+                            <div className="flex justify-between items-center gap-2">
+                                <div className="min-w-0">
+                                    <div className="text-xs font-bold text-slate-700 truncate">{board ? board.name : 'Deleted board'}</div>
+                                    <div className="text-[10px] text-slate-400">{link.region ? 'Linked area' : 'Whole board'}</div>
+                                </div>
+                                <button
+                                  onClick={() => removeBoardLink(idx)}
+                                  className="text-slate-300 hover:text-rose-500 transition p-1 rounded-md hover:bg-slate-50"
+                                  title="Unlink Board"
+                                >
+                                    <X className="w-4 h-4" />
+                                </button>
+                            </div>
+                            <button
+                              onClick={() => board && onOpenBoard(link, activeTrade)}
+                              disabled={!board}
+                              className="block w-full aspect-video bg-slate-50 rounded-lg border border-slate-100 overflow-hidden hover:border-slate-300 transition disabled:cursor-default"
+                              title={board ? 'Open on the Planning Board' : undefined}
+                            >
+                                {board ? (
+                                  <BoardThumbnail board={board} region={link.region} />
+                                ) : (
+                                  <div className="flex items-center justify-center h-full text-xs text-slate-400">This board no longer exists</div>
+                                )}
+                            </button>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="mt-4 flex flex-wrap items-center justify-center gap-2">
+                <select
+                  value={linkBoardId ?? ''}
+                  onChange={e => setLinkBoardId(e.target.value ? Number(e.target.value) : null)}
+                  className="text-xs font-semibold bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 outline-none"
+                >
+                    <option value="">Select board</option>
+                    {boards.map(board => (
+                        <option key={board.id} value={board.id}>{board.name}</option>
+                    ))}
+                </select>
+                <select
+                  value={linkArea}
+                  onChange={e => setLinkArea(e.target.value as 'board' | 'view')}
+                  className="text-xs font-semibold bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 outline-none"
+                  title="Current view links the area the board was last left on"
+                >
+                    <option value="board">Whole board</option>
+                    <option value="view" disabled={!canLinkView}>Current view</option>
+                </select>
+                <button
+                  onClick={addBoardLink}
+                  disabled={linkBoardId === null}
+                  className="flex items-center gap-1.5 text-xs font-semibold text-slate-400 hover:text-slate-800 transition py-2 px-4 rounded-lg hover:bg-slate-100 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-400"
+                >
+                    <Link2 className="w-3.5 h-3.5" /> Link Board
+                </button>
+            </div>
+        </div>
+
         <div>
             <h3 className="text-xl font-semibold text-slate-700 mb-4">Top-Down Analysis</h3>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Trade } from '../../types';
+import { formatPercent } from '../../utils';
+import { getDailyStats, getMonthWeeks, getWinrate, PeriodStats, sumStats } from '../../utils/calendarStats';
+import { getZonedParts } from '../../utils/timezone';
+
+interface TradingCalendarProps {
+  // Closed trades to plot, by open date
+  trades: Trade[];
+  // Days, and the month it opens on, follow the journal timezone
+  timezone: string;
+  onSelectDay: (date: string) => void;
+}
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+// Color strength scales with the day's PnL against the biggest day of the period on screen
+const heatStyle = (stats: PeriodStats | undefined, maxAbsPnl: number): React.CSSProperties => {
+  if (!stats || stats.pnl === 0 || maxAbsPnl === 0) return {};
+  const alpha = 0.15 + 0.75 * Math.min(Math.abs(stats.pnl) / maxAbsPnl, 1);
+  return {
+    backgroundColor: stats.pnl > 0 ? `rgba(16, 185, 129, ${alpha})` : `rgba(244, 63, 94, ${alpha})`,
+    color: alpha > 0.55 ? '#ffffff' : undefined
+  };
+};
+
+const pnlClass = (pnl: number) => (pnl > 0 ? 'text-emerald-600' : pnl < 0 ? 'text-rose-500' : 'text-slate-400');
+
+const PeriodTotal: React.FC<{ stats: PeriodStats; compact?: boolean }> = ({ stats, compact = false }) => (
+  <div className={compact ? 'text-[10px] leading-tight' : 'text-xs leading-tight'}>
+    <div className={`font-bold ${pnlClass(stats.pnl)}`}>{stats.trades ? formatPercent(stats.pnl) : '—'}</div>
+    {stats.trades > 0 && (
+      <div className="text-slate-400 font-medium">{stats.trades} {stats.trades === 1 ? 'trade' : 'trades'} · {getWinrate(stats).toFixed(0)}%</div>
+    )}
+  </div>
+);
+
+/** Day-by-day results as a month or year heatmap, with weekly and monthly totals. */
+export const TradingCalendar: React.FC<TradingCalendarProps> = ({ trades, timezone, onSelectDay }) => {
+  const [mode, setMode] = useState<'month' | 'year'>('month');
+  const [cursor, setCursor] = useState(() => {
+    const now = getZonedParts(new Date(), timezone);
+    return { year: now.year, month: now.month - 1 };
+  });
+
+  const dailyStats = useMemo(() => getDailyStats(trades, timezone), [trades, timezone]);
+
+  const calendars = useMemo(() => {
+    const months = mode === 'month' ? [cursor.month] : Array.from({ length: 12 }, (_, i) => i);
+    return months.map(month => {
+      const weeks = getMonthWeeks(cursor.year, month);
+      const days = weeks.flat().filter((d): d is string => d !== null);
+      return { month, weeks, total: sumStats(days.map(d => dailyStats.get(d))) };
+    });
+  }, [mode, cursor, dailyStats]);
+
+  const periodTotal = sumStats(calendars.map(c => c.total));
+  const maxAbsPnl = Math.max(0, ...calendars.flatMap(c => c.weeks.flat()).map(d => Math.abs((d && dailyStats.get(d)?.pnl) || 0)));
+
+  const step = (delta: number) => {
+    setCursor(prev => {
+      if (mode === 'year') return { ...prev, year: prev.year + delta };
+      const date = new Date(prev.year, prev.month + delta, 1);
+      return { year: date.getFullYear(), month: date.getMonth() };
+    });
+  };
+
+  const openMonth = (month: number) => {
+    setCursor(prev => ({ ...prev, month }));
+    setMode('month');
+  };
+
+  return (
+    <div className="px-6 pb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <button onClick={() => step(-1)} className="p-1.5 text-slate-400 hover:text-slate-700 hover:bg-slate-50 rounded-lg transition">
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="text-sm font-bold text-slate-800 min-w-[140px] text-center">
+            {mode === 'month' ? `${MONTH_NAMES[cursor.month]} ${cursor.year}` : cursor.year}
+          </span>
+          <button onClick={() => step(1)} className="p-1.5 text-slate-400 hover:text-slate-700 hover:bg-slate-50 rounded-lg transition">
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="flex items-center gap-4">
+          <PeriodTotal stats={periodTotal} />
+          <div className="flex bg-slate-100 p-0.5 rounded-lg">
+            {(['month', 'year'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-3 py-1 text-xs font-semibold rounded-md capitalize transition ${mode === m ? 'bg-white shadow-sm text-slate-800' : 'text-slate-400 hover:text-slate-600'}`}
+              >
+                {m}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {mode === 'month' ? (
+        <div className="grid grid-cols-[repeat(7,minmax(0,1fr))_120px] gap-1.5">
+          {WEEKDAY_LABELS.map(day => (
+            <div key={day} className="text-[10px] font-bold text-slate-400 uppercase tracking-wider text-center pb-1">{day}</div>
+          ))}
+          <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider text-center pb-1">Week</div>
+          {calendars[0].weeks.map((week, i) => (
+            <React.Fragment key={i}>
+              {week.map((date, j) => {
+                if (!date) return <div key={j} className="h-24 rounded-xl bg-slate-50/50" />;
+                const stats = dailyStats.get(date);
+                return (
+                  <button
+                    key={date}
+                    onClick={() => onSelectDay(date)}
+                    className="h-24 rounded-xl border border-slate-100 p-2 text-left flex flex-col justify-between hover:ring-2 hover:ring-slate-200 transition"
+                    style={heatStyle(stats, maxAbsPnl)}
+                  >
+                    <span className="text-xs font-semibold opacity-70">{Number(date.slice(8))}</span>
+                    {stats && (
+                      <div className="text-xs leading-tight">
+                        <div className="font-bold">{formatPercent(stats.pnl)}</div>
+                        <div className="opacity-80">{stats.trades} · {getWinrate(stats).toFixed(0)}%</div>
+                      </div>
+                    )}
+                  </button>
+                );
+              })}
+              <div className="h-24 rounded-xl bg-slate-50 p-2 flex items-end">
+                <PeriodTotal stats={sumStats(week.map(d => (d ? dailyStats.get(d) : undefined)))} />
+              </div>
+            </React.Fragment>
+          ))}
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-6">
+          {calendars.map(({ month, weeks, total }) => (
+            <div key={month}>
+              <div className="flex items-start justify-between mb-2">
+                <button onClick={() => openMonth(month)} className="text-xs font-bold text-slate-700 hover:text-slate-900 hover:underline">
+                  {MONTH_NAMES[month]}
+                </button>
+                <PeriodTotal stats={total} compact />
+              </div>
+              <div className="grid grid-cols-7 gap-0.5">
+                {weeks.flat().map((date, i) => {
+                  if (!date) return <div key={i} className="aspect-square" />;
+                  const stats = dailyStats.get(date);
+                  return (
+                    <button
+                      key={date}
+                      onClick={() => onSelectDay(date)}
+                      title={stats ? `${date}: ${formatPercent(stats.pnl)}, ${stats.trades} trades` : date}
+                      className="aspect-square rounded bg-slate-50 text-[9px] font-medium text-slate-400 hover:ring-1 hover:ring-slate-300 transition"
+                      style={heatStyle(stats, maxAbsPnl)}
+                    >
+                      {Number(date.slice(8))}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+TradingCalendar.displayName = 'TradingCalendar';
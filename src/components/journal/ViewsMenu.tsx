@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { Check, Copy, Pencil, Star, Trash2 } from 'lucide-react';
+
+interface ViewsMenuProps {
+  views: { id: number; name: string }[];
+  activeId: number;
+  defaultId: number;
+  onSelect: (id: number) => void;
+  onDuplicate: (id: number) => void;
+  onRename: (id: number, name: string) => void;
+  onSetDefault: (id: number) => void;
+  onDelete: (id: number) => void;
+}
+
+/** Saved Journal views: switch, rename, duplicate, delete, and pick the one opened on load. */
+export const ViewsMenu: React.FC<ViewsMenuProps> = ({ views, activeId, defaultId, onSelect, onDuplicate, onRename, onSetDefault, onDelete }) => {
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (view: { id: number; name: string }) => {
+    setEditingId(view.id);
+    setDraftName(view.name);
+  };
+
+  const commitRename = () => {
+    if (editingId !== null && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="absolute top-full left-0 mt-2 w-64 bg-white border border-slate-100 rounded-xl shadow-xl z-30 p-1 animate-fade-in">
+      <div className="px-3 py-2 border-b border-slate-50 mb-1">
+        <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Views</span>
+      </div>
+      <div className="max-h-[320px] overflow-y-auto">
+        {views.map(view => (
+          <div key={view.id} className="group flex items-center gap-1 px-2 py-1.5 rounded-lg hover:bg-slate-50">
+            <button
+              onClick={() => onSetDefault(view.id)}
+              className={`p-1 transition ${view.id === defaultId ? 'text-amber-400' : 'text-slate-200 hover:text-slate-400'}`}
+              title={view.id === defaultId ? 'Opens by default' : 'Open by default'}
+            >
+              <Star className={`w-3.5 h-3.5 ${view.id === defaultId ? 'fill-current' : ''}`} />
+            </button>
+            {editingId === view.id ? (
+              <input
+                autoFocus
+                type="text"
+                value={draftName}
+                onChange={e => setDraftName(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="flex-1 min-w-0 bg-white border border-slate-200 rounded-md px-2 py-0.5 text-xs font-medium text-slate-700 outline-none focus:ring-1 focus:ring-slate-300"
+              />
+            ) : (
+              <button
+                onClick={() => onSelect(view.id)}
+                onDoubleClick={() => startRename(view)}
+                className="flex-1 min-w-0 flex items-center justify-between text-left text-xs font-medium text-slate-600 group-hover:text-slate-900"
+              >
+                <span className="truncate">{view.name}</span>
+                {view.id === activeId && <Check className="w-3 h-3 text-blue-500 flex-shrink-0" />}
+              </button>
+            )}
+            <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+              <button onClick={() => startRename(view)} className="p-1 text-slate-300 hover:text-slate-600 transition" title="Rename">
+                <Pencil className="w-3 h-3" />
+              </button>
+              <button onClick={() => onDuplicate(view.id)} className="p-1 text-slate-300 hover:text-slate-600 transition" title="Duplicate">
+                <Copy className="w-3 h-3" />
+              </button>
+              {views.length > 1 && (
+                <button onClick={() => onDelete(view.id)} className="p-1 text-slate-300 hover:text-rose-500 transition" title="Delete">
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+ViewsMenu.displayName = 'ViewsMenu';
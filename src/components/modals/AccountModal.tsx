@@ -0,0 +1,231 @@
+import React, { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { Wallet, Plus, Minus, Trash2 } from 'lucide-react';
+import { Account, CashFlow, ChallengeRules } from '../../types';
+import { AccountSettings } from '../../utils/accountRepository';
+import { formatCurrency, toDateTimeLocal } from '../../utils';
+
+interface AccountModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  account: Account | null;
+  onSave: (settings: AccountSettings) => void;
+  // Only offered when the account holds no trades and isn't the last one
+  onDelete?: () => void;
+}
+
+const CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CHF', 'AUD', 'CAD', 'USDT'];
+
+const CHALLENGE_FIELDS: { key: keyof ChallengeRules; label: string; unit: string }[] = [
+  { key: 'maxDailyLoss', label: 'Max Daily Loss', unit: '%' },
+  { key: 'maxTotalDrawdown', label: 'Max Drawdown', unit: '%' },
+  { key: 'profitTarget', label: 'Profit Target', unit: '%' },
+  { key: 'minTradingDays', label: 'Min Trading Days', unit: 'days' }
+];
+
+// Common two-step evaluation defaults, a starting point to adjust
+const DEFAULT_CHALLENGE: ChallengeRules = { maxDailyLoss: 5, maxTotalDrawdown: 10, profitTarget: 10, minTradingDays: 4 };
+
+export const AccountModal: React.FC<AccountModalProps> = ({ isOpen, onClose, account, onSave, onDelete }) => {
+  const [draft, setDraft] = useState<AccountSettings | null>(null);
+  const [error, setError] = useState('');
+
+  // Start from the saved settings every time the modal opens
+  useEffect(() => {
+    if (isOpen && account) {
+      setDraft({
+        name: account.name,
+        currency: account.currency,
+        startingBalance: account.startingBalance,
+        cashFlows: account.cashFlows.map(flow => ({ ...flow })),
+        challenge: account.challenge && { ...account.challenge }
+      });
+      setError('');
+    }
+  }, [isOpen, account]);
+
+  if (!isOpen || !draft) return null;
+
+  const addCashFlow = (sign: 1 | -1) => {
+    const flow: CashFlow = { id: Date.now(), date: toDateTimeLocal(new Date()), amount: sign * 1000 };
+    setDraft({ ...draft, cashFlows: [...draft.cashFlows, flow] });
+  };
+
+  const updateCashFlow = (id: number, patch: Partial<CashFlow>) => {
+    setDraft({ ...draft, cashFlows: draft.cashFlows.map(f => (f.id === id ? { ...f, ...patch } : f)) });
+  };
+
+  const removeCashFlow = (id: number) => {
+    setDraft({ ...draft, cashFlows: draft.cashFlows.filter(f => f.id !== id) });
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) {
+      setError('Give the account a name.');
+      return;
+    }
+    if (!(draft.startingBalance > 0)) {
+      setError('The starting balance has to be above zero.');
+      return;
+    }
+    onSave({
+      ...draft,
+      name: draft.name.trim(),
+      cashFlows: [...draft.cashFlows].sort((a, b) => a.date.localeCompare(b.date))
+    });
+    onClose();
+  };
+
+  const updateChallenge = (key: keyof ChallengeRules, value: string) => {
+    setDraft({ ...draft, challenge: { ...draft.challenge, [key]: value === '' ? undefined : Math.max(0, parseFloat(value) || 0) } });
+  };
+
+  const netDeposits = draft.cashFlows.reduce((acc, f) => acc + f.amount, 0);
+
+  return createPortal(
+    <div 
+        className="fixed inset-0 z-50 flex items-center justify-center p-4"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="account-modal-title"
+    >
+      <div className="absolute inset-0 bg-slate-200/50 backdrop-blur-sm transition-opacity" onClick={onClose}></div>
+      <div className="relative w-full max-w-md bg-white rounded-3xl p-8 shadow-2xl ring-1 ring-black/5 max-h-[90vh] overflow-y-auto custom-scrollbar" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center gap-3 mb-6">
+          <div className="p-3 bg-slate-100 rounded-xl text-slate-800">
+            <Wallet className="w-5 h-5" />
+          </div>
+          <div>
+            <h3 id="account-modal-title" className="text-lg font-bold text-slate-800">Account</h3>
+            <p className="text-xs text-slate-400">Balance the equity curve and drawdown are measured on.</p>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Name</label>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={e => setDraft({ ...draft, name: e.target.value })}
+              className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-slate-800 font-semibold focus:outline-none focus:ring-2 focus:ring-slate-200 focus:bg-white transition"
+            />
+          </div>
+
+          <div className="flex gap-3">
+            <div className="w-28">
+              <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Currency</label>
+              <select
+                value={draft.currency}
+                onChange={e => setDraft({ ...draft, currency: e.target.value })}
+                className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-3 text-slate-800 font-semibold focus:outline-none focus:ring-2 focus:ring-slate-200 cursor-pointer"
+              >
+                {CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+              </select>
+            </div>
+            <div className="flex-1">
+              <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Starting Balance</label>
+              <input
+                type="number"
+                step="any"
+                value={draft.startingBalance || ''}
+                onChange={e => setDraft({ ...draft, startingBalance: parseFloat(e.target.value) || 0 })}
+                className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-slate-800 font-semibold focus:outline-none focus:ring-2 focus:ring-slate-200 focus:bg-white transition"
+                placeholder="10000"
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider">Deposits & Withdrawals</label>
+              {draft.cashFlows.length > 0 && (
+                <span className={`text-xs font-semibold ${netDeposits >= 0 ? 'text-green-600' : 'text-rose-500'}`}>
+                  {formatCurrency(netDeposits, draft.currency)}
+                </span>
+              )}
+            </div>
+            <div className="space-y-2">
+              {draft.cashFlows.map(flow => (
+                <div key={flow.id} className="flex items-center gap-2">
+                  <input
+                    type="datetime-local"
+                    value={flow.date}
+                    onChange={e => e.target.value && updateCashFlow(flow.id, { date: e.target.value })}
+                    className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-lg px-2 py-2 text-xs text-slate-800 font-semibold focus:outline-none focus:ring-1 focus:ring-slate-300"
+                  />
+                  <input
+                    type="number"
+                    step="any"
+                    value={flow.amount}
+                    onChange={e => updateCashFlow(flow.id, { amount: parseFloat(e.target.value) || 0 })}
+                    className={`w-28 bg-slate-50 border border-slate-200 rounded-lg px-2 py-2 text-xs font-semibold focus:outline-none focus:ring-1 focus:ring-slate-300 ${flow.amount >= 0 ? 'text-green-600' : 'text-rose-500'}`}
+                    title="Positive for a deposit, negative for a withdrawal"
+                  />
+                  <button onClick={() => removeCashFlow(flow.id)} className="p-1.5 text-slate-300 hover:text-rose-500 transition" title="Remove">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2 mt-2">
+              <button onClick={() => addCashFlow(1)} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-100 text-slate-600 text-xs font-semibold hover:bg-slate-200 transition">
+                <Plus className="w-3.5 h-3.5" /> Deposit
+              </button>
+              <button onClick={() => addCashFlow(-1)} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-100 text-slate-600 text-xs font-semibold hover:bg-slate-200 transition">
+                <Minus className="w-3.5 h-3.5" /> Withdrawal
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="flex items-center justify-between cursor-pointer">
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Prop-Firm Challenge</span>
+              <input
+                type="checkbox"
+                checked={!!draft.challenge}
+                onChange={e => setDraft({ ...draft, challenge: e.target.checked ? { ...DEFAULT_CHALLENGE } : undefined })}
+                className="accent-slate-800"
+              />
+            </label>
+            {draft.challenge && (
+              <div className="grid grid-cols-2 gap-2 mt-2">
+                {CHALLENGE_FIELDS.map(field => (
+                  <div key={field.key}>
+                    <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">{field.label} ({field.unit})</label>
+                    <input
+                      type="number"
+                      step="any"
+                      min="0"
+                      value={draft.challenge?.[field.key] ?? ''}
+                      onChange={e => updateChallenge(field.key, e.target.value)}
+                      className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-xs text-slate-800 font-semibold focus:outline-none focus:ring-1 focus:ring-slate-300"
+                      placeholder="Off"
+                    />
+                  </div>
+                ))}
+                <p className="col-span-2 text-[10px] text-slate-400">Percentages are of the starting balance. Leave a rule empty to skip it.</p>
+              </div>
+            )}
+          </div>
+
+          {error && <div className="text-xs text-rose-600">{error}</div>}
+
+          <button 
+            onClick={handleSave}
+            className="w-full py-4 mt-2 rounded-xl bg-slate-900 text-white font-bold hover:bg-slate-800 hover:shadow-lg hover:shadow-slate-200 transition-all transform active:scale-95"
+          >Save Account</button>
+          {onDelete && (
+            <button
+              onClick={() => { onDelete(); onClose(); }}
+              className="w-full py-2 rounded-xl text-xs font-semibold text-slate-400 hover:text-rose-600 hover:bg-rose-50 transition"
+            >Delete Account</button>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+AccountModal.displayName = 'AccountModal';
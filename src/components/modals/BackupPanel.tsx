@@ -0,0 +1,140 @@
+import React, { useState, useRef } from 'react';
+import { Download, Upload, DatabaseBackup, AlertTriangle } from 'lucide-react';
+import { WorkspaceBackup, RestoreMode, createBackup, backupFileName, parseBackup, restoreBackup } from '../../utils/backup';
+import { downloadBlob } from '../../utils';
+
+export const BackupPanel: React.FC = () => {
+  const [pending, setPending] = useState<WorkspaceBackup | null>(null);
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    setError('');
+    try {
+      const backup = await createBackup();
+      downloadBlob(new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }), backupFileName());
+    } catch (err) {
+      console.error('Error creating backup:', err);
+      setError('The backup could not be created.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        setPending(parseBackup(String(reader.result || '')));
+        setError('');
+      } catch (err) {
+        setPending(null);
+        setError(err instanceof Error ? err.message : 'The backup could not be read.');
+      }
+    };
+    reader.onerror = () => setError('Could not read the file.');
+    reader.readAsText(file);
+  };
+
+  const handleRestore = async (mode: RestoreMode) => {
+    if (!pending) return;
+    setIsBusy(true);
+    try {
+      await restoreBackup(pending, mode);
+      // Trades, boards, accounts and settings are read on startup, so reloading picks everything up
+      window.location.reload();
+    } catch (err) {
+      console.error('Error restoring backup:', err);
+      setError('The backup could not be restored.');
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-3 bg-slate-100 rounded-xl text-slate-800">
+          <DatabaseBackup className="w-5 h-5" />
+        </div>
+        <div>
+          <h3 className="text-lg font-bold text-slate-800">Backup</h3>
+          <p className="text-xs text-slate-400">Trades, whiteboard and settings in one file.</p>
+        </div>
+      </div>
+
+      {pending ? (
+        <div className="rounded-2xl border border-slate-100 bg-slate-50 p-4 space-y-3">
+          <p className="text-xs text-slate-600">
+            <span className="font-bold text-slate-800">{pending.trades.items.length} trades</span>
+            {pending.exportedAt && <> from {new Date(pending.exportedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}</>}
+          </p>
+          <p className="text-[11px] text-slate-400">
+            Merge adds trades, boards and accounts that aren't here yet, fills in the main account and keeps this device's settings.
+            Replace discards the current journal first.
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleRestore('merge')}
+              disabled={isBusy}
+              className="flex-1 py-2 rounded-xl bg-slate-900 text-white text-xs font-bold hover:bg-slate-800 transition disabled:opacity-40"
+            >
+              Merge
+            </button>
+            <button
+              onClick={() => handleRestore('replace')}
+              disabled={isBusy}
+              className="flex-1 py-2 rounded-xl border border-rose-200 text-rose-600 text-xs font-bold hover:bg-rose-50 transition disabled:opacity-40"
+            >
+              Replace
+            </button>
+            <button
+              onClick={() => setPending(null)}
+              disabled={isBusy}
+              className="px-3 py-2 rounded-xl text-slate-400 text-xs font-bold hover:text-slate-600 transition"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-3">
+          <button
+            onClick={handleExport}
+            disabled={isBusy}
+            className="flex items-center justify-center gap-2 py-3 rounded-xl border border-slate-200 text-slate-700 text-xs font-bold hover:bg-slate-50 transition disabled:opacity-40"
+          >
+            <Download className="w-4 h-4" /> Export
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isBusy}
+            className="flex items-center justify-center gap-2 py-3 rounded-xl border border-slate-200 text-slate-700 text-xs font-bold hover:bg-slate-50 transition disabled:opacity-40"
+          >
+            <Upload className="w-4 h-4" /> Restore
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      )}
+
+      {error && (
+        <p className="flex items-center gap-2 mt-3 text-xs font-semibold text-rose-500">
+          <AlertTriangle className="w-3 h-3 flex-shrink-0" /> {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+BackupPanel.displayName = 'BackupPanel';
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { ListPlus, Plus, Trash2 } from 'lucide-react';
+import { CustomFieldDefinition, CustomFieldType } from '../../types';
+import { CUSTOM_FIELD_TYPES } from '../../constants';
+
+interface CustomFieldsPanelProps {
+  customFields: CustomFieldDefinition[];
+  onAdd: () => void;
+  onUpdate: (id: string, patch: Partial<Omit<CustomFieldDefinition, 'id'>>) => void;
+  onRemove: (id: string) => void;
+}
+
+// Options are typed as one comma-separated line and only split once the input is left
+const OptionsInput: React.FC<{ options: string[]; onCommit: (options: string[]) => void }> = ({ options, onCommit }) => {
+  const [draft, setDraft] = useState(options.join(', '));
+
+  const commit = () => {
+    const parsed = [...new Set(draft.split(',').map(o => o.trim()).filter(Boolean))];
+    onCommit(parsed);
+    setDraft(parsed.join(', '));
+  };
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      onChange={e => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={e => e.key === 'Enter' && commit()}
+      className="w-full bg-white border border-slate-200 rounded-lg px-2 py-1.5 text-xs text-slate-700 focus:outline-none focus:ring-1 focus:ring-slate-300"
+      placeholder="Options, separated by commas"
+    />
+  );
+};
+
+export const CustomFieldsPanel: React.FC<CustomFieldsPanelProps> = ({ customFields, onAdd, onUpdate, onRemove }) => {
+  return (
+    <div>
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-3 bg-slate-100 rounded-xl text-slate-800">
+          <ListPlus className="w-5 h-5" />
+        </div>
+        <div>
+          <h3 className="text-lg font-bold text-slate-800">Custom Fields</h3>
+          <p className="text-xs text-slate-400">Extra properties on every trade, shown as Journal columns.</p>
+        </div>
+      </div>
+
+      <div className="space-y-2 max-h-64 overflow-y-auto">
+        {customFields.map(field => (
+          <div key={field.id} className="rounded-2xl border border-slate-100 bg-slate-50 p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={field.name}
+                onChange={e => onUpdate(field.id, { name: e.target.value })}
+                className="flex-1 min-w-0 bg-white border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-semibold text-slate-800 focus:outline-none focus:ring-1 focus:ring-slate-300"
+                placeholder="Field name"
+              />
+              <select
+                value={field.type}
+                onChange={e => onUpdate(field.id, { type: e.target.value as CustomFieldType })}
+                className="bg-white border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-semibold text-slate-600 outline-none cursor-pointer"
+              >
+                {CUSTOM_FIELD_TYPES.map(type => (
+                  <option key={type.id} value={type.id}>{type.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => onRemove(field.id)}
+                className="p-1.5 text-slate-300 hover:text-rose-500 transition"
+                title="Remove field"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            {(field.type === 'select' || field.type === 'multiselect') && (
+              <OptionsInput options={field.options ?? []} onCommit={options => onUpdate(field.id, { options })} />
+            )}
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={onAdd}
+        className="w-full flex items-center justify-center gap-2 mt-3 py-3 rounded-xl border border-dashed border-slate-200 text-slate-500 text-xs font-bold hover:bg-slate-50 hover:text-slate-700 transition"
+      >
+        <Plus className="w-4 h-4" /> Add Field
+      </button>
+    </div>
+  );
+};
+
+CustomFieldsPanel.displayName = 'CustomFieldsPanel';
@@ -0,0 +1,354 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { Upload, FileText, X, ArrowLeft, AlertTriangle, Copy, Check } from 'lucide-react';
+import { Trade } from '../../types';
+import { formatPercent } from '../../utils';
+import {
+  CsvTable, ColumnMapping, ImportField, IMPORT_FIELDS,
+  parseCsv, guessColumnMapping, parseImportRows, checkImportedTrades
+} from '../../utils/csvImport';
+import { IMPORT_PRESETS, ImportPresetId, PresetParseResult } from '../../utils/importPresets';
+
+interface ImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  existingTrades: Trade[];
+  // Journal timezone, the clock times in the file are read on
+  timezone: string;
+  onImport: (trades: Partial<Trade>[]) => Trade[];
+}
+
+type WizardStep = 'upload' | 'map' | 'review';
+type ImportFormat = 'csv' | ImportPresetId;
+
+const PREVIEW_ROWS = 5;
+
+export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, existingTrades, timezone, onImport }) => {
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [format, setFormat] = useState<ImportFormat>('csv');
+  const [presetResult, setPresetResult] = useState<PresetParseResult | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<CsvTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [uploadError, setUploadError] = useState('');
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const parsedRows = useMemo(() => {
+    if (step !== 'review') return [];
+    if (presetResult) return checkImportedTrades(presetResult.trades, existingTrades, timezone);
+    if (!table) return [];
+    return parseImportRows(table, mapping, existingTrades, timezone);
+  }, [table, mapping, presetResult, existingTrades, timezone, step]);
+
+  const summary = useMemo(() => {
+    const valid = parsedRows.filter(r => r.trade);
+    const duplicates = valid.filter(r => r.duplicateOf !== null);
+    return {
+      valid: valid.length,
+      invalid: parsedRows.length - valid.length,
+      duplicates: duplicates.length,
+      toImport: skipDuplicates ? valid.length - duplicates.length : valid.length
+    };
+  }, [parsedRows, skipDuplicates]);
+
+  if (!isOpen) return null;
+
+  const activePreset = IMPORT_PRESETS.find(p => p.id === format);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setTable(null);
+    setMapping({});
+    setPresetResult(null);
+    setUploadError('');
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const loadFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = String(reader.result || '');
+      setFileName(file.name);
+
+      if (activePreset) {
+        const result = activePreset.parse(text, file.name, timezone);
+        if (result.trades.length === 0) {
+          setUploadError(result.warnings[0] || 'No closed trades found in the file.');
+          return;
+        }
+        setUploadError('');
+        setPresetResult(result);
+        setStep('review');
+        return;
+      }
+
+      const parsed = parseCsv(text);
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        setUploadError('The file has no data rows.');
+        return;
+      }
+      setUploadError('');
+      setTable(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+      setStep('map');
+    };
+    reader.onerror = () => setUploadError('Could not read the file.');
+    reader.readAsText(file);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file) loadFile(file);
+  };
+
+  const updateMapping = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  };
+
+  const handleImport = () => {
+    const trades = parsedRows
+      .filter(r => r.trade && (!skipDuplicates || r.duplicateOf === null))
+      .map(r => r.trade!);
+    onImport(trades);
+    handleClose();
+  };
+
+  const missingRequired = IMPORT_FIELDS.filter(f => f.required && mapping[f.id] === undefined);
+
+  return createPortal(
+    <div
+        className="fixed inset-0 z-50 flex items-center justify-center p-4"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-wizard-title"
+    >
+      <div className="absolute inset-0 bg-slate-200/50 backdrop-blur-sm transition-opacity" onClick={handleClose}></div>
+      <div className="relative w-full max-w-3xl max-h-[90vh] flex flex-col bg-white rounded-3xl p-8 shadow-2xl ring-1 ring-black/5" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            {step !== 'upload' && (
+              <button
+                onClick={() => setStep(step === 'review' && !presetResult ? 'map' : 'upload')}
+                className="p-1 text-slate-400 hover:text-slate-800 transition"
+                title="Back"
+              >
+                <ArrowLeft className="w-4 h-4" />
+              </button>
+            )}
+            <div>
+              <h3 id="import-wizard-title" className="text-xl font-bold text-slate-800">Import trades</h3>
+              <p className="text-xs text-slate-400">
+                {step === 'upload' && 'Pick the export format, then upload the file from your broker or exchange.'}
+                {step === 'map' && `Match the columns of ${fileName} to trade fields.`}
+                {step === 'review' && 'Check the parsed rows before adding them to your journal.'}
+              </p>
+            </div>
+          </div>
+          <button onClick={handleClose} className="p-1 text-slate-400 hover:text-slate-600 transition">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {step === 'upload' && (
+          <div className="flex flex-col gap-4">
+            <div className="flex flex-wrap gap-2">
+              {[{ id: 'csv' as ImportFormat, label: 'Generic CSV', description: 'Any CSV, columns are mapped by hand' }, ...IMPORT_PRESETS].map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => { setFormat(option.id); setUploadError(''); }}
+                  title={option.description}
+                  className={`px-3 py-1.5 rounded-lg text-xs font-semibold border transition ${format === option.id ? 'bg-slate-900 border-slate-900 text-white' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <div
+              onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+              onClick={() => fileInputRef.current?.click()}
+              className={`flex flex-col items-center justify-center gap-3 h-56 rounded-2xl border-2 border-dashed cursor-pointer transition ${isDragging ? 'border-slate-800 bg-slate-50' : 'border-slate-200 hover:border-slate-300 hover:bg-slate-50'}`}
+            >
+              <div className="p-3 bg-slate-100 rounded-xl text-slate-600">
+                <Upload className="w-5 h-5" />
+              </div>
+              <span className="text-sm font-semibold text-slate-700">Drop {activePreset ? `a ${activePreset.label} export` : 'a CSV file'} here or click to browse</span>
+              <span className="text-xs text-slate-400">{activePreset ? activePreset.description : 'Comma, semicolon and tab separated files are supported'}</span>
+              {uploadError && <span className="text-xs font-semibold text-rose-500">{uploadError}</span>}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={activePreset ? activePreset.accept : '.csv,.tsv,.txt,text/csv'}
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) loadFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+          </div>
+        )}
+
+        {step === 'map' && table && (
+          <div className="flex flex-col gap-6 overflow-hidden">
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {IMPORT_FIELDS.map(field => (
+                <div key={field.id}>
+                  <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">
+                    {field.label}{field.required && <span className="text-rose-400"> *</span>}
+                  </label>
+                  <select
+                    value={mapping[field.id] ?? ''}
+                    onChange={e => updateMapping(field.id, e.target.value)}
+                    className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs text-slate-800 font-semibold focus:outline-none focus:ring-2 focus:ring-slate-200"
+                  >
+                    <option value="">— Not mapped —</option>
+                    {table.headers.map((header, i) => (
+                      <option key={i} value={i}>{header || `Column ${i + 1}`}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div className="overflow-auto border border-slate-100 rounded-xl">
+              <table className="w-full text-left text-xs">
+                <thead className="bg-slate-50">
+                  <tr>
+                    {table.headers.map((header, i) => {
+                      const field = IMPORT_FIELDS.find(f => mapping[f.id] === i);
+                      return (
+                        <th key={i} className="p-2 font-bold text-slate-400 uppercase tracking-wider whitespace-nowrap">
+                          {header}
+                          {field && <span className="block text-[10px] text-blue-500 normal-case tracking-normal">→ {field.label}</span>}
+                        </th>
+                      );
+                    })}
+                  </tr>
+                </thead>
+                <tbody>
+                  {table.rows.slice(0, PREVIEW_ROWS).map((row, r) => (
+                    <tr key={r} className="border-t border-slate-100">
+                      {table.headers.map((_, c) => (
+                        <td key={c} className="p-2 text-slate-600 whitespace-nowrap">{row[c] ?? ''}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-slate-400 flex items-center gap-2">
+                <FileText className="w-3 h-3" /> {table.rows.length} rows
+              </span>
+              <button
+                onClick={() => setStep('review')}
+                disabled={missingRequired.length > 0}
+                className="px-6 py-3 rounded-xl bg-slate-900 text-white text-sm font-bold hover:bg-slate-800 transition disabled:opacity-40 disabled:cursor-not-allowed"
+                title={missingRequired.length > 0 ? `Map ${missingRequired.map(f => f.label).join(', ')}` : undefined}
+              >
+                Preview Import
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'review' && (
+          <div className="flex flex-col gap-4 overflow-hidden">
+            <div className="flex flex-wrap gap-2 text-xs font-medium">
+              <span className="px-3 py-1.5 rounded-lg border bg-emerald-50 border-emerald-100 text-emerald-700">{summary.valid} valid</span>
+              {summary.invalid > 0 && (
+                <span className="px-3 py-1.5 rounded-lg border bg-rose-50 border-rose-100 text-rose-700">{summary.invalid} with errors</span>
+              )}
+              {summary.duplicates > 0 && (
+                <span className="px-3 py-1.5 rounded-lg border bg-amber-50 border-amber-100 text-amber-700">{summary.duplicates} already in journal</span>
+              )}
+            </div>
+
+            {presetResult && presetResult.warnings.length > 0 && (
+              <ul className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-xl px-4 py-3 space-y-1 max-h-24 overflow-auto">
+                {presetResult.warnings.map((warning, i) => (
+                  <li key={i} className="flex items-start gap-2"><AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />{warning}</li>
+                ))}
+              </ul>
+            )}
+
+            <div className="overflow-auto border border-slate-100 rounded-xl">
+              <table className="w-full text-left text-xs">
+                <thead className="bg-slate-50 sticky top-0">
+                  <tr>
+                    {['Row', 'Ticker', 'Direction', 'Entry', 'Exit', 'PnL', 'Status'].map(h => (
+                      <th key={h} className="p-2 font-bold text-slate-400 uppercase tracking-wider">{h}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {parsedRows.map(row => (
+                    <tr key={row.rowNumber} className={`border-t border-slate-100 ${row.trade ? '' : 'bg-rose-50/40'}`}>
+                      <td className="p-2 text-slate-400">{row.rowNumber}</td>
+                      <td className="p-2 font-bold text-slate-800">{row.trade?.ticker ?? '—'}</td>
+                      <td className="p-2 text-slate-600">{row.trade?.direction ?? '—'}</td>
+                      <td className="p-2 text-slate-600 whitespace-nowrap">{row.trade?.entryDate.replace('T', ' ') ?? '—'}</td>
+                      <td className="p-2 text-slate-600 whitespace-nowrap">{row.trade?.exitDate.replace('T', ' ') ?? '—'}</td>
+                      <td className={`p-2 font-bold ${!row.trade ? 'text-slate-400' : row.trade.pnl >= 0 ? 'text-green-600' : 'text-rose-500'}`}>
+                        {row.trade ? formatPercent(row.trade.pnl) : '—'}
+                      </td>
+                      <td className="p-2">
+                        {row.errors.length > 0 ? (
+                          <span className="flex items-start gap-1 text-rose-600"><AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />{row.errors.join('; ')}</span>
+                        ) : row.duplicateOf !== null ? (
+                          <span className="flex items-center gap-1 text-amber-600"><Copy className="w-3 h-3" />Duplicate</span>
+                        ) : (
+                          <span className="flex items-center gap-1 text-emerald-600"><Check className="w-3 h-3" />Ready</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-2 text-xs font-medium text-slate-600 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={skipDuplicates}
+                  onChange={e => setSkipDuplicates(e.target.checked)}
+                  className="accent-slate-800"
+                />
+                Skip trades already in the journal
+              </label>
+              <button
+                onClick={handleImport}
+                disabled={summary.toImport === 0}
+                className="px-6 py-3 rounded-xl bg-slate-900 text-white text-sm font-bold hover:bg-slate-800 transition disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Import {summary.toImport} {summary.toImport === 1 ? 'trade' : 'trades'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+ImportWizard.displayName = 'ImportWizard';
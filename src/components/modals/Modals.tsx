@@ -1,8 +1,20 @@
 
 import React from 'react';
 import { createPortal } from 'react-dom';
-import { Trade, Plan } from '../../types';
+import { Account, Trade, Plan, TagGroupDefinition, TagGroupId } from '../../types';
+import { EXECUTION_FIELDS } from '../../constants';
+import { formatAmount, formatR } from '../../utils';
+import { computeTradePnl, getPlannedR, getRealizedR } from '../../utils/tradePnl';
 import { LayoutTemplate } from 'lucide-react';
+import { BackupPanel } from './BackupPanel';
+import { TagEditor } from '../journal/TagEditor';
+import { CustomFieldsPanel } from './CustomFieldsPanel';
+import { CustomFieldsState } from '../../hooks/useCustomFields';
+import { TagGroupsPanel } from './TagGroupsPanel';
+import { TagGroupsState } from '../../hooks/useTagGroups';
+import { SessionsPanel } from './SessionsPanel';
+import { SessionConfigState } from '../../hooks/useSessionConfig';
+import { JournalTimezoneState } from '../../hooks/useJournalTimezone';
 
 interface TradeModalProps {
   isOpen: boolean;
@@ -10,12 +22,25 @@ interface TradeModalProps {
   newTrade: Partial<Trade>;
   setNewTrade: React.Dispatch<React.SetStateAction<Partial<Trade>>>;
   onSave: () => void;
+  accounts: Account[];
+  // Account the trade lands in unless another one is picked
+  defaultAccountId?: number;
+  // Balance a computed result is a percent of
+  getBalance: (trade: Partial<Trade>) => number | null;
+  tagGroups: TagGroupDefinition[];
+  tagSuggestions: Record<TagGroupId, string[]>;
 }
 
-export const TradeModal: React.FC<TradeModalProps> = ({ isOpen, onClose, newTrade, setNewTrade, onSave }) => {
+export const TradeModal: React.FC<TradeModalProps> = ({ isOpen, onClose, newTrade, setNewTrade, onSave, accounts, defaultAccountId, getBalance, tagGroups, tagSuggestions }) => {
   if (!isOpen) return null;
 
   const styles = ['Scalping', 'Intraday', 'Intraweek', 'Swing'];
+  const computedPnl = computeTradePnl(newTrade, getBalance({ ...newTrade, accountId: newTrade.accountId ?? defaultAccountId }));
+  const computedPercent = computedPnl?.percent ?? null;
+  // An empty exit date is how an open position is stored
+  const isOpenPosition = newTrade.exitDate === '';
+  const plannedR = getPlannedR(newTrade);
+  const realizedR = getRealizedR(newTrade);
 
   return createPortal(
     <div 
@@ -25,7 +50,7 @@ export const TradeModal: React.FC<TradeModalProps> = ({ isOpen, onClose, newTrad
         aria-labelledby="trade-modal-title"
     >
       <div className="absolute inset-0 bg-slate-200/50 backdrop-blur-sm transition-opacity" onClick={onClose}></div>
-      <div className="relative w-full max-w-sm bg-white rounded-3xl p-8 shadow-2xl ring-1 ring-black/5" onClick={e => e.stopPropagation()}>
+      <div className="relative w-full max-w-sm max-h-[90vh] overflow-y-auto bg-white rounded-3xl p-8 shadow-2xl ring-1 ring-black/5" onClick={e => e.stopPropagation()}>
         <h3 id="trade-modal-title" className="text-xl font-bold text-slate-800 mb-6 text-center">Log a new trade</h3>
         <div className="space-y-4">
           <div>
@@ -39,6 +64,21 @@ export const TradeModal: React.FC<TradeModalProps> = ({ isOpen, onClose, newTrad
             />
           </div>
 
+          {accounts.length > 1 && (
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Account</label>
+              <select
+                value={newTrade.accountId ?? defaultAccountId ?? accounts[0].id}
+                onChange={e => setNewTrade({...newTrade, accountId: Number(e.target.value)})}
+                className="custom-select w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm text-slate-800 font-semibold focus:outline-none focus:ring-2 focus:ring-slate-200 cursor-pointer"
+              >
+                {accounts.map(account => (
+                  <option key={account.id} value={account.id}>{account.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div className="grid grid-cols-2 gap-3">
             <div>
               <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Entry Date</label>
@@ -50,12 +90,25 @@ export const TradeModal: React.FC<TradeModalProps> = ({ isOpen, onClose, newTrad
               />
             </div>
             <div>
-              <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Exit Date</label>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider">Exit Date</label>
+                <label className="flex items-center gap-1 text-[10px] font-bold text-slate-400 uppercase tracking-wider cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={isOpenPosition}
+                    onChange={e => setNewTrade({...newTrade, exitDate: e.target.checked ? '' : undefined})}
+                    className="accent-slate-800"
+                  />
+                  Open
+                </label>
+              </div>
               <input 
                 type="datetime-local" 
                 value={newTrade.exitDate || ''}
-                onChange={e => setNewTrade({...newTrade, exitDate: e.target.value})}
-                className="w-full bg-slate-50 border border-slate-200 rounded-xl px-2 py-3 text-xs text-slate-800 font-semibold focus:outline-none focus:ring-2 focus:ring-slate-200"
+                // Clearing the field falls back to "closed now" rather than opening the position
+                onChange={e => setNewTrade({...newTrade, exitDate: e.target.value || undefined})}
+                disabled={isOpenPosition}
+                className="w-full bg-slate-50 border border-slate-200 rounded-xl px-2 py-3 text-xs text-slate-800 font-semibold focus:outline-none focus:ring-2 focus:ring-slate-200 disabled:opacity-40"
               />
             </div>
           </div>
@@ -71,16 +124,47 @@ export const TradeModal: React.FC<TradeModalProps> = ({ isOpen, onClose, newTrad
             >Short</button>
           </div>
 
+          <div className="grid grid-cols-3 gap-2">
+            {EXECUTION_FIELDS.map(field => (
+              <div key={field.key}>
+                <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1.5">{field.label}</label>
+                <input
+                  type="number"
+                  step="any"
+                  value={newTrade[field.key] ?? ''}
+                  onChange={e => setNewTrade({...newTrade, [field.key]: e.target.value === '' ? undefined : parseFloat(e.target.value)})}
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs text-slate-800 font-semibold focus:outline-none focus:ring-2 focus:ring-slate-200 focus:bg-white transition"
+                  placeholder={field.placeholder}
+                />
+              </div>
+            ))}
+          </div>
+          {(plannedR !== null || realizedR !== null) && (
+            <div className="flex gap-4 -mt-2 text-[10px] font-semibold text-slate-400">
+              {plannedR !== null && <span>Planned {plannedR.toFixed(1)}R</span>}
+              {realizedR !== null && (
+                <span className={realizedR >= 0 ? 'text-green-600' : 'text-rose-500'}>Realized {formatR(realizedR)}</span>
+              )}
+            </div>
+          )}
+
           <div className="flex gap-3">
             <div className="flex-1">
-              <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">PnL ($)</label>
+              <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">PnL (%)</label>
               <input 
                 type="number" 
-                value={newTrade.pnl || ''}
-                onChange={e => setNewTrade({...newTrade, pnl: parseFloat(e.target.value)})}
-                className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-slate-800 font-semibold focus:outline-none focus:ring-2 focus:ring-slate-200 focus:bg-white transition"
+                value={computedPercent !== null ? computedPercent.toFixed(2) : (newTrade.pnl ?? '')}
+                onChange={e => setNewTrade({...newTrade, pnl: e.target.value === '' ? undefined : parseFloat(e.target.value)})}
+                readOnly={computedPercent !== null}
+                className={`w-full border border-slate-200 rounded-xl px-4 py-3 font-semibold focus:outline-none focus:ring-2 focus:ring-slate-200 transition ${computedPercent !== null ? 'bg-slate-100 text-slate-500' : 'bg-slate-50 text-slate-800 focus:bg-white'}`}
                 placeholder="0.00"
+                title={computedPercent !== null ? 'Computed from the prices, size and fees against the account balance' : undefined}
               />
+              {computedPnl && (
+                <div className={`mt-1 text-[10px] font-semibold ${computedPnl.amount >= 0 ? 'text-green-600' : 'text-rose-500'}`}>
+                  {formatAmount(computedPnl.amount)} after fees
+                </div>
+              )}
             </div>
             <div className="flex-1">
               <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Risk (%)</label>
@@ -110,6 +194,14 @@ export const TradeModal: React.FC<TradeModalProps> = ({ isOpen, onClose, newTrad
             </div>
           </div>
 
+          <TagEditor
+            tags={newTrade.tags}
+            onChange={tags => setNewTrade({...newTrade, tags})}
+            groups={tagGroups}
+            suggestions={tagSuggestions}
+            compact
+          />
+
           <button 
             onClick={onSave}
             className="w-full py-4 mt-2 rounded-xl bg-slate-900 text-white font-bold hover:bg-slate-800 hover:shadow-lg hover:shadow-slate-200 transition-all transform active:scale-95"
@@ -185,9 +277,13 @@ interface PreferencesModalProps {
   onClose: () => void;
   position: 'bottom' | 'top' | 'left' | 'right';
   setPosition: (pos: 'bottom' | 'top' | 'left' | 'right') => void;
+  customFieldsState: CustomFieldsState;
+  tagGroupsState: TagGroupsState;
+  sessionConfigState: SessionConfigState;
+  timezoneState: JournalTimezoneState;
 }
 
-export const PreferencesModal: React.FC<PreferencesModalProps> = ({ isOpen, onClose, position, setPosition }) => {
+export const PreferencesModal: React.FC<PreferencesModalProps> = ({ isOpen, onClose, position, setPosition, customFieldsState, tagGroupsState, sessionConfigState, timezoneState }) => {
   if (!isOpen) return null;
 
   const positions = [
@@ -200,7 +296,7 @@ export const PreferencesModal: React.FC<PreferencesModalProps> = ({ isOpen, onCl
   return createPortal(
     <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
       <div className="absolute inset-0 bg-slate-200/50 backdrop-blur-sm transition-opacity" onClick={onClose}></div>
-      <div className="relative w-full max-w-sm bg-white rounded-3xl p-8 shadow-2xl ring-1 ring-black/5" onClick={e => e.stopPropagation()}>
+      <div className="relative w-full max-w-sm max-h-[90vh] overflow-y-auto bg-white rounded-3xl p-8 shadow-2xl ring-1 ring-black/5" onClick={e => e.stopPropagation()}>
         <div className="flex items-center gap-3 mb-6">
             <div className="p-3 bg-slate-100 rounded-xl text-slate-800">
                 <LayoutTemplate className="w-5 h-5" />
@@ -231,6 +327,38 @@ export const PreferencesModal: React.FC<PreferencesModalProps> = ({ isOpen, onCl
                 </button>
             ))}
         </div>
+
+        <div className="h-[1px] bg-slate-100 my-6"></div>
+
+        <CustomFieldsPanel
+          customFields={customFieldsState.customFields}
+          onAdd={customFieldsState.addCustomField}
+          onUpdate={customFieldsState.updateCustomField}
+          onRemove={customFieldsState.removeCustomField}
+        />
+
+        <div className="h-[1px] bg-slate-100 my-6"></div>
+
+        <TagGroupsPanel
+          tagGroups={tagGroupsState.tagGroups}
+          onAdd={tagGroupsState.addTagGroup}
+          onUpdate={tagGroupsState.updateTagGroup}
+          onRemove={tagGroupsState.removeTagGroup}
+        />
+
+        <div className="h-[1px] bg-slate-100 my-6"></div>
+
+        <SessionsPanel
+          sessionConfig={sessionConfigState.sessionConfig}
+          timezone={timezoneState.timezone}
+          onChangeTimezone={timezoneState.setTimezone}
+          onChangeHours={sessionConfigState.updateSessionHours}
+          onReset={sessionConfigState.resetSessions}
+        />
+
+        <div className="h-[1px] bg-slate-100 my-6"></div>
+
+        <BackupPanel />
         
         <button 
           onClick={onClose}
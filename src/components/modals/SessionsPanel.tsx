@@ -0,0 +1,74 @@
+import React, { useMemo } from 'react';
+import { Globe } from 'lucide-react';
+import { SessionConfig, SessionHours, SessionName } from '../../types';
+import { SESSIONS } from '../../utils/tradeTime';
+
+interface SessionsPanelProps {
+  sessionConfig: SessionConfig;
+  timezone: string;
+  onChangeTimezone: (timezone: string) => void;
+  onChangeHours: (session: SessionName, patch: Partial<SessionHours>) => void;
+  onReset: () => void;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const selectClass = 'bg-white border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-semibold text-slate-600 outline-none cursor-pointer';
+
+export const SessionsPanel: React.FC<SessionsPanelProps> = ({ sessionConfig, timezone, onChangeTimezone, onChangeHours, onReset }) => {
+  const timezones = useMemo(() => Intl.supportedValuesOf('timeZone'), []);
+
+  return (
+    <div>
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-3 bg-slate-100 rounded-xl text-slate-800">
+          <Globe className="w-5 h-5" />
+        </div>
+        <div>
+          <h3 className="text-lg font-bold text-slate-800">Time & Sessions</h3>
+          <p className="text-xs text-slate-400">The clock trades are dated, grouped and filtered on.</p>
+        </div>
+      </div>
+
+      <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">Timezone</label>
+      <select
+        value={timezone}
+        onChange={e => onChangeTimezone(e.target.value)}
+        className={`${selectClass} w-full mb-3`}
+      >
+        <option value="">Browser ({Intl.DateTimeFormat().resolvedOptions().timeZone})</option>
+        {timezones.map(tz => <option key={tz} value={tz}>{tz}</option>)}
+      </select>
+
+      <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">Sessions</label>
+      <div className="space-y-2">
+        {SESSIONS.map(session => (
+          <div key={session} className="flex items-center gap-2">
+            <span className="flex-1 text-xs font-semibold text-slate-700">{session}</span>
+            <select
+              value={sessionConfig.hours[session].start}
+              onChange={e => onChangeHours(session, { start: Number(e.target.value) })}
+              className={selectClass}
+            >
+              {HOURS.map(hour => <option key={hour} value={hour}>{String(hour).padStart(2, '0')}:00</option>)}
+            </select>
+            <span className="text-xs text-slate-400">to</span>
+            <select
+              value={sessionConfig.hours[session].end}
+              onChange={e => onChangeHours(session, { end: Number(e.target.value) })}
+              className={selectClass}
+            >
+              {HOURS.map(hour => <option key={hour} value={hour}>{String(hour).padStart(2, '0')}:00</option>)}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <button onClick={onReset} className="mt-3 text-[10px] font-semibold text-slate-400 hover:text-slate-700 transition">
+        Reset to defaults
+      </button>
+    </div>
+  );
+};
+
+SessionsPanel.displayName = 'SessionsPanel';
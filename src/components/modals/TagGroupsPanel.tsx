@@ -0,0 +1,70 @@
+import React from 'react';
+import { Plus, Tags, Trash2 } from 'lucide-react';
+import { TagGroupDefinition } from '../../types';
+import { TAG_COLORS } from '../../constants';
+import { TAG_CHIP_CLASSES } from '../journal/TagEditor';
+
+interface TagGroupsPanelProps {
+  tagGroups: TagGroupDefinition[];
+  onAdd: () => void;
+  onUpdate: (id: string, patch: Partial<Omit<TagGroupDefinition, 'id'>>) => void;
+  onRemove: (id: string) => void;
+}
+
+export const TagGroupsPanel: React.FC<TagGroupsPanelProps> = ({ tagGroups, onAdd, onUpdate, onRemove }) => {
+  return (
+    <div>
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-3 bg-slate-100 rounded-xl text-slate-800">
+          <Tags className="w-5 h-5" />
+        </div>
+        <div>
+          <h3 className="text-lg font-bold text-slate-800">Tag Groups</h3>
+          <p className="text-xs text-slate-400">Categories your trade tags are sorted into.</p>
+        </div>
+      </div>
+
+      <div className="space-y-2 max-h-64 overflow-y-auto">
+        {tagGroups.map(group => (
+          <div key={group.id} className="rounded-2xl border border-slate-100 bg-slate-50 p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={group.label}
+                onChange={e => onUpdate(group.id, { label: e.target.value })}
+                className="flex-1 min-w-0 bg-white border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-semibold text-slate-800 focus:outline-none focus:ring-1 focus:ring-slate-300"
+                placeholder="Group name"
+              />
+              <button
+                onClick={() => onRemove(group.id)}
+                className="p-1.5 text-slate-300 hover:text-rose-500 transition"
+                title="Remove group"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            <div className="flex items-center gap-1.5">
+              {TAG_COLORS.map(color => (
+                <button
+                  key={color}
+                  onClick={() => onUpdate(group.id, { color })}
+                  className={`w-5 h-5 rounded border ${TAG_CHIP_CLASSES[color]} ${group.color === color ? 'ring-2 ring-slate-400' : ''}`}
+                  title={color}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={onAdd}
+        className="w-full flex items-center justify-center gap-2 mt-3 py-3 rounded-xl border border-dashed border-slate-200 text-slate-500 text-xs font-bold hover:bg-slate-50 hover:text-slate-700 transition"
+      >
+        <Plus className="w-4 h-4" /> Add Group
+      </button>
+    </div>
+  );
+};
+
+TagGroupsPanel.displayName = 'TagGroupsPanel';
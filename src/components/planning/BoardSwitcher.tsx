@@ -0,0 +1,123 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ChevronDown, Plus, Pencil, Copy, Trash2, Check, LayoutGrid } from 'lucide-react';
+import { Board } from '../../types';
+
+interface BoardSwitcherProps {
+  boards: Board[];
+  activeBoard: Board;
+  onSelect: (id: number) => void;
+  onCreate: () => void;
+  onRename: (id: number, name: string) => void;
+  onDuplicate: (id: number) => void;
+  onDelete: (id: number) => void;
+}
+
+export const BoardSwitcher: React.FC<BoardSwitcherProps> = ({ boards, activeBoard, onSelect, onCreate, onRename, onDuplicate, onDelete }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+        setEditingId(null);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const startRename = (board: Board) => {
+    setEditingId(board.id);
+    setEditingName(board.name);
+  };
+
+  const commitRename = () => {
+    if (editingId !== null) onRename(editingId, editingName);
+    setEditingId(null);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 bg-white/95 backdrop-blur-sm border border-slate-200 rounded-2xl shadow-lg px-4 py-3 text-sm font-semibold text-slate-800 hover:bg-white transition"
+      >
+        <LayoutGrid className="w-4 h-4 text-slate-400" />
+        <span className="max-w-[180px] truncate">{activeBoard.name}</span>
+        <ChevronDown className={`w-4 h-4 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-2 w-72 bg-white border border-slate-200 rounded-2xl shadow-xl p-1.5 animate-fade-in">
+          <div className="max-h-72 overflow-y-auto">
+            {boards.map(board => (
+              <div
+                key={board.id}
+                className={`group flex items-center gap-1 rounded-xl pl-3 pr-1 py-1 ${board.id === activeBoard.id ? 'bg-slate-100' : 'hover:bg-slate-50'}`}
+              >
+                {editingId === board.id ? (
+                  <>
+                    <input
+                      value={editingName}
+                      onChange={e => setEditingName(e.target.value)}
+                      onKeyDown={e => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="flex-1 min-w-0 bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs font-semibold text-slate-800 focus:outline-none focus:ring-2 focus:ring-slate-200"
+                      autoFocus
+                    />
+                    <button onClick={commitRename} className="p-1.5 rounded-lg text-slate-500 hover:text-slate-800" title="Save">
+                      <Check className="w-3.5 h-3.5" />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => { onSelect(board.id); setIsOpen(false); }}
+                      onDoubleClick={() => startRename(board)}
+                      className="flex-1 min-w-0 text-left py-1 text-xs font-semibold text-slate-700 truncate"
+                    >
+                      {board.name}
+                    </button>
+                    <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button onClick={() => startRename(board)} className="p-1.5 rounded-lg text-slate-400 hover:text-slate-800" title="Rename">
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                      <button onClick={() => onDuplicate(board.id)} className="p-1.5 rounded-lg text-slate-400 hover:text-slate-800" title="Duplicate">
+                        <Copy className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={() => {
+                          if (window.confirm(`Delete "${board.name}"? This can't be undone.`)) onDelete(board.id);
+                        }}
+                        disabled={boards.length <= 1}
+                        className="p-1.5 rounded-lg text-slate-400 hover:text-rose-600 disabled:opacity-30 disabled:hover:text-slate-400"
+                        title={boards.length <= 1 ? 'The last board cannot be deleted' : 'Delete'}
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="h-[1px] bg-slate-100 my-1.5"></div>
+          <button
+            onClick={() => { onCreate(); setIsOpen(false); }}
+            className="w-full flex items-center gap-2 px-3 py-2 rounded-xl text-xs font-semibold text-slate-600 hover:bg-slate-50 transition"
+          >
+            <Plus className="w-3.5 h-3.5" /> New board
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+BoardSwitcher.displayName = 'BoardSwitcher';
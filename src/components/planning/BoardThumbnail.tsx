@@ -0,0 +1,65 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { Board, BoardRegion } from '../../types';
+import { BOARD_COLOR, drawBackground, drawElements } from './whiteboardElements';
+import { getElementsBounds } from './whiteboardExport';
+
+interface BoardThumbnailProps {
+  board: Board;
+  // Defaults to everything drawn on the board
+  region?: BoardRegion;
+  className?: string;
+}
+
+/** Static preview of a board, fitted into the element's box. */
+export const BoardThumbnail: React.FC<BoardThumbnailProps> = ({ board, region, className = '' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Bumped when a picture finishes decoding, so it replaces its placeholder
+  const [imageTick, setImageTick] = useState(0);
+  const bounds = region ?? getElementsBounds(board.strokes);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !bounds) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const { width, height } = canvas.getBoundingClientRect();
+    canvas.width = Math.max(1, Math.round(width * dpr));
+    canvas.height = Math.max(1, Math.round(height * dpr));
+
+    // Fit the area and centre it, leaving the rest of the box as paper
+    const worldWidth = Math.max(1, bounds.maxX - bounds.minX);
+    const worldHeight = Math.max(1, bounds.maxY - bounds.minY);
+    const scale = Math.min(canvas.width / worldWidth, canvas.height / worldHeight);
+    const offsetX = (canvas.width - worldWidth * scale) / 2 - bounds.minX * scale;
+    const offsetY = (canvas.height - worldHeight * scale) / 2 - bounds.minY * scale;
+    const view = {
+      minX: -offsetX / scale,
+      minY: -offsetY / scale,
+      maxX: (canvas.width - offsetX) / scale,
+      maxY: (canvas.height - offsetY) / scale
+    };
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.setTransform(scale, 0, 0, scale, offsetX, offsetY);
+    drawElements(ctx, board.strokes, view, () => setImageTick(t => t + 1));
+    ctx.globalCompositeOperation = 'destination-over';
+    drawBackground(ctx, board.background, view, scale);
+    ctx.fillStyle = BOARD_COLOR;
+    ctx.fillRect(view.minX, view.minY, view.maxX - view.minX, view.maxY - view.minY);
+    ctx.globalCompositeOperation = 'source-over';
+  }, [board, bounds?.minX, bounds?.minY, bounds?.maxX, bounds?.maxY, imageTick]);
+
+  if (!bounds) {
+    return (
+      <div className={`flex items-center justify-center bg-slate-50 text-xs text-slate-400 ${className}`}>
+        Empty board
+      </div>
+    );
+  }
+
+  return <canvas ref={canvasRef} className={`block w-full h-full ${className}`} />;
+};
+
+BoardThumbnail.displayName = 'BoardThumbnail';
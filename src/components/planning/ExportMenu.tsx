@@ -0,0 +1,133 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Download } from 'lucide-react';
+import { ExportFormat, ExportOptions, ExportScope } from './whiteboardExport';
+
+interface ExportMenuProps {
+  // Selection lives in the whiteboard's refs, so it is read whenever the menu renders
+  getHasSelection: () => boolean;
+  onExport: (options: ExportOptions) => Promise<void>;
+}
+
+const SCOPES: { id: ExportScope; label: string }[] = [
+  { id: 'board', label: 'Whole board' },
+  { id: 'viewport', label: 'Current view' },
+  { id: 'selection', label: 'Selection' }
+];
+
+const PIXEL_RATIOS = [1, 2, 3];
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ getHasSelection, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('png');
+  const [scope, setScope] = useState<ExportScope>('board');
+  const [pixelRatio, setPixelRatio] = useState(2);
+  const [transparent, setTransparent] = useState(false);
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const hasSelection = getHasSelection();
+  // The selection can be gone by the time the menu is opened again
+  const activeScope = scope === 'selection' && !hasSelection ? 'board' : scope;
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    setError('');
+    try {
+      await onExport({ format, scope: activeScope, pixelRatio, transparent });
+      setIsOpen(false);
+    } catch (err) {
+      console.error('Error exporting board:', err);
+      setError(err instanceof Error ? err.message : 'The board could not be exported.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const chip = (isActive: boolean) =>
+    `flex-1 px-2 py-1.5 rounded-lg text-xs font-semibold transition disabled:opacity-30 ${isActive ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`;
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => { setIsOpen(!isOpen); setError(''); }}
+        className={`p-2 rounded-lg transition-all ${isOpen ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+        title="Export"
+      >
+        <Download className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-3 w-64 bg-white border border-slate-200 rounded-2xl shadow-xl p-3 space-y-3 animate-fade-in">
+          <div>
+            <div className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1.5">Area</div>
+            <div className="flex gap-1">
+              {SCOPES.map(({ id, label }) => (
+                <button
+                  key={id}
+                  onClick={() => setScope(id)}
+                  disabled={id === 'selection' && !hasSelection}
+                  className={chip(activeScope === id)}
+                  title={id === 'selection' && !hasSelection ? 'Ctrl+drag with the pan tool to select' : undefined}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1.5">Format</div>
+            <div className="flex gap-1">
+              <button onClick={() => setFormat('png')} className={chip(format === 'png')}>PNG</button>
+              <button onClick={() => setFormat('svg')} className={chip(format === 'svg')}>SVG</button>
+            </div>
+          </div>
+
+          {format === 'png' && (
+            <div>
+              <div className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1.5">Pixel ratio</div>
+              <div className="flex gap-1">
+                {PIXEL_RATIOS.map(ratio => (
+                  <button key={ratio} onClick={() => setPixelRatio(ratio)} className={chip(pixelRatio === ratio)}>
+                    {ratio}x
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <div className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1.5">Background</div>
+            <div className="flex gap-1">
+              <button onClick={() => setTransparent(false)} className={chip(!transparent)}>Board</button>
+              <button onClick={() => setTransparent(true)} className={chip(transparent)}>Transparent</button>
+            </div>
+          </div>
+
+          {error && <div className="text-xs text-rose-600">{error}</div>}
+
+          <button
+            onClick={handleExport}
+            disabled={isBusy}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-xl bg-slate-900 text-white text-xs font-bold hover:bg-slate-800 transition disabled:opacity-50"
+          >
+            <Download className="w-3.5 h-3.5" /> {isBusy ? 'Exporting...' : `Export ${format.toUpperCase()}`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+ExportMenu.displayName = 'ExportMenu';
@@ -0,0 +1,67 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ChevronDown, Link2 } from 'lucide-react';
+import { Trade } from '../../types';
+import { formatPercent } from '../../utils';
+
+interface LinkedTradesMenuProps {
+  trades: Trade[];
+  onOpenTrade: (trade: Trade) => void;
+}
+
+export const LinkedTradesMenu: React.FC<LinkedTradesMenuProps> = ({ trades, onOpenTrade }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const sorted = [...trades].sort((a, b) => new Date(b.entryDate).getTime() - new Date(a.entryDate).getTime());
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 bg-white/95 backdrop-blur-sm border border-slate-200 rounded-2xl shadow-lg px-4 py-3 text-sm font-semibold text-slate-800 hover:bg-white transition"
+        title="Trades linked to this board"
+      >
+        <Link2 className="w-4 h-4 text-slate-400" />
+        <span>{trades.length}</span>
+        <ChevronDown className={`w-4 h-4 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-2 w-72 bg-white border border-slate-200 rounded-2xl shadow-xl p-1.5 animate-fade-in">
+          {sorted.length === 0 ? (
+            <div className="px-3 py-3 text-xs text-slate-400">
+              No trades are linked yet. Link this board from a trade's page in the Journal.
+            </div>
+          ) : (
+            <div className="max-h-72 overflow-y-auto">
+              {sorted.map(trade => (
+                <button
+                  key={trade.id}
+                  onClick={() => { onOpenTrade(trade); setIsOpen(false); }}
+                  className="w-full flex items-center gap-2 rounded-xl px-3 py-2 text-left hover:bg-slate-50 transition"
+                >
+                  <span className="text-xs font-bold text-slate-800">{trade.ticker}</span>
+                  <span className={`text-[10px] font-semibold ${trade.direction === 'Long' ? 'text-green-600' : 'text-rose-600'}`}>{trade.direction}</span>
+                  <span className="flex-1 text-[10px] text-slate-400">{trade.date}</span>
+                  <span className={`text-xs font-semibold ${trade.pnl >= 0 ? 'text-green-600' : 'text-rose-500'}`}>{formatPercent(trade.pnl)}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+LinkedTradesMenu.displayName = 'LinkedTradesMenu';
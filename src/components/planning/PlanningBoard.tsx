@@ -1,13 +1,57 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { Whiteboard } from './Whiteboard';
+import { BoardSwitcher } from './BoardSwitcher';
+import { LinkedTradesMenu } from './LinkedTradesMenu';
+import { BoardsState } from '../../hooks/useBoards';
+import { BoardLink, Trade } from '../../types';
+
+interface PlanningBoardProps {
+  boardsState: BoardsState;
+  trades: Trade[];
+  openTradeDetail: (trade: Trade) => void;
+  // Set when a trade opens the board; cleared once another board is picked
+  focus?: BoardLink | null;
+  onFocusHandled: () => void;
+}
+
+export const PlanningBoard: React.FC<PlanningBoardProps> = ({ boardsState, trades, openTradeDetail, focus, onFocusHandled }) => {
+  const { boards, activeBoard, selectBoard, createBoard, renameBoard, duplicateBoard, deleteBoard, saveBoardContent } = boardsState;
+
+  useEffect(() => {
+    if (focus && activeBoard && focus.boardId !== activeBoard.id) onFocusHandled();
+  }, [activeBoard?.id]);
+
+  const linkedTrades = activeBoard
+    ? trades.filter(trade => trade.boardLinks?.some(link => link.boardId === activeBoard.id))
+    : [];
 
-export const PlanningBoard: React.FC = () => {
   return (
     <div className="fixed inset-0 w-full h-full bg-white">
-      <Whiteboard className="w-full h-full" />
+      {activeBoard && (
+        <Whiteboard
+          key={activeBoard.id}
+          className="w-full h-full"
+          board={activeBoard}
+          onSave={(content) => saveBoardContent(activeBoard.id, content)}
+          focusRegion={focus?.boardId === activeBoard.id ? focus.region : null}
+          boardControls={
+            <div className="flex items-start gap-2">
+              <BoardSwitcher
+                boards={boards}
+                activeBoard={activeBoard}
+                onSelect={selectBoard}
+                onCreate={() => createBoard()}
+                onRename={renameBoard}
+                onDuplicate={duplicateBoard}
+                onDelete={deleteBoard}
+              />
+              <LinkedTradesMenu trades={linkedTrades} onOpenTrade={openTradeDetail} />
+            </div>
+          }
+        />
+      )}
     </div>
   );
 };
 
 PlanningBoard.displayName = 'PlanningBoard';
-
@@ -1,23 +1,34 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { PenTool, Eraser, Move, Undo, Redo, Palette, Minus, Settings, X, ChevronDown, ChevronUp, Eye, EyeOff } from 'lucide-react';
+import { PenTool, Eraser, Move, Undo, Redo, Palette, Minus, Settings, X, ChevronDown, ChevronUp, Eye, EyeOff, Square, Circle, Slash, ArrowUpRight, SeparatorHorizontal, Type } from 'lucide-react';
 import { createPortal } from 'react-dom';
 import { DebouncedColorInput } from '../common/DebouncedColorInput';
+import { Board, BoardBackground, BoardElement, BoardRegion, Point, ShapeKind } from '../../types';
+import { BoardContent } from '../../utils/boardRepository';
+import { downloadBlob } from '../../utils';
+import { ExportMenu } from './ExportMenu';
+import { ExportOptions, exportFileName, getElementsBounds, renderBoardPng, renderBoardSvg } from './whiteboardExport';
+import { WorldBounds, drawBackground, drawElements, getTextFontSize, getViewRegion, isShape, isShapeTool, measureText, readImageFile } from './whiteboardElements';
 
 interface WhiteboardProps {
   className?: string;
+  // Content is read on mount only; remount (key by board id) to switch boards
+  board: Board;
+  onSave: (content: BoardContent) => void;
+  boardControls?: React.ReactNode;
+  // Area to bring into view, e.g. when opened from a linked trade; each new object re-centres
+  focusRegion?: BoardRegion | null;
 }
 
-interface Point {
-  x: number;
-  y: number;
-}
+type WhiteboardTool = 'pen' | 'eraser' | 'pan' | ShapeKind;
 
-interface Stroke {
-  points: Point[];
-  color: string;
-  size: number;
-  tool: 'pen' | 'eraser';
-}
+const SHAPE_BUTTONS: { id: ShapeKind; label: string; icon: React.ElementType }[] = [
+  { id: 'rect', label: 'Rectangle', icon: Square },
+  { id: 'ellipse', label: 'Ellipse', icon: Circle },
+  { id: 'line', label: 'Line', icon: Slash },
+  { id: 'arrow', label: 'Arrow', icon: ArrowUpRight },
+  { id: 'hline', label: 'Price Level', icon: SeparatorHorizontal },
+  { id: 'text', label: 'Text', icon: Type }
+];
 
 interface ShortcutConfig {
   key: string;
@@ -46,18 +57,20 @@ const DEFAULT_SHORTCUTS: Shortcuts = {
   hideUI: { key: 'h', ctrl: true }
 };
 
-export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
+export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "", board, onSave, boardControls, focusRegion }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const strokesRef = useRef<Stroke[]>([]);
-  const currentStrokeRef = useRef<Stroke | null>(null);
-  const transformRef = useRef({ scale: 1, offset: { x: 0, y: 0 } });
-  const historyRef = useRef<Stroke[][]>([]);
-  const redoHistoryRef = useRef<Stroke[][]>([]);
+  const strokesRef = useRef<BoardElement[]>([]);
+  const currentStrokeRef = useRef<BoardElement | null>(null);
+  const transformRef = useRef({ scale: board.transform.scale, offset: { ...board.transform.offset } });
+  const historyRef = useRef<BoardElement[][]>([]);
+  const redoHistoryRef = useRef<BoardElement[][]>([]);
   
   const [undoCount, setUndoCount] = useState(0);
   const [redoCount, setRedoCount] = useState(0);
-  const [tool, setTool] = useState<'pen' | 'eraser' | 'pan'>('pen');
+  const [tool, setTool] = useState<WhiteboardTool>('pen');
+  // Label being typed with the text tool, anchored at a world position
+  const [textDraft, setTextDraft] = useState<{ world: Point; screen: Point; value: string } | null>(null);
   const [color, setColor] = useState('#000000');
   const [size, setSize] = useState(3);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
@@ -83,7 +96,7 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
     return saved ? parseFloat(saved) : 0.001;
   });
   const [mousePosition, setMousePosition] = useState<{ x: number; y: number } | null>(null);
-  const [currentZoom, setCurrentZoom] = useState<number>(1);
+  const [currentZoom, setCurrentZoom] = useState<number>(board.transform.scale);
   const [displayPosition, setDisplayPosition] = useState<'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'>(() => {
     const saved = localStorage.getItem('whiteboard-display-position');
     return (saved as any) || 'bottom-right';
@@ -92,10 +105,7 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
     const saved = localStorage.getItem('whiteboard-display-size');
     return (saved as any) || 'medium';
   });
-  const [backgroundType, setBackgroundType] = useState<'solid' | 'grid' | 'dots'>(() => {
-    const saved = localStorage.getItem('whiteboard-background-type');
-    return (saved as 'solid' | 'grid' | 'dots') || 'solid';
-  });
+  const [backgroundType, setBackgroundType] = useState<BoardBackground>(board.background);
   const [showAdvancedSettings, setShowAdvancedSettings] = useState(false);
   const [isUIHidden, setIsUIHidden] = useState<boolean>(() => {
     const saved = localStorage.getItem('whiteboard-ui-hidden');
@@ -114,10 +124,19 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
   const resizeStartBoundsRef = useRef<{ minX: number; minY: number; maxX: number; maxY: number } | null>(null);
   const resizeStartMouseRef = useRef<Point | null>(null);
   const hoveredHandleRef = useRef<number | null>(null);
-  const originalStrokesForResizeRef = useRef<Map<number, Stroke>>(new Map());
+  const originalStrokesForResizeRef = useRef<Map<number, BoardElement>>(new Map());
   const lastMousePosRef = useRef({ x: 0, y: 0 });
   const requestRef = useRef<number | null>(null);
+  const saveTimeoutRef = useRef<number | null>(null);
+  const onSaveRef = useRef(onSave);
+  onSaveRef.current = onSave;
+  const backgroundTypeRef = useRef(backgroundType);
+  backgroundTypeRef.current = backgroundType;
   const isScheduledRef = useRef(false);
+  const imageLoadedRef = useRef(() => {});
+  const isMovingRef = useRef(false);
+  const moveStartRef = useRef<Point | null>(null);
+  const moveStartBoundsRef = useRef<{ minX: number; minY: number; maxX: number; maxY: number } | null>(null);
 
   const colors = ['#000000', '#FF0000', '#0000FF'];
 
@@ -152,146 +171,14 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
     // Apply transform for drawing
     ctx.setTransform(scale, 0, 0, scale, offset.x, offset.y);
     
-    // Draw background based on type
-    if (backgroundType === 'grid' || backgroundType === 'dots') {
-      const gridSize = 20; // Grid size in world coordinates
-      
-      // Calculate visible world bounds
-      // Convert canvas device pixels to world coordinates
-      // offset.x and offset.y are in device pixels
-      const worldLeft = (-offset.x) / scale;
-      const worldTop = (-offset.y) / scale;
-      const worldRight = (actualCanvasWidth - offset.x) / scale;
-      const worldBottom = (actualCanvasHeight - offset.y) / scale;
-      
-      // Add margin to ensure background covers entire visible area
-      const margin = gridSize * 2;
-      const gridLeft = Math.floor((worldLeft - margin) / gridSize) * gridSize;
-      const gridTop = Math.floor((worldTop - margin) / gridSize) * gridSize;
-      const gridRight = Math.ceil((worldRight + margin) / gridSize) * gridSize;
-      const gridBottom = Math.ceil((worldBottom + margin) / gridSize) * gridSize;
-      
-      if (backgroundType === 'grid') {
-        // Draw grid lines
-        ctx.strokeStyle = '#e2e8f0';
-        ctx.lineWidth = Math.max(0.5, 1 / scale); // Adjust line width based on scale, minimum 0.5
-        
-        // Draw vertical lines
-        for (let x = gridLeft; x <= gridRight; x += gridSize) {
-          ctx.beginPath();
-          ctx.moveTo(x, gridTop);
-          ctx.lineTo(x, gridBottom);
-          ctx.stroke();
-        }
-        
-        // Draw horizontal lines
-        for (let y = gridTop; y <= gridBottom; y += gridSize) {
-          ctx.beginPath();
-          ctx.moveTo(gridLeft, y);
-          ctx.lineTo(gridRight, y);
-          ctx.stroke();
-        }
-      } else if (backgroundType === 'dots') {
-        // Draw dot grid
-        ctx.fillStyle = '#cbd5e1';
-        const dotRadius = Math.max(0.5, 1 / scale); // Adjust dot size based on scale
-        
-        // Draw dots at grid intersections
-        for (let x = gridLeft; x <= gridRight; x += gridSize) {
-          for (let y = gridTop; y <= gridBottom; y += gridSize) {
-            ctx.beginPath();
-            ctx.arc(x, y, dotRadius, 0, Math.PI * 2);
-            ctx.fill();
-          }
-        }
-      }
-    }
-
-    const drawStroke = (stroke: Stroke, isSelected: boolean = false) => {
-        if (stroke.points.length === 0) return;
-        
-        if (stroke.tool === 'eraser') {
-            ctx.globalCompositeOperation = 'destination-out';
-        } else {
-            ctx.globalCompositeOperation = 'source-over';
-        }
-
-        // If only one point, draw a circle (dot)
-        if (stroke.points.length === 1) {
-            const point = stroke.points[0];
-            const radius = stroke.size / 2;
-            
-            // Draw selection highlight if selected
-            if (isSelected) {
-                ctx.beginPath();
-                ctx.fillStyle = 'rgba(59, 130, 246, 0.3)';
-                ctx.arc(point.x, point.y, radius + 4, 0, Math.PI * 2);
-                ctx.fill();
-                
-                ctx.beginPath();
-                ctx.strokeStyle = '#3b82f6';
-                ctx.lineWidth = 2;
-                ctx.arc(point.x, point.y, radius + 4, 0, Math.PI * 2);
-                ctx.stroke();
-            }
-            
-            ctx.beginPath();
-            ctx.fillStyle = stroke.tool === 'pen' ? stroke.color : '#FFFFFF';
-            ctx.arc(point.x, point.y, radius, 0, Math.PI * 2);
-            ctx.fill();
-        } else {
-            // Draw selection highlight if selected
-            if (isSelected) {
-                ctx.beginPath();
-                ctx.strokeStyle = '#3b82f6';
-                ctx.lineWidth = stroke.size + 6;
-                ctx.lineCap = 'round';
-                ctx.lineJoin = 'round';
-                ctx.globalAlpha = 0.3;
-                
-                ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
-                for (let i = 1; i < stroke.points.length; i++) {
-                    ctx.lineTo(stroke.points[i].x, stroke.points[i].y);
-                }
-                ctx.stroke();
-                ctx.globalAlpha = 1.0;
-                
-                ctx.beginPath();
-                ctx.strokeStyle = '#3b82f6';
-                ctx.lineWidth = 2;
-                ctx.lineCap = 'round';
-                ctx.lineJoin = 'round';
-                
-                ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
-                for (let i = 1; i < stroke.points.length; i++) {
-                    ctx.lineTo(stroke.points[i].x, stroke.points[i].y);
-                }
-                ctx.stroke();
-            }
-            
-            // Draw line for multiple points
-            ctx.beginPath();
-            ctx.strokeStyle = stroke.tool === 'pen' ? stroke.color : '#FFFFFF';
-            ctx.lineWidth = stroke.size;
-            ctx.lineCap = 'round';
-            ctx.lineJoin = 'round';
-
-            ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
-            for (let i = 1; i < stroke.points.length; i++) {
-                ctx.lineTo(stroke.points[i].x, stroke.points[i].y);
-            }
-            ctx.stroke();
-        }
-        
-        ctx.globalCompositeOperation = 'source-over';
-    };
+    const view = getViewRegion(transformRef.current, actualCanvasWidth, actualCanvasHeight);
+    const elements = currentStrokeRef.current ? [...strokesRef.current, currentStrokeRef.current] : strokesRef.current;
+    drawElements(ctx, elements, view, () => imageLoadedRef.current());
 
-    strokesRef.current.forEach((stroke) => {
-        drawStroke(stroke);
-    });
-    if (currentStrokeRef.current) {
-        drawStroke(currentStrokeRef.current);
-    }
+    // The background goes behind everything already drawn
+    ctx.globalCompositeOperation = 'destination-over';
+    drawBackground(ctx, backgroundType, view, scale);
+    ctx.globalCompositeOperation = 'source-over';
 
     // Draw selection rectangle if selecting
     if (isSelectingRef.current && selectionStartRef.current && selectionEndRef.current) {
@@ -384,6 +271,50 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
         });
     }
   }, [redraw]);
+  imageLoadedRef.current = scheduleRedraw;
+
+  const saveBoard = useCallback(() => {
+    const { scale, offset } = transformRef.current;
+    const canvas = canvasRef.current;
+    onSaveRef.current({
+      strokes: strokesRef.current.map(stroke => ({
+        ...stroke,
+        points: stroke.points.map(p => ({ ...p }))
+      })),
+      transform: {
+        scale,
+        offset: { ...offset },
+        ...(canvas && { viewport: { width: canvas.width, height: canvas.height } })
+      },
+      background: backgroundTypeRef.current
+    });
+  }, []);
+
+  // Strokes and the viewport live in refs, so every committed change asks for a save explicitly
+  const scheduleSave = useCallback(() => {
+    if (saveTimeoutRef.current !== null) window.clearTimeout(saveTimeoutRef.current);
+    saveTimeoutRef.current = window.setTimeout(() => {
+      saveTimeoutRef.current = null;
+      saveBoard();
+    }, 300);
+  }, [saveBoard]);
+
+  useEffect(() => {
+    // Copy, since strokes are edited in place while resizing
+    strokesRef.current = board.strokes.map(stroke => ({
+      ...stroke,
+      points: stroke.points.map(p => ({ ...p }))
+    }));
+    scheduleRedraw();
+
+    return () => {
+      // Flush a pending save instead of dropping the last change
+      if (saveTimeoutRef.current !== null) {
+        window.clearTimeout(saveTimeoutRef.current);
+        saveBoard();
+      }
+    };
+  }, []);
 
   const saveToHistory = useCallback(() => {
     // Save current state to history before making changes (deep copy)
@@ -419,6 +350,7 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
         if (previousState) {
             strokesRef.current = previousState;
             setUndoCount(historyRef.current.length);
+            scheduleSave();
             
             // Recalculate selection bounds if there are selected strokes
             if (selectedStrokesRef.current.size > 0) {
@@ -451,7 +383,7 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
             scheduleRedraw();
         }
     }
-  }, [scheduleRedraw]);
+  }, [scheduleRedraw, scheduleSave]);
 
   const handleRedo = useCallback(() => {
     if (redoHistoryRef.current.length > 0) {
@@ -471,6 +403,7 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
         if (nextState) {
             strokesRef.current = nextState;
             setRedoCount(redoHistoryRef.current.length);
+            scheduleSave();
             
             // Recalculate selection bounds if there are selected strokes
             if (selectedStrokesRef.current.size > 0) {
@@ -503,15 +436,16 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
             scheduleRedraw();
         }
     }
-  }, [scheduleRedraw]);
+  }, [scheduleRedraw, scheduleSave]);
 
   const clearCanvas = useCallback(() => {
     // Save current state to history before clearing
     saveToHistory();
     strokesRef.current = [];
     setUndoCount(historyRef.current.length);
+    scheduleSave();
     scheduleRedraw();
-  }, [scheduleRedraw, saveToHistory]);
+  }, [scheduleRedraw, saveToHistory, scheduleSave]);
 
   // Handle Resize
   useEffect(() => {
@@ -593,6 +527,7 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
         }
         
         scheduleRedraw();
+        scheduleSave();
       } else {
         // Pan
         const dpr = window.devicePixelRatio || 1;
@@ -609,6 +544,7 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
         }
 
         scheduleRedraw();
+        scheduleSave();
       }
     };
 
@@ -616,7 +552,34 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
     return () => {
         container.removeEventListener('wheel', handleWheel);
     };
-  }, [scheduleRedraw, zoomSpeed, showZoom]);
+  }, [scheduleRedraw, scheduleSave, zoomSpeed, showZoom]);
+
+  // Fit a requested region into the view
+  useEffect(() => {
+    if (!focusRegion) return;
+    const container = containerRef.current;
+    if (!container) return;
+
+    // The board may still be hidden on the first frame after switching tabs; it fills the window anyway
+    const rect = container.getBoundingClientRect();
+    const dpr = window.devicePixelRatio || 1;
+    const width = (rect.width || window.innerWidth) * dpr;
+    const height = (rect.height || window.innerHeight) * dpr;
+    const regionWidth = Math.max(1, focusRegion.maxX - focusRegion.minX);
+    const regionHeight = Math.max(1, focusRegion.maxY - focusRegion.minY);
+    const scale = Math.min(Math.max(0.1, Math.min(width / regionWidth, height / regionHeight) * 0.9), 10);
+
+    transformRef.current = {
+      scale,
+      offset: {
+        x: width / 2 - (focusRegion.minX + regionWidth / 2) * scale,
+        y: height / 2 - (focusRegion.minY + regionHeight / 2) * scale
+      }
+    };
+    setCurrentZoom(scale);
+    scheduleRedraw();
+    scheduleSave();
+  }, [focusRegion]);
 
   // Save shortcuts to localStorage
   useEffect(() => {
@@ -645,7 +608,7 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
   }, [displaySize]);
 
   useEffect(() => {
-    localStorage.setItem('whiteboard-background-type', backgroundType);
+    if (backgroundType !== board.background) scheduleSave();
   }, [backgroundType]);
 
   // Save UI hidden state to localStorage
@@ -675,6 +638,8 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
     if (canvas) {
       if (tool === 'pan') {
         canvas.style.cursor = 'grab';
+      } else if (tool === 'text') {
+        canvas.style.cursor = 'text';
       } else {
         canvas.style.cursor = 'crosshair';
       }
@@ -757,6 +722,10 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
       // Other shortcuts should not work when settings modal is open or capturing
       if (isSettingsOpen || capturingShortcut) return;
 
+      // Typing in a field (e.g. renaming a board) is not a shortcut
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
       // Check each shortcut
       if (matchesShortcut(shortcuts.undo)) {
         e.preventDefault();
@@ -802,6 +771,7 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
         selectedStrokesRef.current.clear();
         selectionBoundsRef.current = null;
         setUndoCount(historyRef.current.length);
+        scheduleSave();
         scheduleRedraw();
       }
     };
@@ -810,7 +780,7 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
     return () => {
       window.removeEventListener('keydown', handleKeyDown, { capture: true });
     };
-  }, [handleUndo, handleRedo, shortcuts, isSettingsOpen, capturingShortcut, clearCanvas, saveToHistory, scheduleRedraw]);
+  }, [handleUndo, handleRedo, shortcuts, isSettingsOpen, capturingShortcut, clearCanvas, saveToHistory, scheduleRedraw, scheduleSave]);
 
   useEffect(() => {
     if (capturingShortcut && captureInputRef.current) {
@@ -998,9 +968,16 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
   };
 
   // Check if stroke intersects with selection rectangle
-  const isStrokeInSelection = (stroke: Stroke, selectionStart: Point, selectionEnd: Point): boolean => {
+  const isStrokeInSelection = (stroke: BoardElement, selectionStart: Point, selectionEnd: Point): boolean => {
     if (stroke.points.length === 0) return false;
 
+    // Price levels span the whole board, so only their height matters
+    if (stroke.tool === 'hline') {
+      const y = stroke.points[0].y;
+      return y >= Math.min(selectionStart.y, selectionEnd.y) - stroke.size / 2 &&
+        y <= Math.max(selectionStart.y, selectionEnd.y) + stroke.size / 2;
+    }
+
     // Calculate bounding box of selection
     const selMinX = Math.min(selectionStart.x, selectionEnd.x);
     const selMaxX = Math.max(selectionStart.x, selectionEnd.x);
@@ -1065,6 +1042,28 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
         scheduleRedraw();
         return;
       }
+
+      // Dragging inside the selection with the pan tool moves it
+      const { minX, minY, maxX, maxY } = selectionBoundsRef.current;
+      if (tool === 'pan' && !isCtrlKey && worldPos.x >= minX && worldPos.x <= maxX && worldPos.y >= minY && worldPos.y <= maxY) {
+        e.preventDefault?.();
+        isMovingRef.current = true;
+        moveStartRef.current = worldPos;
+        moveStartBoundsRef.current = { ...selectionBoundsRef.current };
+        originalStrokesForResizeRef.current.clear();
+        selectedStrokesRef.current.forEach((index) => {
+          const stroke = strokesRef.current[index];
+          if (stroke) {
+            originalStrokesForResizeRef.current.set(index, {
+              ...stroke,
+              points: stroke.points.map(p => ({ ...p }))
+            });
+          }
+        });
+
+        saveToHistory();
+        return;
+      }
     }
     
     // Pan tool with Ctrl -> Selection
@@ -1100,9 +1099,24 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
 
     if (isMouseEvent && (e as React.MouseEvent).button !== 0) return;
 
-    isDrawingRef.current = true;
     const pos = getPointerPos(e);
     const worldPos = toWorldPos(pos);
+
+    if (tool === 'text') {
+        e.preventDefault?.();
+        if (textDraft) commitText();
+        const dpr = window.devicePixelRatio || 1;
+        setTextDraft({ world: worldPos, screen: { x: pos.x / dpr, y: pos.y / dpr }, value: '' });
+        return;
+    }
+
+    isDrawingRef.current = true;
+
+    if (isShapeTool(tool)) {
+        currentStrokeRef.current = { points: [worldPos, { ...worldPos }], color, size, tool };
+        scheduleRedraw();
+        return;
+    }
     
     currentStrokeRef.current = {
         points: [worldPos],
@@ -1245,6 +1259,19 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
       return;
     }
 
+    if (isMovingRef.current && moveStartRef.current && moveStartBoundsRef.current) {
+      const dx = worldPos.x - moveStartRef.current.x;
+      const dy = worldPos.y - moveStartRef.current.y;
+      originalStrokesForResizeRef.current.forEach((originalStroke, index) => {
+        const stroke = strokesRef.current[index];
+        if (stroke) stroke.points = originalStroke.points.map(p => ({ x: p.x + dx, y: p.y + dy }));
+      });
+      const { minX, minY, maxX, maxY } = moveStartBoundsRef.current;
+      selectionBoundsRef.current = { minX: minX + dx, minY: minY + dy, maxX: maxX + dx, maxY: maxY + dy };
+      scheduleRedraw();
+      return;
+    }
+
     if (isSelectingRef.current) {
         selectionEndRef.current = worldPos;
         scheduleRedraw();
@@ -1267,7 +1294,13 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
     }
 
     if (isDrawingRef.current && currentStrokeRef.current) {
-        currentStrokeRef.current.points.push(worldPos);
+        const current = currentStrokeRef.current;
+        if (isShape(current)) {
+            // Shapes are defined by their anchor and the pointer; price levels stay horizontal
+            current.points[1] = current.tool === 'hline' ? { x: worldPos.x, y: current.points[0].y } : worldPos;
+        } else {
+            current.points.push(worldPos);
+        }
         scheduleRedraw();
     }
   };
@@ -1306,6 +1339,17 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
           }
         }
         
+        scheduleSave();
+        scheduleRedraw();
+        return;
+    }
+
+    if (isMovingRef.current) {
+        isMovingRef.current = false;
+        moveStartRef.current = null;
+        moveStartBoundsRef.current = null;
+        originalStrokesForResizeRef.current.clear();
+        scheduleSave();
         scheduleRedraw();
         return;
     }
@@ -1362,30 +1406,182 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
 
     if (isPanningRef.current) {
         isPanningRef.current = false;
+        scheduleSave();
         return;
     }
 
     if (isDrawingRef.current && currentStrokeRef.current) {
         isDrawingRef.current = false;
+        const current = currentStrokeRef.current;
+        if (isShape(current)) {
+            const [start, end] = current.points;
+            const minSize = 2 / transformRef.current.scale;
+            if (current.tool === 'hline' && Math.abs(end.x - start.x) < minSize) {
+                // A click places the level; give it a grabbable anchor segment
+                current.points[1] = { x: start.x + 100 / transformRef.current.scale, y: start.y };
+            } else if (Math.abs(end.x - start.x) < minSize && Math.abs(end.y - start.y) < minSize) {
+                // A click without a drag draws nothing
+                currentStrokeRef.current = null;
+                scheduleRedraw();
+                return;
+            }
+        }
         if (currentStrokeRef.current.points.length > 0) {
             // Save current state to history before adding new stroke
             saveToHistory();
             strokesRef.current.push(currentStrokeRef.current);
             setUndoCount(historyRef.current.length);
+            scheduleSave();
         }
         currentStrokeRef.current = null;
         scheduleRedraw();
     }
   };
 
+  const commitText = () => {
+    if (!textDraft) return;
+    const text = textDraft.value.trim();
+    setTextDraft(null);
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!text || !ctx) return;
+
+    const fontSize = getTextFontSize(size);
+    const width = measureText(ctx, text, fontSize);
+    const { world } = textDraft;
+    saveToHistory();
+    strokesRef.current.push({
+        points: [world, { x: world.x + width, y: world.y + fontSize }],
+        color,
+        size,
+        tool: 'text',
+        text
+    });
+    setUndoCount(historyRef.current.length);
+    scheduleSave();
+    scheduleRedraw();
+  };
+
+  // Pictures land centred on the given canvas position, or in the middle of the view
+  const insertImages = useCallback(async (files: File[], canvasPos?: Point) => {
+    const canvas = canvasRef.current;
+    const imageFiles = files.filter(file => file.type.startsWith('image/'));
+    if (!canvas || imageFiles.length === 0) return;
+
+    const { scale, offset } = transformRef.current;
+    const anchor = canvasPos ?? { x: canvas.width / 2, y: canvas.height / 2 };
+    let center = { x: (anchor.x - offset.x) / scale, y: (anchor.y - offset.y) / scale };
+    // One world unit is one canvas pixel at 100% zoom; big screenshots are fitted into the view
+    const maxWidth = (canvas.width * 0.8) / scale;
+    const maxHeight = (canvas.height * 0.8) / scale;
+
+    for (const file of imageFiles) {
+      try {
+        const image = await readImageFile(file);
+        const fit = Math.min(1, maxWidth / image.width, maxHeight / image.height);
+        const width = image.width * fit;
+        const height = image.height * fit;
+        saveToHistory();
+        strokesRef.current.push({
+          points: [
+            { x: center.x - width / 2, y: center.y - height / 2 },
+            { x: center.x + width / 2, y: center.y + height / 2 }
+          ],
+          color: 'transparent',
+          size: 0,
+          tool: 'image',
+          src: image.src
+        });
+        setUndoCount(historyRef.current.length);
+        // Several files fan out instead of stacking exactly on top of each other
+        center = { x: center.x + 24 / scale, y: center.y + 24 / scale };
+      } catch (error) {
+        console.error('Error adding image to the board:', error);
+      }
+    }
+
+    scheduleSave();
+    scheduleRedraw();
+  }, [saveToHistory, scheduleSave, scheduleRedraw]);
+
+  // Paste screenshots straight from the clipboard
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      // The board stays mounted on other tabs; only take pastes while it is on screen
+      const container = containerRef.current;
+      if (!container || container.getClientRects().length === 0) return;
+
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      const files = Array.from(e.clipboardData?.files || []).filter(file => file.type.startsWith('image/'));
+      if (files.length === 0) return;
+      e.preventDefault();
+      insertImages(files);
+    };
+
+    window.addEventListener('paste', handlePaste);
+    return () => {
+      window.removeEventListener('paste', handlePaste);
+    };
+  }, [insertImages]);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const rect = canvas.getBoundingClientRect();
+    const dpr = window.devicePixelRatio || 1;
+    insertImages(Array.from(e.dataTransfer.files), {
+      x: (e.clientX - rect.left) * dpr,
+      y: (e.clientY - rect.top) * dpr
+    });
+  };
+
+  const exportBoard = async ({ format, scope, pixelRatio, transparent }: ExportOptions) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    let elements = strokesRef.current;
+    let bounds: WorldBounds | null;
+    if (scope === 'viewport') {
+      bounds = getViewRegion(transformRef.current, canvas.width, canvas.height);
+    } else {
+      if (scope === 'selection') {
+        // Keep drawing order so erasers still only cut what came before them
+        elements = Array.from(selectedStrokesRef.current)
+          .sort((a, b) => a - b)
+          .map(index => strokesRef.current[index])
+          .filter(Boolean);
+      }
+      bounds = getElementsBounds(elements);
+    }
+    if (!bounds) throw new Error(scope === 'selection' ? 'Nothing is selected.' : 'The board is empty.');
+
+    const background = transparent ? null : backgroundType;
+    const fileName = exportFileName(board.name, scope, format);
+    if (format === 'svg') {
+      downloadBlob(new Blob([renderBoardSvg(elements, bounds, background)], { type: 'image/svg+xml' }), fileName);
+    } else {
+      downloadBlob(await renderBoardPng(elements, bounds, background, pixelRatio), fileName);
+    }
+  };
+
   const resetView = () => {
     transformRef.current = { scale: 1, offset: { x: 0, y: 0 } };
     scheduleRedraw();
+    scheduleSave();
     setTick(t => t + 1);
   };
 
   return (
-    <div ref={containerRef} className={`relative w-full h-full bg-white overflow-hidden ${className}`}>
+    <div
+      ref={containerRef}
+      className={`relative w-full h-full bg-white overflow-hidden ${className}`}
+      onDragOver={(e) => {
+        if (e.dataTransfer.types.includes('Files')) e.preventDefault();
+      }}
+      onDrop={handleDrop}
+    >
       <canvas
         ref={canvasRef}
         className="absolute inset-0 block touch-none w-full h-full"
@@ -1403,6 +1599,34 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
         onTouchEnd={handleEnd}
       />
 
+      {boardControls && !isUIHidden && (
+        <div className="absolute top-4 left-4 z-20">
+          {boardControls}
+        </div>
+      )}
+
+      {textDraft && (
+        <input
+          autoFocus
+          value={textDraft.value}
+          onChange={e => setTextDraft({ ...textDraft, value: e.target.value })}
+          onKeyDown={e => {
+            if (e.key === 'Enter') commitText();
+            if (e.key === 'Escape') setTextDraft(null);
+          }}
+          onBlur={commitText}
+          className="absolute z-20 bg-transparent border-b border-dashed border-slate-400 outline-none font-semibold p-0"
+          style={{
+            left: textDraft.screen.x,
+            top: textDraft.screen.y,
+            color,
+            fontSize: getTextFontSize(size) * transformRef.current.scale / (window.devicePixelRatio || 1),
+            lineHeight: 1,
+            minWidth: 40
+          }}
+        />
+      )}
+
       {/* Toolbar */}
       {!isUIHidden && (
       <div className="absolute top-4 left-1/2 transform -translate-x-1/2 z-10 bg-white/95 backdrop-blur-sm border border-slate-200 rounded-2xl shadow-lg p-3 flex items-center gap-2">
@@ -1415,6 +1639,14 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
         <button onClick={() => setTool('pan')} className={`p-2 rounded-lg transition-all ${tool === 'pan' ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`} title="Pan Tool">
             <Move className="w-4 h-4" />
         </button>
+
+        <div className="w-px h-6 bg-slate-300"></div>
+
+        {SHAPE_BUTTONS.map(({ id, label, icon: Icon }) => (
+            <button key={id} onClick={() => setTool(id)} className={`p-2 rounded-lg transition-all ${tool === id ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`} title={label}>
+                <Icon className="w-4 h-4" />
+            </button>
+        ))}
         
         <div className="w-px h-6 bg-slate-300"></div>
         
@@ -1461,6 +1693,7 @@ export const Whiteboard: React.FC<WhiteboardProps> = ({ className = "" }) => {
         <button onClick={clearCanvas} className="p-2 rounded-lg bg-slate-100 text-slate-600 hover:bg-rose-100 hover:text-rose-600" title="Clear">
             <Minus className="w-4 h-4" />
         </button>
+        <ExportMenu getHasSelection={() => selectedStrokesRef.current.size > 0} onExport={exportBoard} />
         
         <div className="w-px h-6 bg-slate-300"></div>
         
@@ -0,0 +1,344 @@
+import { BoardBackground, BoardElement, BoardImage, BoardTransform, Point, Shape, ShapeKind, Stroke } from '../../types';
+
+export const SHAPE_TOOLS: ShapeKind[] = ['rect', 'ellipse', 'line', 'arrow', 'hline', 'text'];
+
+export const TEXT_FONT_FAMILY = 'ui-sans-serif, system-ui, -apple-system, sans-serif';
+
+// Board paper and the pattern drawn on it, in world units
+export const BOARD_COLOR = '#ffffff';
+export const GRID_SIZE = 20;
+export const GRID_LINE_COLOR = '#e2e8f0';
+export const GRID_DOT_COLOR = '#cbd5e1';
+
+export interface WorldBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export const isShapeTool = (tool: string): tool is ShapeKind => SHAPE_TOOLS.includes(tool as ShapeKind);
+
+export const isShape = (element: BoardElement): element is Shape => isShapeTool(element.tool);
+
+export const isImage = (element: BoardElement): element is BoardImage => element.tool === 'image';
+
+// Labels scale with the brush size so one slider controls both
+export const getTextFontSize = (size: number) => 12 + size * 2;
+
+const getBox = (shape: Shape | BoardImage) => {
+  const [start, end = start] = shape.points;
+  return {
+    start,
+    end,
+    minX: Math.min(start.x, end.x),
+    minY: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y)
+  };
+};
+
+/** The two barb ends of an arrow pointing at `to`. */
+export const getArrowHead = (from: Point, to: Point, size: number): [Point, Point] => {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const headLength = Math.max(10, size * 4);
+  return [
+    { x: to.x - headLength * Math.cos(angle - Math.PI / 6), y: to.y - headLength * Math.sin(angle - Math.PI / 6) },
+    { x: to.x - headLength * Math.cos(angle + Math.PI / 6), y: to.y - headLength * Math.sin(angle + Math.PI / 6) }
+  ];
+};
+
+const drawArrowHead = (ctx: CanvasRenderingContext2D, from: Point, to: Point, size: number) => {
+  const [left, right] = getArrowHead(from, to, size);
+  ctx.beginPath();
+  ctx.moveTo(to.x, to.y);
+  ctx.lineTo(left.x, left.y);
+  ctx.moveTo(to.x, to.y);
+  ctx.lineTo(right.x, right.y);
+  ctx.stroke();
+};
+
+/** Freehand pen or eraser stroke in world coordinates. */
+export const drawStroke = (ctx: CanvasRenderingContext2D, stroke: Stroke, isSelected: boolean = false) => {
+  if (stroke.points.length === 0) return;
+
+  if (stroke.tool === 'eraser') {
+    ctx.globalCompositeOperation = 'destination-out';
+  } else {
+    ctx.globalCompositeOperation = 'source-over';
+  }
+
+  // If only one point, draw a circle (dot)
+  if (stroke.points.length === 1) {
+    const point = stroke.points[0];
+    const radius = stroke.size / 2;
+
+    // Draw selection highlight if selected
+    if (isSelected) {
+      ctx.beginPath();
+      ctx.fillStyle = 'rgba(59, 130, 246, 0.3)';
+      ctx.arc(point.x, point.y, radius + 4, 0, Math.PI * 2);
+      ctx.fill();
+
+      ctx.beginPath();
+      ctx.strokeStyle = '#3b82f6';
+      ctx.lineWidth = 2;
+      ctx.arc(point.x, point.y, radius + 4, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+
+    ctx.beginPath();
+    ctx.fillStyle = stroke.tool === 'pen' ? stroke.color : '#FFFFFF';
+    ctx.arc(point.x, point.y, radius, 0, Math.PI * 2);
+    ctx.fill();
+  } else {
+    // Draw selection highlight if selected
+    if (isSelected) {
+      ctx.beginPath();
+      ctx.strokeStyle = '#3b82f6';
+      ctx.lineWidth = stroke.size + 6;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      ctx.globalAlpha = 0.3;
+
+      ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
+      for (let i = 1; i < stroke.points.length; i++) {
+        ctx.lineTo(stroke.points[i].x, stroke.points[i].y);
+      }
+      ctx.stroke();
+      ctx.globalAlpha = 1.0;
+
+      ctx.beginPath();
+      ctx.strokeStyle = '#3b82f6';
+      ctx.lineWidth = 2;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+
+      ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
+      for (let i = 1; i < stroke.points.length; i++) {
+        ctx.lineTo(stroke.points[i].x, stroke.points[i].y);
+      }
+      ctx.stroke();
+    }
+
+    // Draw line for multiple points
+    ctx.beginPath();
+    ctx.strokeStyle = stroke.tool === 'pen' ? stroke.color : '#FFFFFF';
+    ctx.lineWidth = stroke.size;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
+    for (let i = 1; i < stroke.points.length; i++) {
+      ctx.lineTo(stroke.points[i].x, stroke.points[i].y);
+    }
+    ctx.stroke();
+  }
+
+  ctx.globalCompositeOperation = 'source-over';
+};
+
+/**
+ * Draws a shape in world coordinates (the caller has applied the view transform).
+ * `view` is the visible world area, used by price levels that span the whole board.
+ */
+export const drawShape = (ctx: CanvasRenderingContext2D, shape: Shape, view: WorldBounds) => {
+  const { start, end, minX, minY, width, height } = getBox(shape);
+
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.strokeStyle = shape.color;
+  ctx.fillStyle = shape.color;
+  ctx.lineWidth = shape.size;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.beginPath();
+
+  switch (shape.tool) {
+    case 'rect':
+      ctx.rect(minX, minY, width, height);
+      ctx.stroke();
+      break;
+    case 'ellipse':
+      ctx.ellipse(minX + width / 2, minY + height / 2, width / 2, height / 2, 0, 0, Math.PI * 2);
+      ctx.stroke();
+      break;
+    case 'line':
+    case 'arrow':
+      ctx.moveTo(start.x, start.y);
+      ctx.lineTo(end.x, end.y);
+      ctx.stroke();
+      if (shape.tool === 'arrow') drawArrowHead(ctx, start, end, shape.size);
+      break;
+    case 'hline':
+      ctx.moveTo(view.minX, start.y);
+      ctx.lineTo(view.maxX, start.y);
+      ctx.stroke();
+      break;
+    case 'text':
+      // The box height is the font size, so resizing the selection resizes the label
+      ctx.font = `600 ${Math.max(1, height)}px ${TEXT_FONT_FAMILY}`;
+      ctx.textBaseline = 'top';
+      ctx.fillText(shape.text || '', minX, minY, Math.max(1, width));
+      break;
+  }
+};
+
+/**
+ * Draws strokes and shapes in order (erasers cut into what came before them), then
+ * slides pictures in underneath so they are never erased or painted over.
+ */
+export const drawElements = (
+  ctx: CanvasRenderingContext2D,
+  elements: BoardElement[],
+  view: WorldBounds,
+  onImageLoad: () => void
+) => {
+  elements.forEach(element => {
+    if (isImage(element)) return;
+    if (isShape(element)) drawShape(ctx, element, view);
+    else drawStroke(ctx, element);
+  });
+
+  ctx.globalCompositeOperation = 'destination-over';
+  const images = elements.filter(isImage);
+  for (let i = images.length - 1; i >= 0; i--) {
+    drawBoardImage(ctx, images[i], onImageLoad);
+  }
+  ctx.globalCompositeOperation = 'source-over';
+};
+
+/** Grid lines or dots covering `view`; `scale` keeps them about one pixel thin at any zoom. */
+export const drawBackground = (ctx: CanvasRenderingContext2D, background: BoardBackground, view: WorldBounds, scale: number) => {
+  if (background !== 'grid' && background !== 'dots') return;
+
+  // Add margin to ensure background covers entire visible area
+  const margin = GRID_SIZE * 2;
+  const gridLeft = Math.floor((view.minX - margin) / GRID_SIZE) * GRID_SIZE;
+  const gridTop = Math.floor((view.minY - margin) / GRID_SIZE) * GRID_SIZE;
+  const gridRight = Math.ceil((view.maxX + margin) / GRID_SIZE) * GRID_SIZE;
+  const gridBottom = Math.ceil((view.maxY + margin) / GRID_SIZE) * GRID_SIZE;
+
+  if (background === 'grid') {
+    ctx.strokeStyle = GRID_LINE_COLOR;
+    ctx.lineWidth = Math.max(0.5, 1 / scale); // Adjust line width based on scale, minimum 0.5
+
+    for (let x = gridLeft; x <= gridRight; x += GRID_SIZE) {
+      ctx.beginPath();
+      ctx.moveTo(x, gridTop);
+      ctx.lineTo(x, gridBottom);
+      ctx.stroke();
+    }
+    for (let y = gridTop; y <= gridBottom; y += GRID_SIZE) {
+      ctx.beginPath();
+      ctx.moveTo(gridLeft, y);
+      ctx.lineTo(gridRight, y);
+      ctx.stroke();
+    }
+  } else {
+    ctx.fillStyle = GRID_DOT_COLOR;
+    const dotRadius = Math.max(0.5, 1 / scale); // Adjust dot size based on scale
+
+    for (let x = gridLeft; x <= gridRight; x += GRID_SIZE) {
+      for (let y = gridTop; y <= gridBottom; y += GRID_SIZE) {
+        ctx.beginPath();
+        ctx.arc(x, y, dotRadius, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+  }
+};
+
+/** Width of a label in world units, used to size its box when it is created. */
+export const measureText = (ctx: CanvasRenderingContext2D, text: string, fontSize: number) => {
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.font = `600 ${fontSize}px ${TEXT_FONT_FAMILY}`;
+  const width = ctx.measureText(text).width;
+  ctx.restore();
+  return width;
+};
+
+// Longest side, in pixels, kept for a pasted picture; larger ones are scaled down before they are stored
+const MAX_IMAGE_SIDE = 2048;
+
+// Decoded pictures shared by every board, keyed by their data URL
+const imageCache = new Map<string, HTMLImageElement>();
+
+const getImage = (src: string) => {
+  let image = imageCache.get(src);
+  if (!image) {
+    image = new Image();
+    image.src = src;
+    imageCache.set(src, image);
+  }
+  return image;
+};
+
+/** Resolves once a picture has decoded (or failed to), so exports never contain placeholders. */
+export const loadBoardImage = (src: string) => new Promise<void>(resolve => {
+  const image = getImage(src);
+  if (image.complete) {
+    resolve();
+    return;
+  }
+  image.addEventListener('load', () => resolve(), { once: true });
+  image.addEventListener('error', () => resolve(), { once: true });
+});
+
+/**
+ * Draws a picture into its box in world coordinates. While it is still decoding a
+ * placeholder is drawn instead and `onLoad` is called once it can be painted.
+ */
+export const drawBoardImage = (ctx: CanvasRenderingContext2D, element: BoardImage, onLoad: () => void) => {
+  const { minX, minY, width, height } = getBox(element);
+  const image = getImage(element.src);
+
+  if (image.complete && image.naturalWidth > 0) {
+    ctx.drawImage(image, minX, minY, width, height);
+  } else {
+    if (!image.complete) image.addEventListener('load', onLoad, { once: true });
+    ctx.fillStyle = '#f1f5f9';
+    ctx.fillRect(minX, minY, width, height);
+  }
+};
+
+export interface LoadedImage {
+  src: string;
+  width: number;
+  height: number;
+}
+
+/** Reads an image file into a data URL, downscaling very large screenshots. */
+export const readImageFile = (file: File): Promise<LoadedImage> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onerror = () => reject(new Error(`Could not read ${file.name || 'the image'}.`));
+  reader.onload = () => {
+    const dataUrl = reader.result as string;
+    const image = new Image();
+    image.onerror = () => reject(new Error(`${file.name || 'The file'} is not a supported image.`));
+    image.onload = () => {
+      const ratio = Math.min(1, MAX_IMAGE_SIDE / Math.max(image.naturalWidth, image.naturalHeight));
+      const width = Math.round(image.naturalWidth * ratio);
+      const height = Math.round(image.naturalHeight * ratio);
+      if (ratio === 1) {
+        resolve({ src: dataUrl, width, height });
+        return;
+      }
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      canvas.getContext('2d')?.drawImage(image, 0, 0, width, height);
+      resolve({ src: canvas.toDataURL(file.type === 'image/jpeg' ? 'image/jpeg' : 'image/png'), width, height });
+    };
+    image.src = dataUrl;
+  };
+  reader.readAsDataURL(file);
+});
+
+/** World area shown by a viewport of the given size (in canvas pixels) under `transform`. */
+export const getViewRegion = (transform: BoardTransform, width: number, height: number): WorldBounds => ({
+  minX: -transform.offset.x / transform.scale,
+  minY: -transform.offset.y / transform.scale,
+  maxX: (width - transform.offset.x) / transform.scale,
+  maxY: (height - transform.offset.y) / transform.scale
+});
@@ -0,0 +1,209 @@
+import { BoardBackground, BoardElement, Point, Shape, Stroke } from '../../types';
+import {
+  BOARD_COLOR,
+  GRID_DOT_COLOR,
+  GRID_LINE_COLOR,
+  GRID_SIZE,
+  TEXT_FONT_FAMILY,
+  WorldBounds,
+  drawBackground,
+  drawElements,
+  getArrowHead,
+  isImage,
+  isShape,
+  loadBoardImage
+} from './whiteboardElements';
+
+export type ExportFormat = 'png' | 'svg';
+export type ExportScope = 'board' | 'viewport' | 'selection';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  scope: ExportScope;
+  // PNG pixels per world unit (1 = the board at 100% zoom)
+  pixelRatio: number;
+  transparent: boolean;
+}
+
+// Breathing room around the drawing when the whole board or a selection is exported, in world units
+const EXPORT_PADDING = 24;
+// Browsers refuse to allocate canvases much larger than this on a side
+const MAX_CANVAS_SIDE = 16384;
+
+/** Box around the given elements plus some padding, or null when there is nothing to export. */
+export const getElementsBounds = (elements: BoardElement[]): WorldBounds | null => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  elements.forEach(element => {
+    const halfSize = element.size / 2;
+    element.points.forEach(point => {
+      minX = Math.min(minX, point.x - halfSize);
+      minY = Math.min(minY, point.y - halfSize);
+      maxX = Math.max(maxX, point.x + halfSize);
+      maxY = Math.max(maxY, point.y + halfSize);
+    });
+  });
+
+  if (minX === Infinity) return null;
+  return {
+    minX: minX - EXPORT_PADDING,
+    minY: minY - EXPORT_PADDING,
+    maxX: maxX + EXPORT_PADDING,
+    maxY: maxY + EXPORT_PADDING
+  };
+};
+
+/**
+ * Renders the elements inside `bounds` to a PNG. A null background leaves
+ * the image transparent; otherwise the board paper and its pattern are included.
+ */
+export const renderBoardPng = async (
+  elements: BoardElement[],
+  bounds: WorldBounds,
+  background: BoardBackground | null,
+  pixelRatio: number
+): Promise<Blob> => {
+  // Pictures must be decoded before they can be painted
+  await Promise.all(elements.filter(isImage).map(element => loadBoardImage(element.src)));
+
+  const width = bounds.maxX - bounds.minX;
+  const height = bounds.maxY - bounds.minY;
+  const ratio = Math.min(pixelRatio, MAX_CANVAS_SIDE / width, MAX_CANVAS_SIDE / height);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * ratio));
+  canvas.height = Math.max(1, Math.round(height * ratio));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('This browser cannot render the export.');
+
+  ctx.setTransform(ratio, 0, 0, ratio, -bounds.minX * ratio, -bounds.minY * ratio);
+  drawElements(ctx, elements, bounds, () => {});
+
+  if (background) {
+    ctx.globalCompositeOperation = 'destination-over';
+    drawBackground(ctx, background, bounds, ratio);
+    ctx.fillStyle = BOARD_COLOR;
+    ctx.fillRect(bounds.minX, bounds.minY, width, height);
+    ctx.globalCompositeOperation = 'source-over';
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) resolve(blob);
+      else reject(new Error('The image is too large to export.'));
+    }, 'image/png');
+  });
+};
+
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const pathData = (points: Point[]) =>
+  points.map((p, i) => `${i === 0 ? 'M' : 'L'}${num(p.x)} ${num(p.y)}`).join(' ');
+
+const lineAttributes = (color: string, size: number) =>
+  `fill="none" stroke="${escapeXml(color)}" stroke-width="${num(size)}" stroke-linecap="round" stroke-linejoin="round"`;
+
+const strokeToSvg = (stroke: Stroke, color: string) => {
+  if (stroke.points.length === 1) {
+    const [point] = stroke.points;
+    return `<circle cx="${num(point.x)}" cy="${num(point.y)}" r="${num(stroke.size / 2)}" fill="${escapeXml(color)}"/>`;
+  }
+  return `<path d="${pathData(stroke.points)}" ${lineAttributes(color, stroke.size)}/>`;
+};
+
+const shapeToSvg = (shape: Shape, bounds: WorldBounds) => {
+  const [start, end = start] = shape.points;
+  const minX = Math.min(start.x, end.x);
+  const minY = Math.min(start.y, end.y);
+  const width = Math.abs(end.x - start.x);
+  const height = Math.abs(end.y - start.y);
+  const attributes = lineAttributes(shape.color, shape.size);
+
+  switch (shape.tool) {
+    case 'rect':
+      return `<rect x="${num(minX)}" y="${num(minY)}" width="${num(width)}" height="${num(height)}" ${attributes}/>`;
+    case 'ellipse':
+      return `<ellipse cx="${num(minX + width / 2)}" cy="${num(minY + height / 2)}" rx="${num(width / 2)}" ry="${num(height / 2)}" ${attributes}/>`;
+    case 'line':
+      return `<path d="${pathData([start, end])}" ${attributes}/>`;
+    case 'arrow': {
+      const [left, right] = getArrowHead(start, end, shape.size);
+      return `<path d="${pathData([start, end])} ${pathData([left, end, right])}" ${attributes}/>`;
+    }
+    case 'hline':
+      return `<path d="${pathData([{ x: bounds.minX, y: start.y }, { x: bounds.maxX, y: start.y }])}" ${attributes}/>`;
+    case 'text':
+      return `<text x="${num(minX)}" y="${num(minY)}" font-family="${TEXT_FONT_FAMILY}" font-weight="600" font-size="${num(Math.max(1, height))}" ` +
+        `dominant-baseline="text-before-edge" textLength="${num(Math.max(1, width))}" lengthAdjust="spacingAndGlyphs" fill="${escapeXml(shape.color)}">` +
+        `${escapeXml(shape.text || '')}</text>`;
+  }
+};
+
+/**
+ * Builds an SVG with strokes as paths. Each eraser stroke becomes a mask over
+ * everything drawn before it, matching how the canvas erases.
+ */
+export const renderBoardSvg = (elements: BoardElement[], bounds: WorldBounds, background: BoardBackground | null): string => {
+  const width = bounds.maxX - bounds.minX;
+  const height = bounds.maxY - bounds.minY;
+  const area = `x="${num(bounds.minX)}" y="${num(bounds.minY)}" width="${num(width)}" height="${num(height)}"`;
+  const defs: string[] = [];
+  let content = '';
+
+  elements.forEach(element => {
+    if (isImage(element)) return;
+    if (isShape(element)) {
+      content += shapeToSvg(element, bounds);
+    } else if (element.tool === 'eraser') {
+      const id = `erase-${defs.length}`;
+      defs.push(`<mask id="${id}" maskUnits="userSpaceOnUse" ${area}><rect ${area} fill="white"/>${strokeToSvg(element, 'black')}</mask>`);
+      content = `<g mask="url(#${id})">${content}</g>`;
+    } else {
+      content += strokeToSvg(element, element.color);
+    }
+  });
+
+  const images = elements.filter(isImage).map(image => {
+    const [start, end = start] = image.points;
+    return `<image href="${escapeXml(image.src)}" x="${num(Math.min(start.x, end.x))}" y="${num(Math.min(start.y, end.y))}" ` +
+      `width="${num(Math.abs(end.x - start.x))}" height="${num(Math.abs(end.y - start.y))}" preserveAspectRatio="none"/>`;
+  });
+
+  let paper = '';
+  if (background) {
+    paper = `<rect ${area} fill="${BOARD_COLOR}"/>`;
+    if (background === 'grid') {
+      defs.push(`<pattern id="board-grid" width="${GRID_SIZE}" height="${GRID_SIZE}" patternUnits="userSpaceOnUse">` +
+        `<path d="M${GRID_SIZE} 0 L0 0 L0 ${GRID_SIZE}" fill="none" stroke="${GRID_LINE_COLOR}" stroke-width="1"/></pattern>`);
+      paper += `<rect ${area} fill="url(#board-grid)"/>`;
+    } else if (background === 'dots') {
+      // Tiles are shifted by half a cell so each dot sits whole in the middle of one
+      defs.push(`<pattern id="board-dots" x="${-GRID_SIZE / 2}" y="${-GRID_SIZE / 2}" width="${GRID_SIZE}" height="${GRID_SIZE}" patternUnits="userSpaceOnUse">` +
+        `<circle cx="${GRID_SIZE / 2}" cy="${GRID_SIZE / 2}" r="1" fill="${GRID_DOT_COLOR}"/></pattern>`);
+      paper += `<rect ${area} fill="url(#board-dots)"/>`;
+    }
+  }
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(width)}" height="${num(height)}" viewBox="${num(bounds.minX)} ${num(bounds.minY)} ${num(width)} ${num(height)}">`,
+    defs.length > 0 ? `<defs>${defs.join('')}</defs>` : '',
+    paper,
+    images.join(''),
+    `<g>${content}</g>`,
+    '</svg>'
+  ].join('\n');
+};
+
+export const exportFileName = (boardName: string, scope: ExportScope, format: ExportFormat) => {
+  const slug = boardName.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'board';
+  return `${slug}${scope === 'board' ? '' : `-${scope}`}.${format}`;
+};
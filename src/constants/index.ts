@@ -1,12 +1,50 @@
-import { Trader } from '../types';
+import { Account, CustomFieldType, SessionConfig, TagColor, TagGroupDefinition, Trade, Trader } from '../types';
 
 export const STORAGE_KEYS = {
   TRADES: 'garden_trades_final_17',
   BG_CONFIG: 'aethelir_bg_config_v6',
   BLOCKS: 'aethelir_blocks_v3',
+  // Strokes of the single pre-boards whiteboard, only read to migrate them into a board
   WHITEBOARD: 'aethelir_whiteboard_v1',
+  LAYOUT: 'aethelir_layout_v1',
+  NAV_POSITION: 'aethelir_nav_position',
+  // Layout of the Journal before saved views, only read to migrate it into the first view
+  JOURNAL_VIEW: 'aethelir_journal_view_v1',
+  JOURNAL_VIEWS: 'aethelir_journal_views_v1',
+  ACTIVE_BOARD: 'aethelir_active_board',
+  ACTIVE_ACCOUNT: 'aethelir_active_account',
+  CUSTOM_FIELDS: 'aethelir_custom_fields_v1',
+  TAG_GROUPS: 'aethelir_tag_groups_v1',
+  SESSIONS: 'aethelir_sessions_v1',
+  // IANA name such as 'Europe/London'; empty follows the browser's timezone
+  TIMEZONE: 'aethelir_timezone_v1',
 } as const;
 
+// Every generation of the old localStorage journal key shares this prefix
+export const LEGACY_TRADES_KEY_PREFIX = 'garden_trades_final_';
+
+export const DB_CONFIG = {
+  NAME: 'aethelir_journal',
+  VERSION: 3,
+  STORES: {
+    TRADES: 'trades',
+    META: 'meta',
+    BOARDS: 'boards',
+    ACCOUNTS: 'accounts',
+  },
+} as const;
+
+// Every journal has this account; trades from before accounts existed belong to it
+export const DEFAULT_ACCOUNT_ID = 1;
+
+export const DEFAULT_ACCOUNT: Omit<Account, 'createdAt' | 'updatedAt'> = {
+  id: DEFAULT_ACCOUNT_ID,
+  name: 'Main Account',
+  currency: 'USD',
+  startingBalance: 10000,
+  cashFlows: []
+};
+
 export const DEFAULT_TRADERS: Trader[] = [
   { id: 1, name: 'Tori (You)', initials: 'ME', winrate: 68, pnl: 42.5, trades: 142, rr: '1:2.4', pf: 2.1, isFunded: true },
   { id: 2, name: 'Sarah_Trade', initials: 'ST', winrate: 74, pnl: 125.2, trades: 310, rr: '1:1.8', pf: 2.8, isFunded: false },
@@ -21,3 +59,54 @@ export const DEFAULT_TRADE = {
   risk: 1.0
 };
 
+// Execution inputs shared by the new-trade modal and the trade page
+export const EXECUTION_FIELDS: { key: 'entryPrice' | 'exitPrice' | 'stopLoss' | 'takeProfit' | 'quantity' | 'fees' | 'leverage'; label: string; placeholder: string }[] = [
+  { key: 'entryPrice', label: 'Entry Price', placeholder: '0.00' },
+  { key: 'exitPrice', label: 'Exit Price', placeholder: '0.00' },
+  { key: 'stopLoss', label: 'Stop Loss', placeholder: '0.00' },
+  { key: 'takeProfit', label: 'Take Profit', placeholder: '0.00' },
+  { key: 'quantity', label: 'Size', placeholder: '0' },
+  { key: 'fees', label: 'Fees', placeholder: '0.00' },
+  { key: 'leverage', label: 'Leverage', placeholder: '1' }
+];
+
+// Groups a new journal starts with; trades tagged before groups were editable use these ids
+export const DEFAULT_TAG_GROUPS: TagGroupDefinition[] = [
+  { id: 'setup', label: 'Setup', color: 'blue' },
+  { id: 'mistake', label: 'Mistake', color: 'rose' },
+  { id: 'emotion', label: 'Emotion', color: 'amber' },
+  { id: 'market', label: 'Market Condition', color: 'violet' }
+];
+
+export const TAG_COLORS: TagColor[] = ['blue', 'rose', 'amber', 'violet', 'emerald', 'slate'];
+
+export const CUSTOM_FIELD_TYPES: { id: CustomFieldType; label: string }[] = [
+  { id: 'text', label: 'Text' },
+  { id: 'number', label: 'Number' },
+  { id: 'select', label: 'Select' },
+  { id: 'multiselect', label: 'Multi-select' },
+  { id: 'checkbox', label: 'Checkbox' },
+  { id: 'date', label: 'Date' }
+];
+
+// The hours the journal has always used, read on the journal's clock
+export const DEFAULT_SESSION_CONFIG: SessionConfig = {
+  hours: {
+    Asian: { start: 22, end: 8 },
+    London: { start: 8, end: 14 },
+    'New-York': { start: 14, end: 22 }
+  }
+};
+
+// Seeded into a fresh journal so the dashboard isn't empty on first launch. Times are wall times
+// in the journal timezone, as v6 stored them; the seed migrates them to get its offset
+export const SAMPLE_TRADES: Trade[] = [
+  { id: 7, accountId: DEFAULT_ACCOUNT_ID, date: '2025-12-02', entryDate: '2025-12-02T09:30', exitDate: '2025-12-02T16:00', ticker: 'SOL', direction: 'Long', style: 'Intraday', risk: 1.0, pnl: 15.0 },
+  { id: 6, accountId: DEFAULT_ACCOUNT_ID, date: '2025-12-01', entryDate: '2025-12-01T14:00', exitDate: '2025-12-03T10:00', ticker: 'XRP', direction: 'Short', style: 'Swing', risk: 2.0, pnl: -5.5 },
+  { id: 5, accountId: DEFAULT_ACCOUNT_ID, date: '2025-11-26', entryDate: '2025-11-26T10:00', exitDate: '2025-11-26T12:00', ticker: 'ETH', direction: 'Long', style: 'Intraday', risk: 0.5, pnl: -2.0 },
+  { id: 4, accountId: DEFAULT_ACCOUNT_ID, date: '2025-11-25', entryDate: '2025-11-25T18:00', exitDate: '2025-11-26T08:00', ticker: 'BTC', direction: 'Short', style: 'Swing', risk: 1.5, pnl: 8.0 },
+  { id: 3, accountId: DEFAULT_ACCOUNT_ID, date: '2025-11-24', entryDate: '2025-11-24T15:00', exitDate: '2025-11-28T16:00', ticker: 'AAPL', direction: 'Long', style: 'Swing', risk: 1.0, pnl: 4.5 },
+  { id: 2, accountId: DEFAULT_ACCOUNT_ID, date: '2025-11-22', entryDate: '2025-11-22T09:45', exitDate: '2025-11-22T10:30', ticker: 'TSLA', direction: 'Short', style: 'Intraday', risk: 1.0, pnl: -3.2 },
+  { id: 1, accountId: DEFAULT_ACCOUNT_ID, date: '2025-11-20', entryDate: '2025-11-20T11:00', exitDate: '2025-11-20T14:45', ticker: 'NVDA', direction: 'Long', style: 'Intraday', risk: 1.0, pnl: 12.5 },
+];
+
@@ -0,0 +1,86 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Account, AccountSelection } from '../types';
+import { AccountSettings, deleteAccountById, loadAccounts, newAccount, putAccount } from '../utils/accountRepository';
+import { combineAccounts } from '../utils/accountEquity';
+import { readStoredJson } from '../utils';
+import { DEFAULT_ACCOUNT_ID, STORAGE_KEYS } from '../constants';
+
+export const useAccounts = () => {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [selection, setSelection] = useState<AccountSelection>(() => readStoredJson(STORAGE_KEYS.ACTIVE_ACCOUNT, DEFAULT_ACCOUNT_ID));
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadAccounts()
+      .then(loaded => {
+        if (!cancelled) setAccounts(loaded);
+      })
+      .catch(error => {
+        console.error('Error loading accounts from IndexedDB:', error);
+        // Balances still work from the defaults, even if edits can't be saved
+        if (!cancelled) setAccounts([newAccount({ id: DEFAULT_ACCOUNT_ID })]);
+      });
+
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.ACTIVE_ACCOUNT, JSON.stringify(selection));
+  }, [selection]);
+
+  const isCombined = selection === 'all' && accounts.length > 1;
+  // Falls back to the first account when the saved one was deleted
+  const selectedAccount = isCombined ? null : accounts.find(a => a.id === selection) ?? accounts[0] ?? null;
+  // What the balance views are measured on: the selected account, or all of them merged
+  const activeAccount = useMemo(
+    () => (isCombined ? combineAccounts(accounts) : selectedAccount),
+    [isCombined, accounts, selectedAccount]
+  );
+
+  const persist = (account: Account) => {
+    putAccount(account).catch(error => {
+      console.error('Error saving account to IndexedDB:', error);
+    });
+  };
+
+  const createAccount = (): Account => {
+    const account = newAccount({ name: `Account ${accounts.length + 1}` });
+    setAccounts(prev => [...prev, account]);
+    setSelection(account.id);
+    persist(account);
+    return account;
+  };
+
+  const updateAccount = (id: number, settings: Partial<AccountSettings>) => {
+    const account = accounts.find(a => a.id === id);
+    if (!account) return;
+    const updated = { ...account, ...settings, updatedAt: new Date().toISOString() };
+    setAccounts(prev => prev.map(a => (a.id === id ? updated : a)));
+    persist(updated);
+  };
+
+  // Callers make sure no trades still point at the account
+  const deleteAccount = (id: number) => {
+    if (accounts.length <= 1) return;
+    const remaining = accounts.filter(a => a.id !== id);
+    setAccounts(remaining);
+    if (selection === id) setSelection(remaining[0].id);
+    deleteAccountById(id).catch(error => {
+      console.error('Error deleting account from IndexedDB:', error);
+    });
+  };
+
+  return {
+    accounts,
+    selection: isCombined ? 'all' as const : selectedAccount?.id ?? DEFAULT_ACCOUNT_ID,
+    selectedAccount,
+    activeAccount,
+    selectAccount: setSelection,
+    createAccount,
+    updateAccount,
+    deleteAccount
+  };
+};
+
+export type AccountsState = ReturnType<typeof useAccounts>;
@@ -0,0 +1,111 @@
+import { useState, useEffect, useRef } from 'react';
+import { Board } from '../types';
+import { STORAGE_KEYS } from '../constants';
+import { readStoredJson } from '../utils';
+import { BoardContent, deleteBoardById, loadBoards, newBoard, putBoard } from '../utils/boardRepository';
+
+export const useBoards = () => {
+  const [boards, setBoards] = useState<Board[]>([]);
+  const [activeBoardId, setActiveBoardId] = useState<number | null>(() => readStoredJson(STORAGE_KEYS.ACTIVE_BOARD, null));
+  // A board's last save can fire from a closure created before it was deleted, e.g. the
+  // whiteboard flushing its pending save on unmount, so saves look boards up here instead
+  const boardsRef = useRef(boards);
+  boardsRef.current = boards;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadBoards()
+      .then(loaded => {
+        if (!cancelled) setBoards(loaded);
+      })
+      .catch(error => {
+        console.error('Error loading boards from IndexedDB:', error);
+        // Still allow drawing, even if it can't be saved
+        if (!cancelled) setBoards([newBoard('Board 1')]);
+      });
+
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.ACTIVE_BOARD, JSON.stringify(activeBoardId));
+  }, [activeBoardId]);
+
+  // Falls back to the first board when the saved id was deleted or restored away
+  const activeBoard = boards.find(b => b.id === activeBoardId) ?? boards[0] ?? null;
+
+  const persist = (board: Board) => {
+    putBoard(board).catch(error => {
+      console.error('Error saving board to IndexedDB:', error);
+    });
+  };
+
+  const createBoard = (name?: string): Board => {
+    const board = newBoard(name?.trim() || `Board ${boards.length + 1}`);
+    setBoards(prev => [...prev, board]);
+    setActiveBoardId(board.id);
+    persist(board);
+    return board;
+  };
+
+  const renameBoard = (id: number, name: string) => {
+    const board = boards.find(b => b.id === id);
+    if (!board || !name.trim()) return;
+    const renamed = { ...board, name: name.trim(), updatedAt: new Date().toISOString() };
+    setBoards(prev => prev.map(b => (b.id === id ? renamed : b)));
+    persist(renamed);
+  };
+
+  const duplicateBoard = (id: number): Board | null => {
+    const board = boards.find(b => b.id === id);
+    if (!board) return null;
+    const copy = newBoard(`${board.name} copy`, JSON.parse(JSON.stringify({
+      strokes: board.strokes,
+      transform: board.transform,
+      background: board.background
+    })));
+    setBoards(prev => [...prev, copy]);
+    setActiveBoardId(copy.id);
+    persist(copy);
+    return copy;
+  };
+
+  const deleteBoard = (id: number) => {
+    // There is always at least one board to draw on
+    if (boards.length <= 1) return;
+    const index = boards.findIndex(b => b.id === id);
+    if (index === -1) return;
+
+    const remaining = boards.filter(b => b.id !== id);
+    boardsRef.current = remaining;
+    setBoards(remaining);
+    if (activeBoard?.id === id) {
+      setActiveBoardId(remaining[Math.max(0, index - 1)].id);
+    }
+    deleteBoardById(id).catch(error => {
+      console.error('Error deleting board from IndexedDB:', error);
+    });
+  };
+
+  const saveBoardContent = (id: number, content: BoardContent) => {
+    const board = boardsRef.current.find(b => b.id === id);
+    if (!board) return;
+    const updated = { ...board, ...content, updatedAt: new Date().toISOString() };
+    setBoards(prev => prev.map(b => (b.id === id ? updated : b)));
+    persist(updated);
+  };
+
+  return {
+    boards,
+    activeBoard,
+    selectBoard: setActiveBoardId,
+    createBoard,
+    renameBoard,
+    duplicateBoard,
+    deleteBoard,
+    saveBoardContent
+  };
+};
+
+export type BoardsState = ReturnType<typeof useBoards>;
@@ -0,0 +1,36 @@
+import { useState, useEffect } from 'react';
+import { CustomFieldDefinition } from '../types';
+import { STORAGE_KEYS } from '../constants';
+import { readStoredJson } from '../utils';
+
+export const useCustomFields = () => {
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>(() => readStoredJson(STORAGE_KEYS.CUSTOM_FIELDS, []));
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.CUSTOM_FIELDS, JSON.stringify(customFields));
+  }, [customFields]);
+
+  const addCustomField = (): CustomFieldDefinition => {
+    const field: CustomFieldDefinition = { id: `cf${Date.now()}`, name: `Field ${customFields.length + 1}`, type: 'text' };
+    setCustomFields(prev => [...prev, field]);
+    return field;
+  };
+
+  const updateCustomField = (id: string, patch: Partial<Omit<CustomFieldDefinition, 'id'>>) => {
+    setCustomFields(prev => prev.map(f => (f.id === id ? { ...f, ...patch } : f)));
+  };
+
+  // Values already stored on trades stay there, they are just no longer shown
+  const removeCustomField = (id: string) => {
+    setCustomFields(prev => prev.filter(f => f.id !== id));
+  };
+
+  return {
+    customFields,
+    addCustomField,
+    updateCustomField,
+    removeCustomField
+  };
+};
+
+export type CustomFieldsState = ReturnType<typeof useCustomFields>;
@@ -0,0 +1,23 @@
+import { useState, useEffect } from 'react';
+import { STORAGE_KEYS } from '../constants';
+import { readStoredJson } from '../utils';
+
+export const useJournalTimezone = () => {
+  const [timezone, setTimezone] = useState<string>(() => {
+    const stored = localStorage.getItem(STORAGE_KEYS.TIMEZONE);
+    if (stored !== null) return stored;
+    // The timezone used to be a setting of the sessions alone
+    return readStoredJson<{ timezone?: string }>(STORAGE_KEYS.SESSIONS, {}).timezone ?? '';
+  });
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.TIMEZONE, timezone);
+  }, [timezone]);
+
+  return {
+    timezone,
+    setTimezone
+  };
+};
+
+export type JournalTimezoneState = ReturnType<typeof useJournalTimezone>;
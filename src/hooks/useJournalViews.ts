@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback } from 'react';
+import { STORAGE_KEYS } from '../constants';
+import { readStoredJson } from '../utils';
+
+export interface SavedView<S> {
+  id: number;
+  name: string;
+  settings: S;
+}
+
+interface StoredViews<S> {
+  views: SavedView<S>[];
+  // The view the Journal opens with
+  defaultId: number;
+}
+
+// Journals from before saved views get their single persisted layout as the first view
+const loadStoredViews = <S>(): StoredViews<S> => {
+  const stored = readStoredJson<StoredViews<S> | null>(STORAGE_KEYS.JOURNAL_VIEWS, null);
+  if (stored?.views.length) return stored;
+  const legacy = readStoredJson<S>(STORAGE_KEYS.JOURNAL_VIEW, {} as S);
+  return { views: [{ id: 1, name: 'Default', settings: legacy }], defaultId: 1 };
+};
+
+/** Named Journal layouts; whatever is changed on screen is saved into the active view. */
+export const useJournalViews = <S>() => {
+  const [stored, setStored] = useState(() => loadStoredViews<S>());
+  const { views, defaultId } = stored;
+  const [activeId, setActiveId] = useState(() => (views.some(v => v.id === defaultId) ? defaultId : views[0].id));
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.JOURNAL_VIEWS, JSON.stringify(stored));
+  }, [stored]);
+
+  const activeView = views.find(v => v.id === activeId) ?? views[0];
+
+  const saveActiveSettings = useCallback((settings: S) => {
+    setStored(prev => ({ ...prev, views: prev.views.map(v => (v.id === activeId ? { ...v, settings } : v)) }));
+  }, [activeId]);
+
+  const selectView = (id: number): SavedView<S> | undefined => {
+    const view = views.find(v => v.id === id);
+    if (view) setActiveId(id);
+    return view;
+  };
+
+  const duplicateView = (id: number): SavedView<S> | undefined => {
+    const source = views.find(v => v.id === id);
+    if (!source) return undefined;
+    const copy: SavedView<S> = { id: Math.max(...views.map(v => v.id)) + 1, name: `${source.name} copy`, settings: source.settings };
+    setStored(prev => ({ ...prev, views: [...prev.views, copy] }));
+    setActiveId(copy.id);
+    return copy;
+  };
+
+  const renameView = (id: number, name: string) => {
+    setStored(prev => ({ ...prev, views: prev.views.map(v => (v.id === id ? { ...v, name } : v)) }));
+  };
+
+  const setDefaultView = (id: number) => {
+    setStored(prev => ({ ...prev, defaultId: id }));
+  };
+
+  // The last view can't go; deleting the active or default view falls back to another one
+  const deleteView = (id: number): SavedView<S> | undefined => {
+    if (views.length <= 1) return undefined;
+    const remaining = views.filter(v => v.id !== id);
+    const fallback = remaining.find(v => v.id === defaultId) ?? remaining[0];
+    setStored(prev => ({ views: remaining, defaultId: prev.defaultId === id ? fallback.id : prev.defaultId }));
+    if (activeId !== id) return undefined;
+    setActiveId(fallback.id);
+    return fallback;
+  };
+
+  return {
+    views,
+    activeView,
+    defaultViewId: defaultId,
+    saveActiveSettings,
+    selectView,
+    duplicateView,
+    renameView,
+    setDefaultView,
+    deleteView
+  };
+};
@@ -1,4 +1,6 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import { STORAGE_KEYS } from '../constants';
+import { readStoredJson } from '../utils';
 
 export interface DateToggleConfig {
   fontSize: number;
@@ -40,16 +42,34 @@ export interface FilterBarSpacing {
   right: number;
 }
 
+// Every field is optional so saves from older versions still load with defaults filled in
+type SavedLayout = Partial<{
+  menuScale: number;
+  controlsScale: number;
+  edgeOffset: number;
+  dateToggleConfig: DateToggleConfig;
+  positionsConfig: PositionsConfig;
+  metricsConfig: MetricsConfig;
+  layoutConfig: LayoutConfig;
+  rightGutter: number;
+  leftGutter: number;
+  filterBarSpacing: FilterBarSpacing;
+  textConfig: TextConfig;
+}>;
+
 export const useLayoutConfig = () => {
-  const [menuScale, setMenuScale] = useState(1);
-  const [controlsScale, setControlsScale] = useState(1.05);
-  const [edgeOffset, setEdgeOffset] = useState(24);
+  const [saved] = useState(() => readStoredJson<SavedLayout>(STORAGE_KEYS.LAYOUT, {}));
+
+  const [menuScale, setMenuScale] = useState(saved.menuScale ?? 1);
+  const [controlsScale, setControlsScale] = useState(saved.controlsScale ?? 1.05);
+  const [edgeOffset, setEdgeOffset] = useState(saved.edgeOffset ?? 24);
 
   const [dateToggleConfig, setDateToggleConfig] = useState<DateToggleConfig>({
     fontSize: 14,
     fontWeight: 500,
     height: 36,
-    paddingX: 10
+    paddingX: 10,
+    ...saved.dateToggleConfig
   });
 
   const [positionsConfig, setPositionsConfig] = useState<PositionsConfig>({
@@ -57,33 +77,44 @@ export const useLayoutConfig = () => {
     fontWeight: 700,
     height: 30,
     paddingX: 10,
-    borderRadius: 12
+    borderRadius: 12,
+    ...saved.positionsConfig
   });
 
   const [metricsConfig, setMetricsConfig] = useState<MetricsConfig>({
     scale: 0.95,
     marginTop: 24,
     marginBottom: 48,
-    fontWeight: 500
+    fontWeight: 500,
+    ...saved.metricsConfig
   });
 
   const [layoutConfig, setLayoutConfig] = useState<LayoutConfig>({
     maxWidth: 1440,
     paddingX: 152,
     paddingY: 56,
-    chartHeight: 420
+    chartHeight: 420,
+    ...saved.layoutConfig
   });
 
-  const [rightGutter, setRightGutter] = useState(24);
-  const [leftGutter, setLeftGutter] = useState(24);
-  const [filterBarSpacing, setFilterBarSpacing] = useState<FilterBarSpacing>({ left: 40, right: 0 });
+  const [rightGutter, setRightGutter] = useState(saved.rightGutter ?? 24);
+  const [leftGutter, setLeftGutter] = useState(saved.leftGutter ?? 24);
+  const [filterBarSpacing, setFilterBarSpacing] = useState<FilterBarSpacing>({ left: 40, right: 0, ...saved.filterBarSpacing });
 
   const [textConfig, setTextConfig] = useState<TextConfig>({
     headingScale: 1.2,
     bodyScale: 1.2,
-    smallScale: 1.2
+    smallScale: 1.2,
+    ...saved.textConfig
   });
 
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.LAYOUT, JSON.stringify({
+      menuScale, controlsScale, edgeOffset, dateToggleConfig, positionsConfig, metricsConfig,
+      layoutConfig, rightGutter, leftGutter, filterBarSpacing, textConfig
+    }));
+  }, [menuScale, controlsScale, edgeOffset, dateToggleConfig, positionsConfig, metricsConfig, layoutConfig, rightGutter, leftGutter, filterBarSpacing, textConfig]);
+
   return {
     menuScale,
     setMenuScale,
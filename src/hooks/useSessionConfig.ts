@@ -0,0 +1,29 @@
+import { useState, useEffect } from 'react';
+import { SessionConfig, SessionHours, SessionName } from '../types';
+import { DEFAULT_SESSION_CONFIG, STORAGE_KEYS } from '../constants';
+import { readStoredJson } from '../utils';
+
+export const useSessionConfig = () => {
+  const [sessionConfig, setSessionConfig] = useState<SessionConfig>(() => {
+    const stored = readStoredJson<Partial<SessionConfig>>(STORAGE_KEYS.SESSIONS, {});
+    return { hours: { ...DEFAULT_SESSION_CONFIG.hours, ...stored.hours } };
+  });
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.SESSIONS, JSON.stringify(sessionConfig));
+  }, [sessionConfig]);
+
+  const updateSessionHours = (session: SessionName, patch: Partial<SessionHours>) => {
+    setSessionConfig(prev => ({ ...prev, hours: { ...prev.hours, [session]: { ...prev.hours[session], ...patch } } }));
+  };
+
+  const resetSessions = () => setSessionConfig(DEFAULT_SESSION_CONFIG);
+
+  return {
+    sessionConfig,
+    updateSessionHours,
+    resetSessions
+  };
+};
+
+export type SessionConfigState = ReturnType<typeof useSessionConfig>;
@@ -0,0 +1,40 @@
+import { useState, useEffect } from 'react';
+import { TagGroupDefinition } from '../types';
+import { DEFAULT_TAG_GROUPS, STORAGE_KEYS, TAG_COLORS } from '../constants';
+import { readStoredJson } from '../utils';
+
+export const useTagGroups = () => {
+  const [tagGroups, setTagGroups] = useState<TagGroupDefinition[]>(() => readStoredJson(STORAGE_KEYS.TAG_GROUPS, DEFAULT_TAG_GROUPS));
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.TAG_GROUPS, JSON.stringify(tagGroups));
+  }, [tagGroups]);
+
+  const addTagGroup = (): TagGroupDefinition => {
+    const group: TagGroupDefinition = {
+      id: `tg${Date.now()}`,
+      label: `Group ${tagGroups.length + 1}`,
+      color: TAG_COLORS[tagGroups.length % TAG_COLORS.length]
+    };
+    setTagGroups(prev => [...prev, group]);
+    return group;
+  };
+
+  const updateTagGroup = (id: string, patch: Partial<Omit<TagGroupDefinition, 'id'>>) => {
+    setTagGroups(prev => prev.map(g => (g.id === id ? { ...g, ...patch } : g)));
+  };
+
+  // Tags already stored on trades stay there, they are just no longer shown
+  const removeTagGroup = (id: string) => {
+    setTagGroups(prev => prev.filter(g => g.id !== id));
+  };
+
+  return {
+    tagGroups,
+    addTagGroup,
+    updateTagGroup,
+    removeTagGroup
+  };
+};
+
+export type TagGroupsState = ReturnType<typeof useTagGroups>;
@@ -1,109 +1,223 @@
-import { useState, useEffect } from 'react';
-import { Trade } from '../types';
-import { STORAGE_KEYS } from '../constants';
+import { useState, useEffect, useRef } from 'react';
+import { Account, Trade } from '../types';
+import { computeTradePnl, withComputedPnl, withExecutionSummary } from '../utils/tradePnl';
+import { getBalanceBefore, rebaseComputedPnl } from '../utils/accountEquity';
+import { DEFAULT_ACCOUNT_ID } from '../constants';
+import { getZonedToday, normalizeTimestamp, toZonedDateKey, toZonedTimestamp } from '../utils/timezone';
+import { deleteTradesByIds, loadTrades, putTrade, putTrades, readLegacyTrades, replaceAllTrades } from '../utils/tradeRepository';
 
-export const useTrades = () => {
+export type TradeBulkPatch = Partial<Pick<Trade, 'style' | 'direction' | 'risk'>>;
+
+// Closed trades need a result, open ones can be logged before anything is realized
+export const canAddTrade = (newTrade: Partial<Trade>): boolean =>
+  !!newTrade.ticker && (newTrade.exitDate === '' || newTrade.pnl !== undefined || !!computeTradePnl(newTrade));
+
+// Timestamps are stored with their offset and the trade's day is read in the journal timezone.
+// Accounts give prices-based results a balance to be a percent of
+export const useTrades = (timezone = '', accounts: Account[] = []) => {
   const [trades, setTrades] = useState<Trade[]>([]);
+  const lastIdRef = useRef(0);
+  // Until the store has been read, the state may lack stored trades, so nothing may replace them all
+  const loadedRef = useRef(false);
 
   useEffect(() => {
-    try {
-      const savedTrades = localStorage.getItem(STORAGE_KEYS.TRADES);
-
-      if (savedTrades && savedTrades.trim() !== '') {
-        try {
-          const parsed = JSON.parse(savedTrades);
-          // Validate that parsed data is an array
-          if (Array.isArray(parsed)) {
-            setTrades(parsed);
-            return;
-          }
-        } catch (parseError) {
-          console.warn('Failed to parse trades from localStorage:', parseError);
-          // Fall through to default trades
-        }
-      }
-      
-      // Set default trades if no valid data found
-      setTrades([
-        { id: 7, date: '2025-12-02', entryDate: '2025-12-02T09:30', exitDate: '2025-12-02T16:00', ticker: 'SOL', direction: 'Long', style: 'Intraday', risk: 1.0, pnl: 15.0 },
-        { id: 6, date: '2025-12-01', entryDate: '2025-12-01T14:00', exitDate: '2025-12-03T10:00', ticker: 'XRP', direction: 'Short', style: 'Swing', risk: 2.0, pnl: -5.5 },
-        { id: 5, date: '2025-11-26', entryDate: '2025-11-26T10:00', exitDate: '2025-11-26T12:00', ticker: 'ETH', direction: 'Long', style: 'Intraday', risk: 0.5, pnl: -2.0 },
-        { id: 4, date: '2025-11-25', entryDate: '2025-11-25T18:00', exitDate: '2025-11-26T08:00', ticker: 'BTC', direction: 'Short', style: 'Swing', risk: 1.5, pnl: 8.0 },
-        { id: 3, date: '2025-11-24', entryDate: '2025-11-24T15:00', exitDate: '2025-11-28T16:00', ticker: 'AAPL', direction: 'Long', style: 'Swing', risk: 1.0, pnl: 4.5 },
-        { id: 2, date: '2025-11-22', entryDate: '2025-11-22T09:45', exitDate: '2025-11-22T10:30', ticker: 'TSLA', direction: 'Short', style: 'Intraday', risk: 1.0, pnl: -3.2 },
-        { id: 1, date: '2025-11-20', entryDate: '2025-11-20T11:00', exitDate: '2025-11-20T14:45', ticker: 'NVDA', direction: 'Long', style: 'Intraday', risk: 1.0, pnl: 12.5 },
-      ]);
-    } catch (error) {
-      console.error('Error loading trades from localStorage:', error);
-      // Set empty array as fallback
-      setTrades([]);
-    }
+    let cancelled = false;
+
+    // Trades added while the store was loading are already saved one by one, so they are kept
+    const mergeLoaded = (loaded: Trade[]) => setTrades(prevTrades => {
+      const loadedIds = new Set(loaded.map(t => t.id));
+      return [...prevTrades.filter(t => !loadedIds.has(t.id)), ...loaded].sort((a, b) => b.id - a.id);
+    });
+
+    // Read once, with the journal timezone set at startup
+    loadTrades(timezone)
+      .then(loaded => {
+        if (cancelled) return;
+        loadedRef.current = true;
+        mergeLoaded(loaded);
+      })
+      .catch(error => {
+        console.error('Error loading trades from IndexedDB:', error);
+        // Show whatever the old storage still holds rather than an empty journal
+        if (!cancelled) mergeLoaded(readLegacyTrades(timezone) ?? []);
+      });
+
+    return () => { cancelled = true; };
   }, []);
 
+  // A percent computed from prices is measured against the balance before the trade, so it is
+  // measured again whenever an earlier trade or a deposit or withdrawal changes that balance
+  useEffect(() => {
+    if (!loadedRef.current) return;
+    const rebased = accounts.flatMap(account => rebaseComputedPnl(account, trades.filter(t => t.accountId === account.id)));
+    if (rebased.length === 0) return;
+
+    const byId = new Map(rebased.map(t => [t.id, t]));
+    setTrades(prevTrades => prevTrades.map(t => byId.get(t.id) ?? t));
+    putTrades(rebased).catch(error => {
+      console.error('Error saving rebased trades to IndexedDB:', error);
+    });
+  }, [trades, accounts]);
+
   const saveTrades = (updatedTrades: Trade[]) => {
-    setTrades(updatedTrades);
-    try {
-      localStorage.setItem(STORAGE_KEYS.TRADES, JSON.stringify(updatedTrades));
-    } catch (error) {
-      console.error('Error saving trades to localStorage:', error);
+    if (!loadedRef.current) {
+      console.error('Trades were not saved: the journal has not loaded, so replacing it would lose stored trades');
+      return;
     }
+    setTrades(updatedTrades);
+    replaceAllTrades(updatedTrades).catch(error => {
+      console.error('Error saving trades to IndexedDB:', error);
+    });
   };
 
-  const addTrade = (newTrade: Partial<Trade>): Trade | null => {
-    if (!newTrade.ticker || newTrade.pnl === undefined) return null;
+  // Balance of the trade's account before the trade, or null when the account is unknown
+  const getTradeBalance = (trade: Partial<Trade>): number | null => {
+    const account = accounts.find(a => a.id === (trade.accountId ?? DEFAULT_ACCOUNT_ID));
+    return account ? getBalanceBefore(account, trades, withExecutionSummary(trade)) : null;
+  };
 
-    let entry = newTrade.entryDate;
-    let exit = newTrade.exitDate;
-    const now = new Date();
-    const todayStr = now.toISOString().split('T')[0];
+  const syncPnl = <T extends Partial<Trade>>(trade: T): T => withComputedPnl(trade, getTradeBalance(trade));
 
-    if (!entry) {
-      entry = todayStr + 'T00:00';
-    }
-    if (!exit) {
-      const h = String(now.getHours()).padStart(2, '0');
-      const m = String(now.getMinutes()).padStart(2, '0');
-      exit = todayStr + 'T' + h + ':' + m;
-    }
+  // Ids are IndexedDB keys, so a repeat would overwrite a trade. Each batch starts above every id
+  // stored or handed out before, and above the clock so ids still read as creation order
+  const reserveIds = (count: number): number[] => {
+    const highest = trades.reduce((max, t) => Math.max(max, t.id), lastIdRef.current);
+    const first = Math.max(highest, Date.now()) + 1;
+    lastIdRef.current = first + count - 1;
+    return Array.from({ length: count }, (_, i) => first + i);
+  };
+
+  const addTrade = (newTrade: Partial<Trade>): Trade | null => {
+    if (!canAddTrade(newTrade)) return null;
 
-    const trade: Trade = {
-      id: Date.now(),
-      date: entry.split('T')[0],
+    const entry = normalizeTimestamp(newTrade.entryDate || `${getZonedToday(timezone)}T00:00`, timezone);
+    // An empty exit marks an open position; a missing one means it was closed just now
+    const exit = newTrade.exitDate === undefined
+      ? toZonedTimestamp(new Date(), timezone)
+      : normalizeTimestamp(newTrade.exitDate, timezone);
+
+    const trade: Trade = syncPnl({
+      id: reserveIds(1)[0],
+      accountId: newTrade.accountId ?? DEFAULT_ACCOUNT_ID,
+      date: toZonedDateKey(entry, timezone),
       entryDate: entry,
       exitDate: exit,
       ticker: newTrade.ticker.toUpperCase(),
       direction: newTrade.direction as 'Long' | 'Short',
       style: newTrade.style as 'Intraday' | 'Swing',
       risk: newTrade.risk || 1.0,
-      pnl: Number(newTrade.pnl)
-    };
+      pnl: Number(newTrade.pnl) || 0,
+      entryPrice: newTrade.entryPrice,
+      exitPrice: newTrade.exitPrice,
+      stopLoss: newTrade.stopLoss,
+      takeProfit: newTrade.takeProfit,
+      quantity: newTrade.quantity,
+      fees: newTrade.fees,
+      leverage: newTrade.leverage,
+      executions: newTrade.executions?.map(e => ({ ...e, date: normalizeTimestamp(e.date, timezone) })),
+      tags: newTrade.tags
+    });
 
-    setTrades(prevTrades => {
-      const updatedTrades = [trade, ...prevTrades];
-      try {
-        localStorage.setItem(STORAGE_KEYS.TRADES, JSON.stringify(updatedTrades));
-      } catch (error) {
-        console.error('Error saving trade to localStorage:', error);
-      }
-      return updatedTrades;
+    setTrades(prevTrades => [trade, ...prevTrades]);
+    putTrade(trade).catch(error => {
+      console.error('Error saving trade to IndexedDB:', error);
     });
     return trade;
   };
 
-  const updateTrade = (updatedTrade: Trade) => {
+  // Imported rows are already validated, so they only need ids and journal defaults
+  const importTrades = (imported: Partial<Trade>[], accountId = DEFAULT_ACCOUNT_ID): Trade[] => {
+    const valid = imported.filter(t => t.ticker && t.entryDate && t.pnl !== undefined);
+    const ids = reserveIds(valid.length);
+    const newTrades: Trade[] = valid.map((t, i) => {
+      const entryDate = normalizeTimestamp(t.entryDate, timezone);
+      return {
+        id: ids[i],
+        accountId: t.accountId ?? accountId,
+        date: toZonedDateKey(entryDate, timezone),
+        entryDate,
+        exitDate: normalizeTimestamp(t.exitDate, timezone) || entryDate,
+        ticker: t.ticker!.toUpperCase(),
+        direction: t.direction || 'Long',
+        style: t.style || 'Intraday',
+        risk: t.risk || 1.0,
+        pnl: Number(t.pnl)
+      };
+    });
+    if (newTrades.length === 0) return newTrades;
+
+    setTrades(prevTrades => [...newTrades, ...prevTrades].sort((a, b) => b.id - a.id));
+    putTrades(newTrades).catch(error => {
+      console.error('Error saving imported trades to IndexedDB:', error);
+    });
+    return newTrades;
+  };
+
+  const updateTrade = (editedTrade: Trade) => {
+    const updatedTrade = syncPnl(editedTrade);
     setTrades(prevTrades => {
       const index = prevTrades.findIndex(t => t.id === updatedTrade.id);
-      if (index !== -1) {
-        const newTrades = [...prevTrades];
-        newTrades[index] = updatedTrade;
-        try {
-          localStorage.setItem(STORAGE_KEYS.TRADES, JSON.stringify(newTrades));
-        } catch (error) {
-          console.error('Error updating trade in localStorage:', error);
-        }
-        return newTrades;
-      }
-      return prevTrades;
+      if (index === -1) return prevTrades;
+      const newTrades = [...prevTrades];
+      newTrades[index] = updatedTrade;
+      return newTrades;
+    });
+    putTrade(updatedTrade).catch(error => {
+      console.error('Error updating trade in IndexedDB:', error);
+    });
+  };
+
+  // Returns the removed trades so the caller can offer an undo
+  const deleteTrades = (ids: number[]): Trade[] => {
+    const idSet = new Set(ids);
+    const removed = trades.filter(t => idSet.has(t.id));
+    if (removed.length === 0) return removed;
+
+    setTrades(prevTrades => prevTrades.filter(t => !idSet.has(t.id)));
+    deleteTradesByIds(ids).catch(error => {
+      console.error('Error deleting trades from IndexedDB:', error);
+    });
+    return removed;
+  };
+
+  const restoreTrades = (restored: Trade[]) => {
+    if (restored.length === 0) return;
+    const idSet = new Set(restored.map(t => t.id));
+    setTrades(prevTrades => [...restored, ...prevTrades.filter(t => !idSet.has(t.id))].sort((a, b) => b.id - a.id));
+    putTrades(restored).catch(error => {
+      console.error('Error restoring trades in IndexedDB:', error);
+    });
+  };
+
+  const duplicateTrades = (ids: number[]): Trade[] => {
+    const idSet = new Set(ids);
+    const sources = trades.filter(t => idSet.has(t.id));
+    const copyIds = reserveIds(sources.length);
+    const copies: Trade[] = sources.map((t, i) => ({
+      ...JSON.parse(JSON.stringify(t)),
+      id: copyIds[i]
+    }));
+    if (copies.length === 0) return copies;
+
+    setTrades(prevTrades => [...copies, ...prevTrades]);
+    putTrades(copies).catch(error => {
+      console.error('Error saving duplicated trades to IndexedDB:', error);
+    });
+    return copies;
+  };
+
+  const bulkUpdate = (ids: number[], patch: TradeBulkPatch) => {
+    const idSet = new Set(ids);
+    const updated = trades
+      .filter(t => idSet.has(t.id))
+      // Flipping the direction flips a computed PnL too
+      .map(t => syncPnl({ ...t, ...patch }));
+    if (updated.length === 0) return;
+
+    const byId = new Map(updated.map(t => [t.id, t]));
+    setTrades(prevTrades => prevTrades.map(t => byId.get(t.id) ?? t));
+    putTrades(updated).catch(error => {
+      console.error('Error bulk updating trades in IndexedDB:', error);
     });
   };
 
@@ -111,7 +225,12 @@ export const useTrades = () => {
     trades,
     saveTrades,
     addTrade,
-    updateTrade
+    updateTrade,
+    importTrades,
+    deleteTrades,
+    restoreTrades,
+    duplicateTrades,
+    bulkUpdate,
+    getTradeBalance
   };
 };
-
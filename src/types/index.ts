@@ -1,17 +1,137 @@
 export interface Trade {
   id: number;
+  accountId: number;
   date: string;
   entryDate: string;
+  // Empty while the position is still open
   exitDate: string;
   ticker: string;
   direction: 'Long' | 'Short';
   style: 'Scalping' | 'Intraday' | 'Intraweek' | 'Swing';
   risk: number;
+  // Percent result; computed from the execution fields below when they are filled in
   pnl: number;
+  entryPrice?: number;
+  exitPrice?: number;
+  quantity?: number;
+  // Total commissions and funding for the trade, in the quote currency
+  fees?: number;
+  // Unset or 1 for spot positions
+  leverage?: number;
+  // Initial stop and target prices; the stop defines 1R
+  stopLoss?: number;
+  takeProfit?: number;
+  // Scale-ins and partial exits; when present they drive the prices, size, fees and dates above
+  executions?: Execution[];
   entryImg?: string;
   exitImg?: string;
   conclusions?: string;
   tda?: TdaItem[];
+  boardLinks?: BoardLink[];
+  tags?: TradeTags;
+  // Values of the user's custom fields, by field id
+  customFields?: Record<string, CustomFieldValue>;
+}
+
+export type CustomFieldType = 'text' | 'number' | 'select' | 'multiselect' | 'checkbox' | 'date';
+
+export type CustomFieldValue = string | number | boolean | string[];
+
+/** A field the user added to every trade from the preferences. */
+export interface CustomFieldDefinition {
+  id: string;
+  name: string;
+  type: CustomFieldType;
+  // Choices for select and multi-select fields
+  options?: string[];
+}
+
+export type TagGroupId = string;
+
+export type TagColor = 'blue' | 'rose' | 'amber' | 'violet' | 'emerald' | 'slate';
+
+/** A kind of tag, e.g. setups or mistakes; the user can rename, recolor, add and remove them. */
+export interface TagGroupDefinition {
+  id: TagGroupId;
+  label: string;
+  color: TagColor;
+}
+
+// Free-form labels the user makes up, kept apart by what they describe
+export type TradeTags = Partial<Record<TagGroupId, string[]>>;
+
+export interface TagStats {
+  group: TagGroupId;
+  tag: string;
+  count: number;
+  winrate: number;
+  profitFactor: string;
+  // Average percent result per trade
+  expectancy: number;
+}
+
+export type SessionName = 'Asian' | 'London' | 'New-York';
+
+// Whole hours, 0-23; a session whose start is after its end runs past midnight
+export interface SessionHours {
+  start: number;
+  end: number;
+}
+
+export interface SessionConfig {
+  hours: Record<SessionName, SessionHours>;
+}
+
+/** Results of the trades falling in one session, weekday, entry hour or hold-time bucket. */
+export interface BreakdownRow {
+  key: string;
+  label: string;
+  count: number;
+  pnl: number;
+  winrate: number;
+  // Average percent result per trade
+  expectancy: number;
+}
+
+// Positive for deposits, negative for withdrawals
+export interface CashFlow {
+  id: number;
+  date: string;
+  amount: number;
+  note?: string;
+}
+
+export interface Account {
+  id: number;
+  name: string;
+  // ISO 4217 code, e.g. "USD"
+  currency: string;
+  startingBalance: number;
+  cashFlows: CashFlow[];
+  // Set for prop-firm evaluation accounts
+  challenge?: ChallengeRules;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Prop-firm limits, in percent of the starting balance. Unset rules are not checked. */
+export interface ChallengeRules {
+  maxDailyLoss?: number;
+  maxTotalDrawdown?: number;
+  profitTarget?: number;
+  minTradingDays?: number;
+}
+
+// A single account, or every account combined
+export type AccountSelection = number | 'all';
+
+export interface Execution {
+  id: number;
+  side: 'entry' | 'exit';
+  date: string;
+  price: number;
+  quantity: number;
+  fee?: number;
 }
 
 export interface TdaItem {
@@ -20,6 +140,80 @@ export interface TdaItem {
   note: string;
 }
 
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Stroke {
+  points: Point[];
+  color: string;
+  size: number;
+  tool: 'pen' | 'eraser';
+}
+
+export type ShapeKind = 'rect' | 'ellipse' | 'line' | 'arrow' | 'hline' | 'text';
+
+/**
+ * Vector annotation drawn next to freehand strokes. `points` holds two anchors
+ * (opposite corners, or start and end of a line) so selection and resizing treat it like a stroke.
+ */
+export interface Shape {
+  points: Point[];
+  color: string;
+  size: number;
+  tool: ShapeKind;
+  text?: string;
+}
+
+/**
+ * Pasted or dropped picture (usually a chart screenshot). `points` are its top-left and
+ * bottom-right corners in world units; it always renders beneath strokes and shapes.
+ */
+export interface BoardImage {
+  points: Point[];
+  color: string;
+  size: number;
+  tool: 'image';
+  src: string;
+}
+
+export type BoardElement = Stroke | Shape | BoardImage;
+
+export type BoardBackground = 'solid' | 'grid' | 'dots';
+
+// Offset is in canvas (device) pixels, as the whiteboard renders it
+export interface BoardTransform {
+  scale: number;
+  offset: Point;
+  // Canvas size when the transform was saved, so the view can be rebuilt away from the board
+  viewport?: { width: number; height: number };
+}
+
+// Area of a board in world units
+export interface BoardRegion {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/** A whiteboard attached to a trade; without a region the whole board is meant. */
+export interface BoardLink {
+  boardId: number;
+  region?: BoardRegion;
+}
+
+export interface Board {
+  id: number;
+  name: string;
+  strokes: BoardElement[];
+  transform: BoardTransform;
+  background: BoardBackground;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface Plan {
   id: number;
   date: string;
@@ -54,6 +248,20 @@ export interface RiskStats {
   maxWinStreakVal: string;
   maxLossStreak: number;
   maxLossStreakVal: string;
+  // Set when the drawdown was measured on an account balance
+  ddAmount?: string;
+  // Only trades with a stop-loss have an R multiple
+  rTradeCount: number;
+  avgR: string;
+  avgPlannedR: string;
+  rDistribution: RBucket[];
+}
+
+export interface RBucket {
+  label: string;
+  count: number;
+  // Buckets below 0R hold losing trades
+  isLoss: boolean;
 }
 
 export type Timeframe = 'all' | 'week' | 'month' | 'custom';
@@ -0,0 +1,139 @@
+import { Account, Trade } from '../types';
+import { computeTradePnl, isClosedTrade, withComputedPnl } from './tradePnl';
+import { compareTimestamps } from './timezone';
+
+export interface EquityPoint {
+  tradeId: number;
+  date: string;
+  // Trade result in the account currency
+  amount: number;
+  balance: number;
+  // Deposits minus withdrawals up to the trade
+  netDeposits: number;
+  // Compounded return since the start, unaffected by deposits and withdrawals
+  growth: number;
+  // How far the balance is below its peak, in percent and in currency
+  drawdown: number;
+  drawdownAmount: number;
+}
+
+export interface EquityCurve {
+  points: EquityPoint[];
+  balance: number;
+  netDeposits: number;
+  growth: number;
+  maxDrawdown: number;
+  maxDrawdownAmount: number;
+}
+
+/**
+ * One account standing in for all of them, so the combined view gets a balance too.
+ * Balances in different currencies can't be added up, so that case gives null.
+ */
+export const combineAccounts = (accounts: Account[]): Account | null => {
+  if (accounts.length === 0 || accounts.some(a => a.currency !== accounts[0].currency)) return null;
+  return {
+    id: 0,
+    name: 'All Accounts',
+    currency: accounts[0].currency,
+    startingBalance: accounts.reduce((acc, a) => acc + a.startingBalance, 0),
+    cashFlows: accounts.flatMap(a => a.cashFlows),
+    createdAt: accounts[0].createdAt,
+    updatedAt: accounts[0].updatedAt
+  };
+};
+
+/**
+ * A trade's result in currency. Trades with executions carry their own amount;
+ * hand-entered ones only have `pnl`, read as a percent of the balance they were taken on.
+ */
+export const getTradeAmount = (trade: Trade, balanceBefore: number): number =>
+  computeTradePnl(trade)?.amount ?? (balanceBefore * trade.pnl) / 100;
+
+/**
+ * Replays the account's deposits, withdrawals and closed trades in time order.
+ * Cash flows move the peak along with the balance, so a withdrawal is not counted as drawdown.
+ */
+export const buildEquityCurve = (account: Account, trades: Trade[]): EquityCurve => {
+  type Event = { time: string; order: number; trade?: Trade; cashFlow?: number };
+  const events: Event[] = [
+    ...account.cashFlows.map(flow => ({ time: flow.date, order: 0, cashFlow: flow.amount })),
+    ...trades.filter(isClosedTrade).map(trade => ({ time: trade.exitDate, order: 1, trade }))
+  ];
+  // Cash that arrives the same minute a trade closes is counted first
+  events.sort((a, b) => compareTimestamps(a.time, b.time) || a.order - b.order || (a.trade?.id ?? 0) - (b.trade?.id ?? 0));
+
+  let balance = account.startingBalance;
+  let peak = balance;
+  let growthIndex = 1;
+  let netDeposits = 0;
+  let maxDrawdown = 0;
+  let maxDrawdownAmount = 0;
+  const points: EquityPoint[] = [];
+
+  events.forEach(event => {
+    if (event.cashFlow !== undefined) {
+      balance += event.cashFlow;
+      peak += event.cashFlow;
+      netDeposits += event.cashFlow;
+      return;
+    }
+
+    const trade = event.trade!;
+    const amount = getTradeAmount(trade, balance);
+    if (balance > 0) growthIndex *= 1 + amount / balance;
+    balance += amount;
+    peak = Math.max(peak, balance);
+
+    const drawdownAmount = peak - balance;
+    const drawdown = peak > 0 ? (drawdownAmount / peak) * 100 : 0;
+    maxDrawdown = Math.max(maxDrawdown, drawdown);
+    maxDrawdownAmount = Math.max(maxDrawdownAmount, drawdownAmount);
+
+    points.push({
+      tradeId: trade.id,
+      date: trade.date,
+      amount,
+      balance,
+      netDeposits,
+      growth: (growthIndex - 1) * 100,
+      drawdown,
+      drawdownAmount
+    });
+  });
+
+  return {
+    points,
+    balance,
+    netDeposits,
+    growth: (growthIndex - 1) * 100,
+    maxDrawdown,
+    maxDrawdownAmount
+  };
+};
+
+/**
+ * Balance the account held when the trade closed, before its own result: the starting balance,
+ * cash flows and the account's other trades up to then. An undated trade gets the current balance.
+ */
+export const getBalanceBefore = (account: Account, trades: Trade[], trade: Partial<Trade>): number => {
+  const time = trade.exitDate || trade.entryDate;
+  const isEarlier = (date: string) => !time || compareTimestamps(date, time) < 0;
+  const cashFlows = account.cashFlows.filter(flow => isEarlier(flow.date));
+  const earlier = trades.filter(t => t.id !== trade.id && t.accountId === account.id && isClosedTrade(t) && isEarlier(t.exitDate));
+  return buildEquityCurve({ ...account, cashFlows }, earlier).balance;
+};
+
+/**
+ * Trades whose price-based `pnl` no longer matches the balance before them, with the percent
+ * measured again. Editing or deleting an earlier trade or a cash flow moves that balance.
+ */
+export const rebaseComputedPnl = (account: Account, trades: Trade[]): Trade[] => {
+  const byId = new Map(trades.map(trade => [trade.id, trade]));
+  return buildEquityCurve(account, trades).points.flatMap(point => {
+    const trade = byId.get(point.tradeId)!;
+    if (!computeTradePnl(trade)) return [];
+    const { pnl } = withComputedPnl(trade, point.balance - point.amount);
+    return pnl !== trade.pnl ? [{ ...trade, pnl }] : [];
+  });
+};
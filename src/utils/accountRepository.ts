@@ -0,0 +1,52 @@
+import { Account } from '../types';
+import { DB_CONFIG, DEFAULT_ACCOUNT } from '../constants';
+import { openDatabase, promisifyRequest, transactionDone } from './db';
+
+const ACCOUNTS = DB_CONFIG.STORES.ACCOUNTS;
+
+export type AccountSettings = Pick<Account, 'name' | 'currency' | 'startingBalance' | 'cashFlows' | 'challenge'>;
+
+export const newAccount = (settings: Partial<AccountSettings> & { id?: number } = {}): Account => {
+  const now = new Date().toISOString();
+  return {
+    ...DEFAULT_ACCOUNT,
+    id: Date.now(),
+    createdAt: now,
+    updatedAt: now,
+    ...settings
+  };
+};
+
+const sortOldestFirst = (accounts: Account[]) => accounts.sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id - b.id);
+
+export const loadAccounts = async (): Promise<Account[]> => {
+  const db = await openDatabase();
+  const stored = await promisifyRequest(
+    db.transaction(ACCOUNTS, 'readonly').objectStore(ACCOUNTS).getAll()
+  ) as Account[];
+  if (stored.length > 0) return sortOldestFirst(stored);
+
+  // Trades recorded before accounts existed were migrated onto the default account's id
+  const account = newAccount({ id: DEFAULT_ACCOUNT.id });
+  const tx = db.transaction(ACCOUNTS, 'readwrite');
+  tx.objectStore(ACCOUNTS).put(account);
+  await transactionDone(tx);
+  return [account];
+};
+
+export const putAccounts = async (accounts: Account[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(ACCOUNTS, 'readwrite');
+  const store = tx.objectStore(ACCOUNTS);
+  accounts.forEach(account => store.put(account));
+  return transactionDone(tx);
+};
+
+export const putAccount = (account: Account): Promise<void> => putAccounts([account]);
+
+export const deleteAccountById = async (id: number): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(ACCOUNTS, 'readwrite');
+  tx.objectStore(ACCOUNTS).delete(id);
+  return transactionDone(tx);
+};
@@ -0,0 +1,267 @@
+import { Account, Board, Trade } from '../types';
+import { DB_CONFIG, DEFAULT_ACCOUNT, DEFAULT_ACCOUNT_ID, STORAGE_KEYS } from '../constants';
+import { openDatabase, transactionDone } from './db';
+import { loadTrades, putTrades } from './tradeRepository';
+import { loadBoards, newBoard, putBoards } from './boardRepository';
+import { loadAccounts, newAccount, putAccounts } from './accountRepository';
+import { migrateTrades, TRADE_SCHEMA_VERSION } from './tradeMigrations';
+
+export const BACKUP_FORMAT = 'aethelir-workspace';
+
+/** Version of the bundle layout itself; trades carry their own schema version. */
+export const BACKUP_VERSION = 3;
+
+// localStorage keys captured in a backup, grouped by what they hold
+const BACKUP_SECTIONS = {
+  layout: [STORAGE_KEYS.LAYOUT, STORAGE_KEYS.NAV_POSITION],
+  journalView: [STORAGE_KEYS.JOURNAL_VIEW, STORAGE_KEYS.JOURNAL_VIEWS, STORAGE_KEYS.ACTIVE_ACCOUNT, STORAGE_KEYS.CUSTOM_FIELDS, STORAGE_KEYS.TAG_GROUPS, STORAGE_KEYS.SESSIONS, STORAGE_KEYS.TIMEZONE],
+  whiteboard: [
+    STORAGE_KEYS.ACTIVE_BOARD,
+    'whiteboard-show-coordinates',
+    'whiteboard-show-zoom',
+    'whiteboard-zoom-speed',
+    'whiteboard-display-position',
+    'whiteboard-display-size',
+    'whiteboard-ui-hidden',
+    'traders-whiteboard-ui-hidden'
+  ],
+  shortcuts: ['whiteboard-shortcuts']
+};
+
+export type BackupSection = keyof typeof BACKUP_SECTIONS;
+export type RestoreMode = 'merge' | 'replace';
+
+export interface WorkspaceBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  trades: {
+    schemaVersion: number;
+    items: Trade[];
+  };
+  boards: Board[];
+  accounts: Account[];
+  // Raw localStorage values, exactly as the app wrote them
+  storage: Record<BackupSection, Record<string, string>>;
+}
+
+const SECTION_IDS = Object.keys(BACKUP_SECTIONS) as BackupSection[];
+
+export const createBackup = async (): Promise<WorkspaceBackup> => {
+  const storage = {} as WorkspaceBackup['storage'];
+  SECTION_IDS.forEach(section => {
+    storage[section] = {};
+    BACKUP_SECTIONS[section].forEach(key => {
+      const value = localStorage.getItem(key);
+      if (value !== null) storage[section][key] = value;
+    });
+  });
+
+  const [trades, boards, accounts] = await Promise.all([
+    loadTrades(getStoredTimezone(storage.journalView)),
+    loadBoards(),
+    loadAccounts()
+  ]);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    trades: { schemaVersion: TRADE_SCHEMA_VERSION, items: trades },
+    boards,
+    accounts,
+    storage
+  };
+};
+
+export const backupFileName = (date = new Date()) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `aethelir-backup-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}.json`;
+};
+
+// The journal timezone saved with the settings; it used to be a setting of the sessions alone
+const getStoredTimezone = (journalView: Record<string, string>): string => {
+  if (journalView[STORAGE_KEYS.TIMEZONE] !== undefined) return journalView[STORAGE_KEYS.TIMEZONE];
+  try {
+    const sessions = JSON.parse(journalView[STORAGE_KEYS.SESSIONS] || '{}');
+    return typeof sessions?.timezone === 'string' ? sessions.timezone : '';
+  } catch {
+    return '';
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseBoards = (value: unknown): Board[] => {
+  if (!Array.isArray(value)) throw new Error('The backup has no boards section.');
+  return value.map((raw, i) => {
+    if (!isObject(raw) || typeof raw.id !== 'number' || !Array.isArray(raw.strokes)) {
+      throw new Error(`Board #${i + 1} in the backup is damaged.`);
+    }
+    const board = newBoard(typeof raw.name === 'string' ? raw.name : `Board ${i + 1}`);
+    return {
+      ...board,
+      ...raw,
+      transform: isObject(raw.transform) ? raw.transform : board.transform,
+      background: ['solid', 'grid', 'dots'].includes(raw.background) ? raw.background : board.background
+    } as Board;
+  });
+};
+
+const parseAccounts = (value: unknown): Account[] => {
+  if (!Array.isArray(value)) throw new Error('The backup has no accounts section.');
+  return value.map((raw, i) => {
+    if (!isObject(raw) || typeof raw.id !== 'number' || typeof raw.startingBalance !== 'number') {
+      throw new Error(`Account #${i + 1} in the backup is damaged.`);
+    }
+    return {
+      ...newAccount({ id: raw.id }),
+      ...raw,
+      cashFlows: Array.isArray(raw.cashFlows) ? raw.cashFlows : []
+    } as Account;
+  });
+};
+
+// v1 bundles predate boards and kept the single whiteboard's strokes in localStorage
+const readV1Board = (rawStorage: Record<string, any>): Board[] => {
+  const whiteboard = isObject(rawStorage.whiteboard) ? rawStorage.whiteboard : {};
+  let strokes: unknown = [];
+  try {
+    strokes = JSON.parse(whiteboard[STORAGE_KEYS.WHITEBOARD] || '[]');
+  } catch {
+    throw new Error('The whiteboard in the backup is damaged.');
+  }
+  if (!Array.isArray(strokes) || strokes.length === 0) return [];
+  const background = whiteboard['whiteboard-background-type'];
+  return [newBoard('Restored board', {
+    strokes,
+    background: ['solid', 'grid', 'dots'].includes(background) ? background : 'solid'
+  })];
+};
+
+/**
+ * Validates a bundle read from disk and upgrades its trades to the current schema.
+ * Throws with a message that can be shown to the user as-is.
+ */
+export const parseBackup = (text: string): WorkspaceBackup => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (!isObject(data) || data.format !== BACKUP_FORMAT) {
+    throw new Error('The file is not a workspace backup.');
+  }
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    throw new Error(`The backup was made by a newer version of the app (format v${data.version}).`);
+  }
+
+  if (!isObject(data.trades) || !Array.isArray(data.trades.items) || typeof data.trades.schemaVersion !== 'number') {
+    throw new Error('The backup has no trades section.');
+  }
+  const invalid = data.trades.items.findIndex((t: unknown) => !isObject(t) || typeof t.id !== 'number');
+  if (invalid !== -1) {
+    throw new Error(`Trade #${invalid + 1} in the backup has no id.`);
+  }
+
+  const rawStorage = isObject(data.storage) ? data.storage : {};
+  const boards = data.version < 2 ? readV1Board(rawStorage) : parseBoards(data.boards);
+  // Older bundles had a single implicit account, which the default one stands in for
+  const accounts = data.version < 3 ? [] : parseAccounts(data.accounts);
+
+  const storage = {} as WorkspaceBackup['storage'];
+  SECTION_IDS.forEach(section => {
+    storage[section] = {};
+    const values = isObject(rawStorage[section]) ? rawStorage[section] : {};
+    // Only keys this app owns are restored, whatever else the file contains
+    BACKUP_SECTIONS[section].forEach(key => {
+      if (typeof values[key] === 'string') storage[section][key] = values[key];
+    });
+  });
+  // Offset-less timestamps of older bundles are wall times in the timezone the bundle was made in
+  const items = migrateTrades(data.trades.items, data.trades.schemaVersion, getStoredTimezone(storage.journalView));
+
+  return {
+    format: BACKUP_FORMAT,
+    version: data.version,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    trades: { schemaVersion: TRADE_SCHEMA_VERSION, items },
+    boards,
+    accounts,
+    storage
+  };
+};
+
+// Clears and refills every store in one transaction, so a failed restore leaves the old workspace whole
+const replaceStores = async (backup: WorkspaceBackup): Promise<void> => {
+  const { TRADES, BOARDS, ACCOUNTS } = DB_CONFIG.STORES;
+  const db = await openDatabase();
+  const tx = db.transaction([TRADES, BOARDS, ACCOUNTS], 'readwrite');
+  const fill = (storeName: string, items: unknown[]) => {
+    const store = tx.objectStore(storeName);
+    store.clear();
+    items.forEach(item => store.put(item));
+  };
+  fill(TRADES, backup.trades.items);
+  fill(BOARDS, backup.boards);
+  fill(ACCOUNTS, backup.accounts);
+  return transactionDone(tx);
+};
+
+// Every device has a default account under the same id, so its settings are merged rather than
+// skipped: fields still at the defaults here take the backup's, and a challenge is only added
+// where there is none. Cash flows this device doesn't have are appended
+const mergeDefaultAccount = (local: Account, incoming: Account): Account => {
+  const fillIn = <K extends 'name' | 'currency' | 'startingBalance'>(key: K) =>
+    local[key] === DEFAULT_ACCOUNT[key] ? incoming[key] : local[key];
+  const localFlowIds = new Set(local.cashFlows.map(flow => flow.id));
+  return {
+    ...local,
+    name: fillIn('name'),
+    currency: fillIn('currency'),
+    startingBalance: fillIn('startingBalance'),
+    cashFlows: [...local.cashFlows, ...incoming.cashFlows.filter(flow => !localFlowIds.has(flow.id))],
+    challenge: local.challenge ?? incoming.challenge,
+    updatedAt: new Date().toISOString()
+  };
+};
+
+/**
+ * Replace wipes the journal, boards, accounts and every backed-up setting first.
+ * Merge only adds trades, boards and accounts whose id is not here yet, fills in the default
+ * account and settings this device doesn't have, so nothing local is overwritten.
+ */
+export const restoreBackup = async (backup: WorkspaceBackup, mode: RestoreMode): Promise<void> => {
+  if (mode === 'replace') {
+    await replaceStores(backup);
+  } else {
+    const existingTradeIds = new Set((await loadTrades()).map(t => t.id));
+    await putTrades(backup.trades.items.filter(t => !existingTradeIds.has(t.id)));
+    const existingBoardIds = new Set((await loadBoards()).map(b => b.id));
+    await putBoards(backup.boards.filter(b => !existingBoardIds.has(b.id)));
+    const localAccounts = await loadAccounts();
+    const existingAccountIds = new Set(localAccounts.map(a => a.id));
+    const localDefault = localAccounts.find(a => a.id === DEFAULT_ACCOUNT_ID);
+    const incomingDefault = backup.accounts.find(a => a.id === DEFAULT_ACCOUNT_ID);
+    await putAccounts([
+      ...backup.accounts.filter(a => !existingAccountIds.has(a.id)),
+      ...(localDefault && incomingDefault ? [mergeDefaultAccount(localDefault, incomingDefault)] : [])
+    ]);
+  }
+
+  SECTION_IDS.forEach(section => {
+    const values = backup.storage[section];
+    BACKUP_SECTIONS[section].forEach(key => {
+      const incoming = values[key];
+      if (mode === 'replace') {
+        if (incoming === undefined) localStorage.removeItem(key);
+        else localStorage.setItem(key, incoming);
+      } else if (incoming !== undefined && localStorage.getItem(key) === null) {
+        localStorage.setItem(key, incoming);
+      }
+    });
+  });
+};
@@ -0,0 +1,78 @@
+import { Board, BoardBackground, Stroke } from '../types';
+import { DB_CONFIG, STORAGE_KEYS } from '../constants';
+import { openDatabase, promisifyRequest, transactionDone } from './db';
+import { readStoredJson } from './index';
+
+const BOARDS = DB_CONFIG.STORES.BOARDS;
+
+// Background used to be a global whiteboard setting
+const LEGACY_BACKGROUND_KEY = 'whiteboard-background-type';
+
+export type BoardContent = Pick<Board, 'strokes' | 'transform' | 'background'>;
+
+export const newBoard = (name: string, content: Partial<BoardContent> = {}): Board => {
+  const now = new Date().toISOString();
+  return {
+    id: Date.now(),
+    name,
+    strokes: [],
+    transform: { scale: 1, offset: { x: 0, y: 0 } },
+    background: 'solid',
+    createdAt: now,
+    updatedAt: now,
+    ...content
+  };
+};
+
+const sortOldestFirst = (boards: Board[]) => boards.sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id - b.id);
+
+/**
+ * The first board of a profile: whatever the single whiteboard held before boards existed,
+ * or an empty one.
+ */
+const createInitialBoard = (): { board: Board; fromLegacy: boolean } => {
+  const strokes = readStoredJson<Stroke[] | null>(STORAGE_KEYS.WHITEBOARD, null);
+  const background = localStorage.getItem(LEGACY_BACKGROUND_KEY) as BoardBackground | null;
+  const board = newBoard('Board 1', {
+    strokes: Array.isArray(strokes) ? strokes : [],
+    background: background || 'solid'
+  });
+  return { board, fromLegacy: strokes !== null || background !== null };
+};
+
+export const loadBoards = async (): Promise<Board[]> => {
+  const db = await openDatabase();
+  const stored = await promisifyRequest(
+    db.transaction(BOARDS, 'readonly').objectStore(BOARDS).getAll()
+  ) as Board[];
+  if (stored.length > 0) return sortOldestFirst(stored);
+
+  const { board, fromLegacy } = createInitialBoard();
+  const tx = db.transaction(BOARDS, 'readwrite');
+  tx.objectStore(BOARDS).put(board);
+  await transactionDone(tx);
+
+  // Only drop the old keys once the board is safely committed
+  if (fromLegacy) {
+    localStorage.removeItem(STORAGE_KEYS.WHITEBOARD);
+    localStorage.removeItem(LEGACY_BACKGROUND_KEY);
+  }
+  return [board];
+};
+
+export const putBoards = async (boards: Board[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(BOARDS, 'readwrite');
+  const store = tx.objectStore(BOARDS);
+  boards.forEach(board => store.put(board));
+  return transactionDone(tx);
+};
+
+export const putBoard = (board: Board): Promise<void> => putBoards([board]);
+
+export const deleteBoardById = async (id: number): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(BOARDS, 'readwrite');
+  tx.objectStore(BOARDS).delete(id);
+  return transactionDone(tx);
+};
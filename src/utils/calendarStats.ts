@@ -0,0 +1,43 @@
+import { Trade } from '../types';
+import { toDateKey } from '.';
+import { getTradeDay } from './timezone';
+
+export interface PeriodStats {
+  pnl: number;
+  trades: number;
+  wins: number;
+}
+
+const EMPTY_STATS: PeriodStats = { pnl: 0, trades: 0, wins: 0 };
+
+/** Net PnL, trade count and wins per day, keyed by the trade's open date (yyyy-mm-dd) in the timezone. */
+export const getDailyStats = (trades: Trade[], timezone = ''): Map<string, PeriodStats> => {
+  const days = new Map<string, PeriodStats>();
+  trades.forEach(trade => {
+    const key = getTradeDay(trade, timezone);
+    const day = days.get(key) ?? EMPTY_STATS;
+    days.set(key, {
+      pnl: day.pnl + trade.pnl,
+      trades: day.trades + 1,
+      wins: day.wins + (trade.pnl > 0 ? 1 : 0)
+    });
+  });
+  return days;
+};
+
+export const sumStats = (stats: (PeriodStats | undefined)[]): PeriodStats =>
+  stats.reduce<PeriodStats>((acc, s) => (s ? { pnl: acc.pnl + s.pnl, trades: acc.trades + s.trades, wins: acc.wins + s.wins } : acc), EMPTY_STATS);
+
+export const getWinrate = (stats: PeriodStats): number => (stats.trades ? (stats.wins / stats.trades) * 100 : 0);
+
+/** Monday-first weeks covering the month; days outside it are null. */
+export const getMonthWeeks = (year: number, month: number): (string | null)[][] => {
+  const offset = (new Date(year, month, 1).getDay() + 6) % 7;
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  const cells: (string | null)[] = [
+    ...Array<null>(offset).fill(null),
+    ...Array.from({ length: daysInMonth }, (_, i) => toDateKey(new Date(year, month, i + 1)))
+  ];
+  while (cells.length % 7) cells.push(null);
+  return Array.from({ length: cells.length / 7 }, (_, i) => cells.slice(i * 7, i * 7 + 7));
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { Account, Trade } from '../types';
+import { evaluateChallenge } from './challenge';
+
+const trade = (id: number, exitDate: string, pnl: number): Trade => ({
+  id, accountId: 1, date: exitDate.slice(0, 10), entryDate: exitDate, exitDate,
+  ticker: 'BTC', direction: 'Long', style: 'Intraday', risk: 1, pnl
+});
+
+const account = (cashFlows: Account['cashFlows']): Account => ({
+  id: 1, name: 'Challenge', currency: 'USD', startingBalance: 10000, cashFlows,
+  challenge: { maxTotalDrawdown: 10 },
+  createdAt: '', updatedAt: ''
+});
+
+const drawdownRule = (progress: ReturnType<typeof evaluateChallenge>) =>
+  progress!.rules.find(rule => rule.id === 'maxTotalDrawdown')!;
+
+describe('evaluateChallenge max total drawdown', () => {
+  it('measures the deepest loss against what was funded at the time', () => {
+    // 9500 plus the deposit is 19500 of 20000 funded; the -6% trade leaves 18330, 1670 or 16.7% of the start below it
+    const progress = evaluateChallenge(
+      account([{ id: 1, date: '2026-03-02T00:00Z', amount: 10000 }]),
+      [trade(1, '2026-03-01T10:00Z', -5), trade(2, '2026-03-03T10:00Z', -6), trade(3, '2026-03-04T10:00Z', 12)],
+      new Date('2026-03-05T00:00Z')
+    );
+    const rule = drawdownRule(progress);
+    expect(rule.detail).toBe('-0.0% of -10% · deepest -16.7%');
+    expect(rule.status).toBe('breached');
+  });
+
+  it('lowers the baseline after a withdrawal', () => {
+    // 5000 is funded once 5000 is withdrawn; 6000 then 5700 stays above it, far as it is below the start
+    const progress = evaluateChallenge(
+      account([{ id: 1, date: '2026-03-02T00:00Z', amount: -5000 }]),
+      [trade(1, '2026-03-01T10:00Z', 10), trade(2, '2026-03-03T10:00Z', -5)],
+      new Date('2026-03-05T00:00Z')
+    );
+    expect(drawdownRule(progress)).toMatchObject({ status: 'ok', detail: '-0.0% of -10% · deepest -0.0%' });
+  });
+});
@@ -0,0 +1,111 @@
+import { Account, Trade } from '../types';
+import { buildEquityCurve } from './accountEquity';
+import { isClosedTrade } from './tradePnl';
+import { getTradeDay, toZonedDateKey } from './timezone';
+
+export type ChallengeRuleId = 'maxDailyLoss' | 'maxTotalDrawdown' | 'profitTarget' | 'minTradingDays';
+export type ChallengeRuleStatus = 'ok' | 'warning' | 'breached' | 'passed';
+
+export interface ChallengeRuleProgress {
+  id: ChallengeRuleId;
+  label: string;
+  status: ChallengeRuleStatus;
+  // Share of the limit or target used so far, 0..1
+  progress: number;
+  detail: string;
+}
+
+export interface ChallengeProgress {
+  rules: ChallengeRuleProgress[];
+  isBreached: boolean;
+  // Every target met without breaking a limit
+  isPassed: boolean;
+}
+
+// Loss limits turn into warnings once this much of them is used
+const WARNING_SHARE = 0.8;
+
+const lossStatus = (used: number, isBroken: boolean): ChallengeRuleStatus =>
+  isBroken ? 'breached' : used >= WARNING_SHARE ? 'warning' : 'ok';
+
+/**
+ * Checks an account against its prop-firm rules. Limits are percentages of the starting
+ * balance, the way evaluation firms state them, and losses count on the day a trade is taken.
+ */
+export const evaluateChallenge = (account: Account, trades: Trade[], now = new Date(), timezone = ''): ChallengeProgress | null => {
+  const rules = account.challenge;
+  if (!rules) return null;
+
+  const start = account.startingBalance;
+  const curve = buildEquityCurve(account, trades);
+  const percentOfStart = (amount: number) => (start > 0 ? (amount / start) * 100 : 0);
+  const progress: ChallengeRuleProgress[] = [];
+
+  // Days are counted in the journal timezone
+  const dayById = new Map(trades.map(trade => [trade.id, getTradeDay(trade, timezone)]));
+  const dailyPnl = new Map<string, number>();
+  curve.points.forEach(point => {
+    const day = dayById.get(point.tradeId) ?? point.date;
+    dailyPnl.set(day, (dailyPnl.get(day) ?? 0) + point.amount);
+  });
+
+  if (rules.maxDailyLoss) {
+    const limit = rules.maxDailyLoss;
+    const todayLoss = Math.max(0, -percentOfStart(dailyPnl.get(toZonedDateKey(now, timezone)) ?? 0));
+    const worstLoss = Math.max(0, ...Array.from(dailyPnl.values()).map(pnl => -percentOfStart(pnl)));
+    progress.push({
+      id: 'maxDailyLoss',
+      label: 'Max Daily Loss',
+      status: lossStatus(todayLoss / limit, worstLoss >= limit),
+      progress: Math.min(1, todayLoss / limit),
+      detail: `Today -${todayLoss.toFixed(1)}% of -${limit}% · worst day -${worstLoss.toFixed(1)}%`
+    });
+  }
+
+  if (rules.maxTotalDrawdown) {
+    const limit = rules.maxTotalDrawdown;
+    // Measured from the starting balance plus whatever was deposited by then, at every point
+    const lossBelowFunded = (balance: number, netDeposits: number) => Math.max(0, percentOfStart(start + netDeposits - balance));
+    const currentLoss = lossBelowFunded(curve.balance, curve.netDeposits);
+    const worstLoss = Math.max(currentLoss, ...curve.points.map(p => lossBelowFunded(p.balance, p.netDeposits)));
+    progress.push({
+      id: 'maxTotalDrawdown',
+      label: 'Max Total Drawdown',
+      status: lossStatus(currentLoss / limit, worstLoss >= limit),
+      progress: Math.min(1, currentLoss / limit),
+      detail: `-${currentLoss.toFixed(1)}% of -${limit}% · deepest -${worstLoss.toFixed(1)}%`
+    });
+  }
+
+  if (rules.profitTarget) {
+    const target = rules.profitTarget;
+    const profit = percentOfStart(curve.balance - start - curve.netDeposits);
+    progress.push({
+      id: 'profitTarget',
+      label: 'Profit Target',
+      status: profit >= target ? 'passed' : 'ok',
+      progress: Math.max(0, Math.min(1, profit / target)),
+      detail: `${profit >= 0 ? '+' : ''}${profit.toFixed(1)}% of +${target}%`
+    });
+  }
+
+  if (rules.minTradingDays) {
+    const target = rules.minTradingDays;
+    const days = new Set(trades.filter(isClosedTrade).map(t => getTradeDay(t, timezone))).size;
+    progress.push({
+      id: 'minTradingDays',
+      label: 'Min Trading Days',
+      status: days >= target ? 'passed' : 'ok',
+      progress: Math.min(1, days / target),
+      detail: `${days} of ${target} days`
+    });
+  }
+
+  const isBreached = progress.some(rule => rule.status === 'breached');
+  const targets = progress.filter(rule => rule.id === 'profitTarget' || rule.id === 'minTradingDays');
+  return {
+    rules: progress,
+    isBreached,
+    isPassed: !isBreached && targets.length > 0 && targets.every(rule => rule.status === 'passed')
+  };
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { Trade } from '../types';
+import { findDuplicateTrade, ImportedTrade, parseDateTime } from './csvImport';
+
+describe('parseDateTime', () => {
+  it('keeps wall times as they are written', () => {
+    expect(parseDateTime('2026.03.02 09:30', 'Europe/Berlin')).toBe('2026-03-02T09:30');
+    expect(parseDateTime('02.03.2026 09:30', 'Europe/Berlin')).toBe('2026-03-02T09:30');
+  });
+
+  it('moves timestamps with an offset and epoch values onto the journal clock', () => {
+    expect(parseDateTime('2026-03-02T08:30:00Z', 'Europe/Berlin')).toBe('2026-03-02T09:30');
+    expect(parseDateTime('1772440200', 'America/New_York')).toBe('2026-03-02T03:30');
+  });
+});
+
+describe('findDuplicateTrade', () => {
+  const existing: Trade[] = [{
+    id: 1, accountId: 1, date: '2026-03-02', entryDate: '2026-03-02T09:30+01:00', exitDate: '2026-03-02T10:00+01:00',
+    ticker: 'BTCUSDT', direction: 'Long', style: 'Intraday', risk: 1, pnl: 2
+  }];
+  const imported = (entryDate: string): ImportedTrade => ({ ticker: 'btcusdt', direction: 'Long', entryDate, exitDate: entryDate, pnl: 2 });
+
+  it('matches the same entry recorded at another offset', () => {
+    expect(findDuplicateTrade(imported('2026-03-02T08:30Z'), existing, 'Europe/Berlin')).toBe(1);
+  });
+
+  it('reads wall times in the journal timezone', () => {
+    expect(findDuplicateTrade(imported('2026-03-02T09:30'), existing, 'Europe/Berlin')).toBe(1);
+    expect(findDuplicateTrade(imported('2026-03-02T09:30'), existing, 'America/New_York')).toBeNull();
+  });
+
+  it('tells apart trades at the same wall time but a different offset', () => {
+    expect(findDuplicateTrade(imported('2026-03-02T09:30Z'), existing, 'Europe/Berlin')).toBeNull();
+  });
+});
@@ -0,0 +1,288 @@
+import { Trade } from '../types';
+import { normalizeTimestamp, toWallTime } from './timezone';
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export type ImportField = 'ticker' | 'direction' | 'entryDate' | 'exitDate' | 'pnl' | 'risk';
+
+// Column index in the CSV for each Trade field; unmapped fields are left out
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export type ImportedTrade = Pick<Trade, 'ticker' | 'direction' | 'entryDate' | 'exitDate' | 'pnl'> & Partial<Pick<Trade, 'risk'>>;
+
+export interface ParsedImportRow {
+  rowNumber: number;
+  trade: ImportedTrade | null;
+  errors: string[];
+  duplicateOf: number | null;
+}
+
+export const IMPORT_FIELDS: { id: ImportField; label: string; required: boolean }[] = [
+  { id: 'ticker', label: 'Ticker', required: true },
+  { id: 'direction', label: 'Direction', required: true },
+  { id: 'entryDate', label: 'Entry Date', required: true },
+  { id: 'exitDate', label: 'Exit Date', required: false },
+  { id: 'pnl', label: 'PnL', required: true },
+  { id: 'risk', label: 'Risk (%)', required: false }
+];
+
+// Lower-cased header names commonly used by brokers and exchanges for each field
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  ticker: ['ticker', 'symbol', 'pair', 'instrument', 'market', 'contract', 'asset'],
+  direction: ['direction', 'side', 'type', 'position', 'long/short', 'trade type'],
+  entryDate: ['entry date', 'entrydate', 'open date', 'open time', 'opened', 'entry time', 'date', 'time'],
+  exitDate: ['exit date', 'exitdate', 'close date', 'close time', 'closed', 'exit time'],
+  pnl: ['pnl', 'p&l', 'profit', 'realized pnl', 'realized profit', 'closed pnl', 'net profit', 'return', 'result'],
+  risk: ['risk', 'risk %', 'risk (%)', 'risk percent']
+};
+
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const candidates = [',', ';', '\t'];
+  let best = ',';
+  let bestCount = 0;
+  candidates.forEach(candidate => {
+    const count = firstLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes ("") and newlines inside quotes.
+ * The delimiter is sniffed from the header line when not given.
+ */
+export const parseCsv = (text: string, delimiter = detectDelimiter(text)): CsvTable => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip the BOM that Excel adds to UTF-8 exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records
+    .map(r => r.map(cell => cell.trim()))
+    .filter(r => r.some(cell => cell !== ''));
+
+  const [headers = [], ...rows] = nonEmpty;
+  return { headers, rows };
+};
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(h => h.toLowerCase().trim());
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+
+  IMPORT_FIELDS.forEach(({ id }) => {
+    // Exact alias match first, then a looser "contains" match
+    let index = normalized.findIndex((h, i) => !used.has(i) && HEADER_ALIASES[id].includes(h));
+    if (index === -1) {
+      index = normalized.findIndex((h, i) => !used.has(i) && HEADER_ALIASES[id].some(alias => h.includes(alias)));
+    }
+    if (index !== -1) {
+      mapping[id] = index;
+      used.add(index);
+    }
+  });
+
+  return mapping;
+};
+
+/** Parses "1,234.50", "1 234,50", "$12.5", "-3.2%" and "(4.00)" style numbers. */
+export const parseNumber = (value: string): number | null => {
+  if (!value) return null;
+  let cleaned = value.replace(/[%$€£\s]/g, '');
+  let negative = false;
+  if (/^\(.*\)$/.test(cleaned)) {
+    negative = true;
+    cleaned = cleaned.slice(1, -1);
+  }
+
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    // Comma is the decimal separator
+    cleaned = cleaned.replace(/\./g, '').replace(',', '.');
+  } else {
+    cleaned = cleaned.replace(/,/g, '');
+  }
+
+  const num = Number(cleaned);
+  if (!isFinite(num) || cleaned === '') return null;
+  return negative ? -num : num;
+};
+
+export const parseDirection = (value: string): Trade['direction'] | null => {
+  const v = value.toLowerCase().trim();
+  if (['long', 'buy', 'b', 'l'].includes(v)) return 'Long';
+  if (['short', 'sell', 's'].includes(v)) return 'Short';
+  return null;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Normalizes the date formats exchanges commonly export into a "YYYY-MM-DDTHH:mm" wall time
+ * in the journal timezone. Timestamps with an offset and epoch values are moved onto its clock.
+ */
+export const parseDateTime = (value: string, timezone = ''): string | null => {
+  const v = value.trim();
+  if (!v) return null;
+
+  // 2025-11-20, 2025-11-20 14:45, 2025-11-20T14:45:00, 2025.11.20 14:45
+  let match = v.match(/^(\d{4})[-./](\d{1,2})[-./](\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?)?$/);
+  if (match) {
+    const [, y, m, d, h = '0', min = '0'] = match;
+    return `${y}-${pad(+m)}-${pad(+d)}T${pad(+h)}:${pad(+min)}`;
+  }
+
+  // 20.11.2025 14:45 (day first), 11/20/2025 14:45 (month first)
+  match = v.match(/^(\d{1,2})([./])(\d{1,2})\2(\d{4})(?:,?\s+(\d{1,2}):(\d{2})(?::\d{2})?)?$/);
+  if (match) {
+    const [, a, separator, b, y, h = '0', min = '0'] = match;
+    const [day, month] = separator === '.' ? [+a, +b] : [+b, +a];
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+    return `${y}-${pad(month)}-${pad(day)}T${pad(+h)}:${pad(+min)}`;
+  }
+
+  // Anything else the browser understands, including timestamps with an offset
+  const date = new Date(/^\d{10,13}$/.test(v) ? Number(v.length === 10 ? +v * 1000 : +v) : v);
+  if (isNaN(date.getTime())) return null;
+  return toWallTime(date.toISOString(), timezone);
+};
+
+const MINUTE_MS = 60 * 1000;
+
+// Journal trades carry an offset while imported rows may be wall times, so entries compare as instants
+const getEntryInstant = (trade: ImportedTrade, timezone: string) =>
+  new Date(normalizeTimestamp(trade.entryDate, timezone)).getTime();
+
+/** Two trades are considered the same when ticker, direction, entry minute and PnL match. */
+const isSameTrade = (a: ImportedTrade, b: ImportedTrade, timezone: string) =>
+  a.ticker.toUpperCase() === b.ticker.toUpperCase() &&
+  a.direction === b.direction &&
+  Math.abs(getEntryInstant(a, timezone) - getEntryInstant(b, timezone)) < MINUTE_MS &&
+  Math.abs(a.pnl - b.pnl) < 0.01;
+
+/** Returns the id of an existing journal trade matching the imported one, if any. */
+export const findDuplicateTrade = (trade: ImportedTrade, existing: Trade[], timezone = ''): number | null => {
+  const match = existing.find(t => isSameTrade(t, trade, timezone));
+  return match ? match.id : null;
+};
+
+export const mapRowToTrade = (row: string[], mapping: ColumnMapping, timezone = ''): { trade: ImportedTrade | null; errors: string[] } => {
+  const errors: string[] = [];
+  const cell = (field: ImportField) => (mapping[field] !== undefined ? (row[mapping[field]!] ?? '').trim() : '');
+
+  const ticker = cell('ticker').toUpperCase();
+  if (!ticker) errors.push('Ticker is empty');
+
+  const direction = parseDirection(cell('direction'));
+  if (!direction) errors.push(`Unknown direction "${cell('direction')}"`);
+
+  const entryDate = parseDateTime(cell('entryDate'), timezone);
+  if (!entryDate) errors.push(`Invalid entry date "${cell('entryDate')}"`);
+
+  let exitDate = entryDate;
+  if (cell('exitDate')) {
+    exitDate = parseDateTime(cell('exitDate'), timezone);
+    if (!exitDate) errors.push(`Invalid exit date "${cell('exitDate')}"`);
+  }
+  if (entryDate && exitDate && exitDate < entryDate) errors.push('Exit date is before entry date');
+
+  const pnl = parseNumber(cell('pnl'));
+  if (pnl === null) errors.push(`Invalid PnL "${cell('pnl')}"`);
+
+  let risk: number | undefined;
+  if (cell('risk')) {
+    const parsedRisk = parseNumber(cell('risk'));
+    if (parsedRisk === null || parsedRisk <= 0) errors.push(`Invalid risk "${cell('risk')}"`);
+    else risk = parsedRisk;
+  }
+
+  if (errors.length > 0) return { trade: null, errors };
+
+  return {
+    trade: { ticker, direction: direction!, entryDate: entryDate!, exitDate: exitDate!, pnl: pnl!, risk },
+    errors
+  };
+};
+
+/** Marks rows matching an existing journal trade, and rows repeating an earlier row of the same file. */
+const flagDuplicates = (rows: ParsedImportRow[], existing: Trade[], timezone: string): ParsedImportRow[] => {
+  const seen: ImportedTrade[] = [];
+  return rows.map(row => {
+    if (!row.trade) return row;
+    const { trade } = row;
+    const errors = [...row.errors];
+    const duplicateOf = findDuplicateTrade(trade, existing, timezone);
+    if (duplicateOf === null && seen.some(t => isSameTrade(t, trade, timezone))) {
+      errors.push('Repeats an earlier row in this file');
+    }
+    seen.push(trade);
+    return { ...row, trade: errors.length > 0 ? null : trade, errors, duplicateOf };
+  });
+};
+
+export const parseImportRows = (table: CsvTable, mapping: ColumnMapping, existing: Trade[], timezone = ''): ParsedImportRow[] => {
+  const missing = IMPORT_FIELDS.filter(f => f.required && mapping[f.id] === undefined).map(f => f.label);
+
+  const rows = table.rows.map((row, i): ParsedImportRow => {
+    // +2: one for the header line, one for 1-based numbering
+    const rowNumber = i + 2;
+    if (missing.length > 0) {
+      return { rowNumber, trade: null, errors: [`Map required columns: ${missing.join(', ')}`], duplicateOf: null };
+    }
+    return { rowNumber, ...mapRowToTrade(row, mapping, timezone), duplicateOf: null };
+  });
+  return flagDuplicates(rows, existing, timezone);
+};
+
+/** Review rows for trades produced by an import preset, numbered in file order. */
+export const checkImportedTrades = (trades: ImportedTrade[], existing: Trade[], timezone = ''): ParsedImportRow[] =>
+  flagDuplicates(trades.map((trade, i) => ({ rowNumber: i + 1, trade, errors: [], duplicateOf: null })), existing, timezone);
@@ -0,0 +1,37 @@
+import { CustomFieldDefinition, CustomFieldValue, Trade } from '../types';
+import { formatNumber } from '.';
+
+// Journal column ids of custom fields carry this prefix so they can't clash with built-in columns
+const COLUMN_PREFIX = 'custom:';
+
+export const customFieldColumnId = (field: CustomFieldDefinition): `custom:${string}` => `${COLUMN_PREFIX}${field.id}`;
+
+export const getCustomFieldIdFromColumn = (columnId: string): string | null =>
+  columnId.startsWith(COLUMN_PREFIX) ? columnId.slice(COLUMN_PREFIX.length) : null;
+
+export const isEmptyCustomValue = (value: CustomFieldValue | undefined): boolean =>
+  value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+export const getCustomFieldValue = (trade: Trade, field: CustomFieldDefinition): CustomFieldValue | undefined =>
+  trade.customFields?.[field.id];
+
+export const formatCustomFieldValue = (field: CustomFieldDefinition, value: CustomFieldValue | undefined): string => {
+  if (field.type === 'checkbox') return value ? 'Yes' : 'No';
+  if (isEmptyCustomValue(value)) return '—';
+  if (Array.isArray(value)) return value.join(', ');
+  if (field.type === 'number' && typeof value === 'number') return formatNumber(value, 8);
+  if (field.type === 'date' && typeof value === 'string') {
+    const [y, m, d] = value.split('-').map(Number);
+    return new Date(y, m - 1, d).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' });
+  }
+  return String(value);
+};
+
+/** Comparable value for the journal sort; null sorts below everything else. */
+export const getCustomFieldSortValue = (field: CustomFieldDefinition, value: CustomFieldValue | undefined): string | number | null => {
+  if (field.type === 'checkbox') return value ? 1 : 0;
+  if (isEmptyCustomValue(value)) return null;
+  if (typeof value === 'number') return value;
+  if (Array.isArray(value)) return value.join(', ').toLowerCase();
+  return String(value).toLowerCase();
+};
@@ -0,0 +1,85 @@
+import { DB_CONFIG } from '../constants';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and upgrades, if needed) the journal database.
+ * The connection is shared, so repeated calls are cheap.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this environment'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_CONFIG.NAME, DB_CONFIG.VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const oldVersion = event.oldVersion;
+
+      // Each block upgrades the database by one version, so users can skip releases
+      if (oldVersion < 1) {
+        const trades = db.createObjectStore(DB_CONFIG.STORES.TRADES, { keyPath: 'id' });
+        trades.createIndex('date', 'date');
+        trades.createIndex('ticker', 'ticker');
+        trades.createIndex('style', 'style');
+        db.createObjectStore(DB_CONFIG.STORES.META);
+      }
+      if (oldVersion < 2) {
+        db.createObjectStore(DB_CONFIG.STORES.BOARDS, { keyPath: 'id' });
+      }
+      if (oldVersion < 3) {
+        db.createObjectStore(DB_CONFIG.STORES.ACCOUNTS, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema: drop our connection so it isn't blocked
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn('Database upgrade is blocked by another open tab');
+  });
+
+  // Allow a retry on the next call instead of caching the failure
+  dbPromise.catch(() => { dbPromise = null; });
+
+  return dbPromise;
+};
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+};
+
+export const getMeta = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction(DB_CONFIG.STORES.META, 'readonly');
+  return promisifyRequest(tx.objectStore(DB_CONFIG.STORES.META).get(key));
+};
+
+export const setMeta = async (key: string, value: unknown): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(DB_CONFIG.STORES.META, 'readwrite');
+  tx.objectStore(DB_CONFIG.STORES.META).put(value, key);
+  return transactionDone(tx);
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { Account, Trade } from '../types';
+import { analyzeDrawdowns } from './drawdown';
+
+const trade = (id: number, exitDate: string, pnl: number): Trade => ({
+  id, accountId: 1, date: exitDate.slice(0, 10), entryDate: exitDate, exitDate,
+  ticker: 'BTC', direction: 'Long', style: 'Intraday', risk: 1, pnl
+});
+
+describe('analyzeDrawdowns', () => {
+  // Equity 1.1, 0.99, 0.891, 1.1583: 10% then 19% below the peak, recovered on the 10th
+  const trades = [
+    trade(1, '2026-03-01T10:00Z', 10),
+    trade(2, '2026-03-03T10:00Z', -10),
+    trade(3, '2026-03-05T10:00Z', -10),
+    trade(4, '2026-03-10T10:00Z', 30)
+  ];
+
+  it('compounds percent results without an account, in percent below the peak', () => {
+    const { points, maxDrawdown } = analyzeDrawdowns(trades, null, 'trade');
+    expect(points.map(p => p.drawdown)).toEqual([0, expect.closeTo(10), expect.closeTo(19), 0]);
+    expect(maxDrawdown).toBeCloseTo(19);
+  });
+
+  it('measures the same trades on the account balance alike', () => {
+    const account: Account = { id: 1, name: 'Main', currency: 'USD', startingBalance: 10000, cashFlows: [], createdAt: '', updatedAt: '' };
+    expect(analyzeDrawdowns(trades, account, 'trade').maxDrawdown).toBeCloseTo(19);
+  });
+
+  it('does not count a withdrawal as drawdown', () => {
+    const account: Account = {
+      id: 1, name: 'Main', currency: 'USD', startingBalance: 10000,
+      cashFlows: [{ id: 1, date: '2026-03-02T10:00Z', amount: -5000 }],
+      createdAt: '', updatedAt: ''
+    };
+    const { points } = analyzeDrawdowns([trade(1, '2026-03-01T10:00Z', 10), trade(2, '2026-03-03T10:00Z', 5)], account, 'trade');
+    expect(points.map(p => p.drawdown)).toEqual([0, 0]);
+  });
+
+  it('dates an episode from the last high to the trough and the recovery', () => {
+    const { episodes, longestRecoveryDays, currentDrawdown, currentDays } = analyzeDrawdowns(trades, null, 'trade');
+    expect(episodes).toEqual([{
+      start: '2026-03-01',
+      trough: '2026-03-05',
+      recovery: '2026-03-10',
+      depth: expect.closeTo(19),
+      durationDays: 9,
+      recoveryDays: 5
+    }]);
+    expect(longestRecoveryDays).toBe(5);
+    expect(currentDrawdown).toBe(0);
+    expect(currentDays).toBe(0);
+  });
+
+  it('keeps an unrecovered episode open up to the latest trade', () => {
+    const analysis = analyzeDrawdowns(trades.slice(0, 3), null, 'trade');
+    expect(analysis.episodes[0]).toMatchObject({ recovery: null, recoveryDays: null, durationDays: 4 });
+    expect(analysis.currentDrawdown).toBeCloseTo(19);
+    expect(analysis.currentDays).toBe(4);
+    expect(analysis.longestRecoveryDays).toBeNull();
+  });
+
+  it('keeps only where each day closed at day resolution', () => {
+    const intraday = [
+      trade(1, '2026-03-01T10:00Z', 10),
+      trade(2, '2026-03-02T10:00Z', -10),
+      trade(3, '2026-03-02T12:00Z', 20)
+    ];
+    expect(analyzeDrawdowns(intraday, null, 'trade').episodes).toHaveLength(1);
+    const daily = analyzeDrawdowns(intraday, null, 'day');
+    expect(daily.points.map(p => p.key)).toEqual(['2026-03-01', '2026-03-02']);
+    expect(daily.episodes).toEqual([]);
+    expect(daily.maxDrawdown).toBe(0);
+  });
+
+  it('groups days in the journal timezone', () => {
+    // 23:30 UTC on the 1st is already the 2nd in Berlin
+    const late = [trade(1, '2026-03-01T10:00Z', 10), trade(2, '2026-03-01T23:30Z', -5)];
+    expect(analyzeDrawdowns(late, null, 'day').points.map(p => p.date)).toEqual(['2026-03-01']);
+    expect(analyzeDrawdowns(late, null, 'day', 'Europe/Berlin').points.map(p => p.date)).toEqual(['2026-03-01', '2026-03-02']);
+  });
+});
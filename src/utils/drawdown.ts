@@ -0,0 +1,128 @@
+import { Account, Trade } from '../types';
+import { buildEquityCurve } from './accountEquity';
+import { compareTimestamps, toZonedDateKey } from './timezone';
+import { isClosedTrade } from './tradePnl';
+
+export type DrawdownResolution = 'trade' | 'day';
+
+export interface UnderwaterPoint {
+  key: string;
+  // Day the trade closed, or the day itself, in the journal timezone
+  date: string;
+  // Percent below the running peak, 0 at a new high
+  drawdown: number;
+}
+
+export interface DrawdownEpisode {
+  // Last high before the fall
+  start: string;
+  trough: string;
+  // Null while the equity is still below the peak
+  recovery: string | null;
+  depth: number;
+  // Calendar days from the peak to the recovery, or to the latest point while still open
+  durationDays: number;
+  // Calendar days from the trough back to the peak
+  recoveryDays: number | null;
+}
+
+export interface DrawdownAnalysis {
+  points: UnderwaterPoint[];
+  episodes: DrawdownEpisode[];
+  maxDrawdown: number;
+  currentDrawdown: number;
+  // Length of the drawdown the journal is in now, 0 at a high
+  currentDays: number;
+  longestRecoveryDays: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Float sums that land back on the peak count as recovered
+const EPSILON = 1e-9;
+
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+/** Percent below the peak after each closed trade, in the order they closed. */
+export const getTradeDrawdowns = (trades: Trade[], account: Account | null): { trade: Trade; drawdown: number }[] => {
+  const closed = trades.filter(isClosedTrade);
+  if (account) {
+    const byId = new Map(closed.map(trade => [trade.id, trade]));
+    return buildEquityCurve(account, closed).points.map(point => ({ trade: byId.get(point.tradeId)!, drawdown: point.drawdown }));
+  }
+
+  // Without a balance, each percent result compounds on a notional one so the units match
+  let equity = 1;
+  let peak = 1;
+  return [...closed]
+    .sort((a, b) => compareTimestamps(a.exitDate, b.exitDate) || a.id - b.id)
+    .map(trade => {
+      equity *= 1 + trade.pnl / 100;
+      peak = Math.max(peak, equity);
+      return { trade, drawdown: peak > 0 ? ((peak - equity) / peak) * 100 : 0 };
+    });
+};
+
+/**
+ * Underwater series and drawdown episodes, in percent below the peak. With an account the drawdown
+ * is measured on its real balance, like the equity curve; without one, on the trades' compounded
+ * percent results.
+ * The daily series keeps where each day closed, so drawdowns opened and recovered within a day drop out.
+ */
+export const analyzeDrawdowns = (
+  trades: Trade[],
+  account: Account | null,
+  resolution: DrawdownResolution,
+  timezone = ''
+): DrawdownAnalysis => {
+  const steps = getTradeDrawdowns(trades, account).map(({ trade, drawdown }) => ({
+    key: String(trade.id),
+    date: toZonedDateKey(trade.exitDate, timezone),
+    drawdown
+  }));
+
+  let points: UnderwaterPoint[] = steps;
+  if (resolution === 'day') {
+    const byDay = new Map<string, UnderwaterPoint>();
+    steps.forEach(step => byDay.set(step.date, { ...step, key: step.date }));
+    points = Array.from(byDay.values());
+  }
+
+  const episodes: DrawdownEpisode[] = [];
+  let open: DrawdownEpisode | null = null;
+  let lastHigh = points[0]?.date ?? '';
+
+  for (const point of points) {
+    if (point.drawdown > EPSILON) {
+      if (!open) {
+        open = { start: lastHigh, trough: point.date, recovery: null, depth: 0, durationDays: 0, recoveryDays: null };
+        episodes.push(open);
+      }
+      if (point.drawdown > open.depth) {
+        open.depth = point.drawdown;
+        open.trough = point.date;
+      }
+      open.durationDays = daysBetween(open.start, point.date);
+      continue;
+    }
+
+    if (open) {
+      open.recovery = point.date;
+      open.durationDays = daysBetween(open.start, point.date);
+      open.recoveryDays = daysBetween(open.trough, point.date);
+      open = null;
+    }
+    lastHigh = point.date;
+  }
+
+  const recoveries = episodes.map(e => e.recoveryDays).filter((days): days is number => days !== null);
+  const current = points[points.length - 1]?.drawdown ?? 0;
+
+  return {
+    points,
+    episodes,
+    maxDrawdown: Math.max(0, ...points.map(p => p.drawdown)),
+    currentDrawdown: current,
+    currentDays: open?.durationDays ?? 0,
+    longestRecoveryDays: recoveries.length ? Math.max(...recoveries) : null
+  };
+};
@@ -0,0 +1,152 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import {
+  combineFills,
+  Fill,
+  parseBinanceFutures,
+  parseBybitClosedPnl,
+  parseMetaTrader,
+  parseTradingView,
+  tickerFromFileName
+} from './importPresets';
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, '__fixtures__', name), 'utf8');
+
+const fill = (overrides: Partial<Fill>): Fill => ({
+  ticker: 'BTCUSDT', time: '2026-03-02T08:00Z', side: 'Buy', quantity: 1, realizedPnl: 0, fee: 0, ...overrides
+});
+
+describe('combineFills', () => {
+  it('adds partial fills to the position until it is flat', () => {
+    const { trades, warnings } = combineFills([
+      fill({ time: '2026-03-02T08:00Z', quantity: 0.5, fee: 0.1 }),
+      fill({ time: '2026-03-02T08:30Z', quantity: 0.5, fee: 0.1 }),
+      fill({ time: '2026-03-02T09:00Z', side: 'Sell', quantity: 0.4, realizedPnl: 4, fee: 0.1 }),
+      fill({ time: '2026-03-02T09:30Z', side: 'Sell', quantity: 0.6, realizedPnl: 6, fee: 0.1 })
+    ]);
+    expect(trades).toEqual([
+      { ticker: 'BTCUSDT', direction: 'Long', entryDate: '2026-03-02T08:00Z', exitDate: '2026-03-02T09:30Z', pnl: 9.6 }
+    ]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('closes the trade and opens the opposite one when a fill flips the position', () => {
+    const { trades } = combineFills([
+      fill({ time: '2026-03-02T08:00Z', side: 'Sell', quantity: 1 }),
+      fill({ time: '2026-03-02T09:00Z', side: 'Buy', quantity: 3, realizedPnl: 10, fee: 3 }),
+      fill({ time: '2026-03-02T10:00Z', side: 'Sell', quantity: 2, realizedPnl: 4 })
+    ]);
+    expect(trades).toEqual([
+      { ticker: 'BTCUSDT', direction: 'Short', entryDate: '2026-03-02T08:00Z', exitDate: '2026-03-02T09:00Z', pnl: 9 },
+      { ticker: 'BTCUSDT', direction: 'Long', entryDate: '2026-03-02T09:00Z', exitDate: '2026-03-02T10:00Z', pnl: 2 }
+    ]);
+  });
+
+  it('replays fills in time order and keeps symbols apart', () => {
+    const { trades } = combineFills([
+      fill({ ticker: 'ETHUSDT', time: '2026-03-02T09:00Z', side: 'Sell', realizedPnl: 1 }),
+      fill({ time: '2026-03-02T10:00Z', side: 'Sell', realizedPnl: 2 }),
+      fill({ ticker: 'ETHUSDT', time: '2026-03-02T08:00Z' }),
+      fill({ time: '2026-03-02T08:30Z' })
+    ]);
+    expect(trades.map(t => [t.ticker, t.pnl])).toEqual([['ETHUSDT', 1], ['BTCUSDT', 2]]);
+  });
+
+  it('warns about positions that are still open', () => {
+    const { trades, warnings } = combineFills([fill({ ticker: 'SOLUSDT' })]);
+    expect(trades).toEqual([]);
+    expect(warnings).toEqual(['SOLUSDT still has an open position, its fills were skipped']);
+  });
+});
+
+describe('parseBinanceFutures', () => {
+  const { trades, warnings } = parseBinanceFutures(fixture('binance-futures.csv'));
+
+  it('reads the Date(UTC) column as UTC', () => {
+    expect(trades[0]).toMatchObject({ entryDate: '2026-03-02T08:00Z', exitDate: '2026-03-02T09:00Z' });
+  });
+
+  it('combines partial fills and flips into round trips', () => {
+    expect(trades).toEqual([
+      { ticker: 'BTCUSDT', direction: 'Long', entryDate: '2026-03-02T08:00Z', exitDate: '2026-03-02T09:00Z', pnl: 8.04 },
+      { ticker: 'ETHUSDT', direction: 'Short', entryDate: '2026-03-02T10:00Z', exitDate: '2026-03-02T11:00Z', pnl: 47.6 },
+      { ticker: 'ETHUSDT', direction: 'Long', entryDate: '2026-03-02T11:00Z', exitDate: '2026-03-02T12:00Z', pnl: -84.8 }
+    ]);
+  });
+
+  it('warns about unreadable rows and open positions', () => {
+    expect(warnings).toEqual([
+      'Row 9 could not be read and was skipped',
+      'SOLUSDT still has an open position, its fills were skipped'
+    ]);
+  });
+
+  it('names the columns it could not find', () => {
+    expect(parseBinanceFutures('Symbol,Side\nBTCUSDT,BUY').warnings)
+      .toEqual(['Missing Binance columns: Date(UTC), Quantity, Realized Profit']);
+  });
+});
+
+describe('parseBybitClosedPnl', () => {
+  const { trades, warnings } = parseBybitClosedPnl(fixture('bybit-closed-pnl.csv'));
+
+  it('reads the position direction from the closing side', () => {
+    expect(trades).toEqual([
+      { ticker: 'BTCUSDT', direction: 'Long', entryDate: '2026-03-03T09:00', exitDate: '2026-03-03T10:15', pnl: 4.85 },
+      { ticker: 'ETHUSDT', direction: 'Short', entryDate: '2026-03-03T12:00', exitDate: '2026-03-03T12:00', pnl: -50.9 }
+    ]);
+  });
+
+  it('skips rows without a readable direction', () => {
+    expect(warnings).toEqual(['Row 4 could not be read and was skipped']);
+  });
+});
+
+describe('parseMetaTrader', () => {
+  it('reads the closed transactions of an MT4 HTML statement', () => {
+    const { trades, warnings } = parseMetaTrader(fixture('metatrader.html'));
+    expect(trades).toEqual([
+      { ticker: 'EURUSD', direction: 'Long', entryDate: '2026-03-04T08:00', exitDate: '2026-03-04T10:30', pnl: 24.15 },
+      { ticker: 'GBPUSD', direction: 'Short', entryDate: '2026-03-04T12:00', exitDate: '2026-03-04T15:00', pnl: -21.4 }
+    ]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('reads MT5 positions saved as CSV, with the close time as the second "Time"', () => {
+    const { trades, warnings } = parseMetaTrader(fixture('metatrader.csv'));
+    expect(trades).toEqual([
+      { ticker: 'XAUUSD', direction: 'Short', entryDate: '2026-03-05T09:00', exitDate: '2026-03-05T11:00', pnl: 49.5 },
+      { ticker: 'XAUUSD', direction: 'Long', entryDate: '2026-03-05T12:00', exitDate: '2026-03-05T12:45', pnl: -10.5 }
+    ]);
+    expect(warnings).toEqual(['A buy position on XAUUSD could not be read and was skipped']);
+  });
+
+  it('reports a statement without a positions table', () => {
+    expect(parseMetaTrader('Deal,Time,Type\n1,2026.03.05 09:00,balance').warnings)
+      .toEqual(['No closed positions table found in the MetaTrader statement']);
+  });
+});
+
+describe('parseTradingView', () => {
+  it('pairs entry and exit rows by trade number and skips the open trade', () => {
+    const { trades, warnings } = parseTradingView(fixture('tradingview.csv'), 'Breakout_Strategy_BINANCE_BTCUSDT_2026-03-07.csv');
+    expect(trades).toEqual([
+      { ticker: 'BTCUSDT', direction: 'Short', entryDate: '2026-03-06T11:00', exitDate: '2026-03-06T14:00', pnl: 40 },
+      { ticker: 'BTCUSDT', direction: 'Long', entryDate: '2026-03-05T09:00', exitDate: '2026-03-05T12:00', pnl: 50 }
+    ]);
+    expect(warnings).toEqual(['Trade #3 is still open and was skipped']);
+  });
+
+  it('imports as UNKNOWN when the file name has no symbol', () => {
+    const { trades, warnings } = parseTradingView(fixture('tradingview.csv'), 'trades.csv');
+    expect(trades.every(t => t.ticker === 'UNKNOWN')).toBe(true);
+    expect(warnings[0]).toBe('The symbol could not be read from the file name, trades are imported as UNKNOWN');
+  });
+
+  it('reads the symbol from the file name', () => {
+    expect(tickerFromFileName('My_Strategy_NASDAQ_AAPL_2026-03-07.csv')).toBe('AAPL');
+    expect(tickerFromFileName('strategy_BTCUSDT.csv')).toBe('BTCUSDT');
+  });
+});
@@ -0,0 +1,355 @@
+import { ImportedTrade, parseCsv, parseDateTime, parseDirection, parseNumber } from './csvImport';
+
+export type ImportPresetId = 'binance-futures' | 'bybit-closed-pnl' | 'metatrader' | 'tradingview';
+
+export interface PresetParseResult {
+  trades: ImportedTrade[];
+  warnings: string[];
+}
+
+/**
+ * A named parser for one export format. Parsers are pure: they only read the file
+ * contents (and name, for formats that keep the symbol there) and return trades.
+ * Times with an offset are read onto the clock of the journal timezone.
+ */
+export interface ImportPreset {
+  id: ImportPresetId;
+  label: string;
+  description: string;
+  accept: string;
+  parse: (text: string, fileName: string, timezone: string) => PresetParseResult;
+}
+
+/** A single execution. Fills of the same symbol are combined into round-trip trades. */
+export interface Fill {
+  ticker: string;
+  time: string;
+  side: 'Buy' | 'Sell';
+  quantity: number;
+  realizedPnl: number;
+  fee: number;
+}
+
+// Quantities below this are treated as a flat position (float dust from partial fills)
+const POSITION_EPSILON = 1e-8;
+
+const roundPnl = (value: number) => Number(value.toFixed(8));
+
+// "Realized Profit (USDT)" -> "realizedprofit"; "%" is kept so "Profit %" and "Profit USD" stay apart
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/\(.*?\)/g, '').replace(/[^a-z0-9%]/g, '');
+
+/**
+ * Finds a column by alias: exact matches first, then headers starting with an alias
+ * (currency suffixes such as "Price USDT"). `occurrence` picks repeated headers like MT's second "Time".
+ */
+const findColumn = (headers: string[], aliases: string[], occurrence = 0): number => {
+  const normalized = headers.map(normalizeHeader);
+  for (const matches of [
+    (h: string, alias: string) => h === alias,
+    (h: string, alias: string) => h.startsWith(alias) && !h.includes('%')
+  ]) {
+    for (const alias of aliases) {
+      const indexes = normalized.flatMap((h, i) => (matches(h, alias) ? [i] : []));
+      if (indexes[occurrence] !== undefined) return indexes[occurrence];
+    }
+  }
+  return -1;
+};
+
+// Binance writes its "Date(UTC)" column in UTC without an offset, so it is not journal wall time
+const parseUtcDateTime = (value: string): string | null => {
+  const wallTime = parseDateTime(value, 'UTC');
+  return wallTime && `${wallTime}Z`;
+};
+
+// Quantities are sometimes exported with the asset appended, e.g. "0.010BTC"
+const parseAmount = (value: string | undefined) => parseNumber((value || '').replace(/[A-Za-z]+$/, ''));
+
+const missingColumns = (columns: Record<string, number>) =>
+  Object.entries(columns).filter(([, index]) => index === -1).map(([name]) => name);
+
+/**
+ * Replays fills in time order and emits a trade each time a symbol's position returns to flat.
+ * A fill that flips the position closes the current trade and opens the opposite one with the remainder.
+ */
+export const combineFills = (fills: Fill[]): PresetParseResult => {
+  const sorted = [...fills].sort((a, b) => a.time.localeCompare(b.time));
+  const open = new Map<string, { direction: ImportedTrade['direction']; entryDate: string; position: number; pnl: number }>();
+  const trades: ImportedTrade[] = [];
+
+  sorted.forEach(fill => {
+    const signed = fill.side === 'Buy' ? fill.quantity : -fill.quantity;
+    const current = open.get(fill.ticker);
+
+    if (!current) {
+      open.set(fill.ticker, {
+        direction: signed > 0 ? 'Long' : 'Short',
+        entryDate: fill.time,
+        position: signed,
+        pnl: fill.realizedPnl - fill.fee
+      });
+      return;
+    }
+
+    const next = current.position + signed;
+    if (Math.abs(next) > POSITION_EPSILON && Math.sign(next) === Math.sign(current.position)) {
+      current.position = next;
+      current.pnl += fill.realizedPnl - fill.fee;
+      return;
+    }
+
+    // Realized PnL belongs to the closing part; the fee is split by quantity
+    const closingShare = fill.quantity > 0 ? Math.min(1, Math.abs(current.position) / fill.quantity) : 1;
+    trades.push({
+      ticker: fill.ticker,
+      direction: current.direction,
+      entryDate: current.entryDate,
+      exitDate: fill.time,
+      pnl: roundPnl(current.pnl + fill.realizedPnl - fill.fee * closingShare)
+    });
+    open.delete(fill.ticker);
+
+    if (Math.abs(next) > POSITION_EPSILON) {
+      open.set(fill.ticker, {
+        direction: next > 0 ? 'Long' : 'Short',
+        entryDate: fill.time,
+        position: next,
+        pnl: -fill.fee * (1 - closingShare)
+      });
+    }
+  });
+
+  const warnings = [...open.keys()].map(ticker => `${ticker} still has an open position, its fills were skipped`);
+  return { trades, warnings };
+};
+
+export const parseBinanceFutures = (text: string): PresetParseResult => {
+  const { headers, rows } = parseCsv(text);
+  const columns = {
+    'Date(UTC)': findColumn(headers, ['dateutc', 'timeutc', 'date', 'time']),
+    'Symbol': findColumn(headers, ['symbol', 'contract', 'pair']),
+    'Side': findColumn(headers, ['side']),
+    'Quantity': findColumn(headers, ['quantity', 'qty', 'executed']),
+    'Realized Profit': findColumn(headers, ['realizedprofit', 'realizedpnl'])
+  };
+  const missing = missingColumns(columns);
+  if (missing.length > 0) return { trades: [], warnings: [`Missing Binance columns: ${missing.join(', ')}`] };
+  const feeColumn = findColumn(headers, ['fee', 'commission']);
+
+  const warnings: string[] = [];
+  const fills: Fill[] = [];
+  rows.forEach((row, i) => {
+    const time = parseUtcDateTime(row[columns['Date(UTC)']] || '');
+    const direction = parseDirection(row[columns['Side']] || '');
+    const quantity = parseAmount(row[columns['Quantity']]);
+    if (!time || !direction || quantity === null) {
+      warnings.push(`Row ${i + 2} could not be read and was skipped`);
+      return;
+    }
+    fills.push({
+      ticker: (row[columns['Symbol']] || '').toUpperCase(),
+      time,
+      side: direction === 'Long' ? 'Buy' : 'Sell',
+      quantity: Math.abs(quantity),
+      realizedPnl: parseAmount(row[columns['Realized Profit']]) ?? 0,
+      fee: feeColumn === -1 ? 0 : Math.abs(parseAmount(row[feeColumn]) ?? 0)
+    });
+  });
+
+  const combined = combineFills(fills);
+  return { trades: combined.trades, warnings: [...warnings, ...combined.warnings] };
+};
+
+export const parseBybitClosedPnl = (text: string, timezone = ''): PresetParseResult => {
+  const { headers, rows } = parseCsv(text);
+  const columns = {
+    'Contracts': findColumn(headers, ['contracts', 'symbol', 'market']),
+    'Closing Direction': findColumn(headers, ['closingdirection', 'direction', 'side']),
+    'Closed P&L': findColumn(headers, ['closedpl', 'closedpnl', 'realizedpl', 'realizedpnl']),
+    'Trade Time': findColumn(headers, ['tradetime', 'closetime', 'closedtime', 'updatedtime', 'time'])
+  };
+  const missing = missingColumns(columns);
+  if (missing.length > 0) return { trades: [], warnings: [`Missing Bybit columns: ${missing.join(', ')}`] };
+  const openTimeColumn = findColumn(headers, ['opentime', 'createtime', 'createdtime']);
+
+  const warnings: string[] = [];
+  const trades: ImportedTrade[] = [];
+  rows.forEach((row, i) => {
+    // Bybit names the closing order side: "Sell" / "Close Long" closes a long position
+    const closing = (row[columns['Closing Direction']] || '').toLowerCase();
+    const direction: ImportedTrade['direction'] | null =
+      closing.includes('long') || closing === 'sell' ? 'Long' :
+      closing.includes('short') || closing === 'buy' ? 'Short' : null;
+    const exitDate = parseDateTime(row[columns['Trade Time']] || '', timezone);
+    const pnl = parseAmount(row[columns['Closed P&L']]);
+    if (!direction || !exitDate || pnl === null) {
+      warnings.push(`Row ${i + 2} could not be read and was skipped`);
+      return;
+    }
+    const entryDate = openTimeColumn === -1 ? null : parseDateTime(row[openTimeColumn] || '', timezone);
+    trades.push({
+      ticker: (row[columns['Contracts']] || '').toUpperCase(),
+      direction,
+      entryDate: entryDate || exitDate,
+      exitDate,
+      pnl
+    });
+  });
+
+  return { trades, warnings };
+};
+
+// Flattens HTML tables into rows, repeating colspan cells as blanks so columns stay aligned
+const readHtmlRows = (html: string): string[][] => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return Array.from(doc.querySelectorAll('tr')).map(tr =>
+    Array.from(tr.querySelectorAll('td, th')).flatMap(cell => {
+      const span = Math.max(1, Number(cell.getAttribute('colspan')) || 1);
+      return [(cell.textContent || '').trim(), ...Array(span - 1).fill('')];
+    })
+  );
+};
+
+const isMetaTraderHeader = (row: string[]) => {
+  const normalized = row.map(normalizeHeader);
+  return normalized.includes('type') && normalized.includes('profit') &&
+    normalized.filter(h => h === 'time' || h === 'opentime' || h === 'closetime').length >= 2;
+};
+
+/**
+ * MT4 "Closed Transactions" and MT5 "Positions" sections share the same shape:
+ * open time, type, volume, symbol, open price, close time, close price, costs and profit.
+ */
+export const parseMetaTrader = (text: string, timezone = ''): PresetParseResult => {
+  const records = /<table/i.test(text)
+    ? readHtmlRows(text)
+    : (({ headers, rows }) => [headers, ...rows])(parseCsv(text));
+
+  const headerIndex = records.findIndex(isMetaTraderHeader);
+  if (headerIndex === -1) {
+    return { trades: [], warnings: ['No closed positions table found in the MetaTrader statement'] };
+  }
+
+  const headers = records[headerIndex];
+  const openTime = findColumn(headers, ['opentime', 'time']);
+  const closeTime = findColumn(headers, ['closetime']) !== -1 ? findColumn(headers, ['closetime']) : findColumn(headers, ['time'], 1);
+  const symbol = findColumn(headers, ['item', 'symbol']);
+  const type = findColumn(headers, ['type']);
+  const profit = findColumn(headers, ['profit']);
+  const costs = [findColumn(headers, ['commission']), findColumn(headers, ['swap']), findColumn(headers, ['taxes'])].filter(i => i !== -1);
+
+  const trades: ImportedTrade[] = [];
+  const warnings: string[] = [];
+  for (const row of records.slice(headerIndex + 1)) {
+    // The section ends at the next title row or table header
+    if (row.filter(cell => cell !== '').length <= 1 || isMetaTraderHeader(row)) break;
+
+    const side = (row[type] || '').toLowerCase();
+    // Balance operations and cancelled pending orders are not trades
+    if (side !== 'buy' && side !== 'sell') continue;
+
+    const entryDate = parseDateTime(row[openTime] || '', timezone);
+    const exitDate = parseDateTime(row[closeTime] || '', timezone);
+    const grossPnl = parseAmount(row[profit]);
+    if (!entryDate || !exitDate || grossPnl === null) {
+      warnings.push(`A ${side} position on ${row[symbol] || 'an unknown symbol'} could not be read and was skipped`);
+      continue;
+    }
+    const pnl = costs.reduce((sum, column) => sum + (parseAmount(row[column]) ?? 0), grossPnl);
+    trades.push({
+      ticker: (row[symbol] || '').toUpperCase(),
+      direction: side === 'buy' ? 'Long' : 'Short',
+      entryDate,
+      exitDate,
+      pnl: roundPnl(pnl)
+    });
+  }
+
+  return { trades, warnings };
+};
+
+/** TradingView names exports "<Strategy>_<EXCHANGE>_<SYMBOL>_<date>.csv"; the symbol is not in the file itself. */
+export const tickerFromFileName = (fileName: string): string => {
+  const parts = fileName.replace(/\.[^.]+$/, '').split('_');
+  const dateIndex = parts.findIndex(part => /^\d{4}-\d{2}-\d{2}$/.test(part));
+  const candidate = dateIndex > 0 ? parts[dateIndex - 1] : parts.find(part => /^[A-Z0-9.!]{3,}$/.test(part));
+  return (candidate || '').toUpperCase();
+};
+
+export const parseTradingView = (text: string, fileName: string, timezone = ''): PresetParseResult => {
+  const { headers, rows } = parseCsv(text);
+  const columns = {
+    'Trade #': findColumn(headers, ['trade']),
+    'Type': findColumn(headers, ['type']),
+    'Date/Time': findColumn(headers, ['datetime', 'dateandtime', 'date']),
+    'Profit': findColumn(headers, ['profit', 'netpl', 'netpnl'])
+  };
+  const missing = missingColumns(columns);
+  if (missing.length > 0) return { trades: [], warnings: [`Missing TradingView columns: ${missing.join(', ')}`] };
+  const signalColumn = findColumn(headers, ['signal']);
+
+  const ticker = tickerFromFileName(fileName);
+  const warnings: string[] = ticker ? [] : ['The symbol could not be read from the file name, trades are imported as UNKNOWN'];
+
+  // Each trade is exported as an entry row and an exit row sharing the trade number
+  const byNumber = new Map<string, { entry?: string[]; exit?: string[] }>();
+  rows.forEach(row => {
+    const number = row[columns['Trade #']];
+    const kind = (row[columns['Type']] || '').toLowerCase();
+    if (!number) return;
+    const pair = byNumber.get(number) ?? {};
+    if (kind.startsWith('entry')) pair.entry = row;
+    else if (kind.startsWith('exit')) pair.exit = row;
+    byNumber.set(number, pair);
+  });
+
+  const trades: ImportedTrade[] = [];
+  byNumber.forEach(({ entry, exit }, number) => {
+    if (!entry || !exit || (signalColumn !== -1 && (exit[signalColumn] || '').toLowerCase() === 'open')) {
+      warnings.push(`Trade #${number} is still open and was skipped`);
+      return;
+    }
+    const direction = parseDirection((entry[columns['Type']] || '').replace(/^entry\s*/i, ''));
+    const entryDate = parseDateTime(entry[columns['Date/Time']] || '', timezone);
+    const exitDate = parseDateTime(exit[columns['Date/Time']] || '', timezone);
+    const pnl = parseAmount(exit[columns['Profit']]);
+    if (!direction || !entryDate || !exitDate || pnl === null) {
+      warnings.push(`Trade #${number} could not be read and was skipped`);
+      return;
+    }
+    trades.push({ ticker: ticker || 'UNKNOWN', direction, entryDate, exitDate, pnl });
+  });
+
+  return { trades, warnings };
+};
+
+export const IMPORT_PRESETS: ImportPreset[] = [
+  {
+    id: 'binance-futures',
+    label: 'Binance Futures',
+    description: 'Trade history export, fills are combined into round trips',
+    accept: '.csv',
+    parse: parseBinanceFutures
+  },
+  {
+    id: 'bybit-closed-pnl',
+    label: 'Bybit',
+    description: 'Closed P&L export',
+    accept: '.csv',
+    parse: (text, _fileName, timezone) => parseBybitClosedPnl(text, timezone)
+  },
+  {
+    id: 'metatrader',
+    label: 'MetaTrader 4/5',
+    description: 'Account statement saved as HTML or CSV',
+    accept: '.htm,.html,.csv',
+    parse: (text, _fileName, timezone) => parseMetaTrader(text, timezone)
+  },
+  {
+    id: 'tradingview',
+    label: 'TradingView',
+    description: 'Strategy tester "List of trades" CSV',
+    accept: '.csv',
+    parse: parseTradingView
+  }
+];
@@ -1,23 +1,62 @@
-import { Trade, RiskStats, Timeframe } from '../types';
+import { Account, Trade, RiskStats, RBucket, Timeframe } from '../types';
+import { getPlannedR, getRealizedR } from './tradePnl';
+import { buildEquityCurve } from './accountEquity';
+import { getTradeDay, getZonedParts, toDayKey } from './timezone';
 
 export const formatPercent = (value: number | string): string => {
   const val = parseFloat(value.toString());
   return (val >= 0 ? '+' : '') + val.toFixed(1) + '%';
 };
 
-export const formatTradeDate = (trade: Trade, isFull = false) => {
+// Prices keep their precision (crypto quotes can have many decimals) without trailing zeros
+export const formatNumber = (value: number, maxDigits = 2): string =>
+  value.toLocaleString('en-US', { maximumFractionDigits: maxDigits });
+
+export const formatAmount = (value: number): string =>
+  (value >= 0 ? '+' : '-') + Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export const formatCurrency = (value: number, currency: string): string => {
+  try {
+    return value.toLocaleString('en-US', { style: 'currency', currency, maximumFractionDigits: 2 });
+  } catch {
+    // Not an ISO code Intl knows, so show it as a suffix instead
+    return `${formatNumber(value)} ${currency}`;
+  }
+};
+
+export const formatR = (value: number): string =>
+  (value > 0 ? '+' : '') + value.toFixed(1) + 'R';
+
+// Value for a datetime-local input, which works in local time without seconds
+export const toDateTimeLocal = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// Local calendar day as yyyy-mm-dd, the format of Trade.date
+export const toDateKey = (date: Date): string => toDateTimeLocal(date).split('T')[0];
+
+export const formatTradeDate = (trade: Trade, isFull = false, timezone = '') => {
   if (!trade.entryDate) return { __html: trade.date };
   const d1 = new Date(trade.entryDate);
   const d2 = trade.exitDate ? new Date(trade.exitDate) : d1;
 
-  const optionsDate: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' };
-  const optionsTime: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit', hour12: false };
+  const timeZone = timezone || undefined;
+  const optionsDate: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', timeZone };
+  const optionsTime: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit', hour12: false, timeZone };
 
   const date1Str = d1.toLocaleDateString('en-US', optionsDate);
   const time1Str = d1.toLocaleTimeString('en-US', optionsTime);
   const date2Str = d2.toLocaleDateString('en-US', optionsDate);
   const time2Str = d2.toLocaleTimeString('en-US', optionsTime);
 
+  if (!trade.exitDate) {
+    if (isFull) return { __html: `${date1Str}, ${time1Str} - open` };
+    return {
+      __html: `<span class="block text-slate-700 font-semibold">${date1Str}</span><span class="text-xs text-slate-400">${time1Str} - open</span>`
+    };
+  }
+
   if (isFull) {
     if (date1Str === date2Str) return { __html: `${date1Str}, ${time1Str} - ${time2Str}` };
     return { __html: `${date1Str} ${time1Str} - ${date2Str} ${time2Str}` };
@@ -34,19 +73,51 @@ export const formatTradeDate = (trade: Trade, isFull = false) => {
   }
 };
 
-export const calculateRiskStats = (trades: Trade[]): RiskStats => {
+// Upper bounds of the R distribution buckets; the last one is open-ended
+const R_BUCKET_EDGES = [-2, -1, 0, 1, 2, 3];
+
+const getRDistribution = (rValues: number[]): RBucket[] => {
+  const buckets: RBucket[] = R_BUCKET_EDGES.map((edge, i) => ({
+    label: i === 0 ? `< ${edge}R` : `${R_BUCKET_EDGES[i - 1]}R to ${edge}R`,
+    count: 0,
+    isLoss: edge <= 0
+  }));
+  buckets.push({ label: `${R_BUCKET_EDGES[R_BUCKET_EDGES.length - 1]}R+`, count: 0, isLoss: false });
+
+  rValues.forEach(r => {
+    const index = R_BUCKET_EDGES.findIndex(edge => r < edge);
+    buckets[index === -1 ? buckets.length - 1 : index].count++;
+  });
+  return buckets;
+};
+
+const averageOf = (values: number[]) => values.reduce((acc, v) => acc + v, 0) / values.length;
+
+/**
+ * With an account the drawdown is measured on its real balance; without one,
+ * on the running sum of the trades' percent results.
+ */
+export const calculateRiskStats = (trades: Trade[], account?: Account | null): RiskStats => {
   const sortedTrades = [...trades].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 
   let peak = -Infinity;
   let maxDD = 0;
   let runningPnL = 0;
 
-  sortedTrades.forEach(t => {
-    runningPnL += t.pnl;
-    if (runningPnL > peak) peak = runningPnL;
-    const dd = peak - runningPnL;
-    if (dd > maxDD) maxDD = dd;
-  });
+  let ddAmount: string | undefined;
+
+  if (account) {
+    const curve = buildEquityCurve(account, trades);
+    maxDD = curve.maxDrawdown;
+    ddAmount = formatCurrency(-curve.maxDrawdownAmount, account.currency);
+  } else {
+    sortedTrades.forEach(t => {
+      runningPnL += t.pnl;
+      if (runningPnL > peak) peak = runningPnL;
+      const dd = peak - runningPnL;
+      if (dd > maxDD) maxDD = dd;
+    });
+  }
 
   let currentWinStreak = 0;
   let currentWinSum = 0;
@@ -115,12 +186,20 @@ export const calculateRiskStats = (trades: Trade[]): RiskStats => {
     maxWinStreakVal = currentWinSum;
   }
 
+  const rValues = trades.map(getRealizedR).filter((r): r is number => r !== null);
+  const plannedRValues = trades.map(getPlannedR).filter((r): r is number => r !== null);
+
   return {
     dd: '-' + maxDD.toFixed(1) + '%',
+    ddAmount,
     maxWinStreak,
     maxWinStreakVal: '+' + maxWinStreakVal.toFixed(1) + '%',
     maxLossStreak,
-    maxLossStreakVal: maxLossStreakVal.toFixed(1) + '%'
+    maxLossStreakVal: maxLossStreakVal.toFixed(1) + '%',
+    rTradeCount: rValues.length,
+    avgR: rValues.length ? formatR(averageOf(rValues)) : '—',
+    avgPlannedR: plannedRValues.length ? averageOf(plannedRValues).toFixed(1) + 'R' : '—',
+    rDistribution: getRDistribution(rValues)
   };
 };
 
@@ -128,34 +207,28 @@ export const getFilteredTrades = (
   allTrades: Trade[], 
   timeframe: Timeframe, 
   customStart: string, 
-  customEnd: string
+  customEnd: string,
+  timezone = ''
 ) => {
   const sortedTrades = [...allTrades].sort((a, b) => a.id - b.id);
   const filteredTrades: Trade[] = [];
   const initialData = { balance: 0, wins: 0, count: 0, grossWin: 0, grossLoss: 0 };
 
-  const toLocalDateString = (date: Date) => {
-    const y = date.getFullYear();
-    const m = String(date.getMonth() + 1).padStart(2, '0');
-    const d = String(date.getDate()).padStart(2, '0');
-    return `${y}-${m}-${d}`;
-  };
+  // Weeks and months start on the journal timezone's calendar, not the browser's
+  const today = getZonedParts(new Date(), timezone);
+  const daysAgo = (days: number) => toDayKey(today.year, today.month, today.day - days);
 
   let startDateStr = '';
   let endDateStr = '9999-12-31';
 
   if (timeframe === 'week') {
-    const d = new Date();
-    const day = d.getDay() || 7;
-    if (day !== 1) d.setDate(d.getDate() - (day - 1));
-    startDateStr = toLocalDateString(d);
+    startDateStr = daysAgo(today.weekday);
   } else if (timeframe === 'month') {
-    const d = new Date();
-    startDateStr = toLocalDateString(new Date(d.getFullYear(), d.getMonth(), 1));
+    startDateStr = daysAgo(today.day - 1);
   } else if (timeframe === 'custom') {
     if (customStart || customEnd) {
-      startDateStr = customStart || sortedTrades[0]?.date;
-      endDateStr = customEnd || toLocalDateString(new Date());
+      startDateStr = customStart || (sortedTrades[0] ? getTradeDay(sortedTrades[0], timezone) : '');
+      endDateStr = customEnd || daysAgo(0);
     }
   }
 
@@ -164,12 +237,13 @@ export const getFilteredTrades = (
   } else {
     sortedTrades.forEach(t => {
       const pnl = t.pnl;
-      if (t.date < startDateStr) {
+      const day = getTradeDay(t, timezone);
+      if (day < startDateStr) {
         initialData.balance += pnl;
         initialData.count++;
         if (pnl > 0) { initialData.wins++; initialData.grossWin += pnl; }
         else { initialData.grossLoss += Math.abs(pnl); }
-      } else if (t.date >= startDateStr && t.date <= endDateStr) {
+      } else if (day >= startDateStr && day <= endDateStr) {
         filteredTrades.push(t);
       }
     });
@@ -177,3 +251,23 @@ export const getFilteredTrades = (
   }
 };
 
+
+// Settings saved before a field existed (or by hand) must not break startup
+export const readStoredJson = <T>(key: string, fallback: T): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// Saves a generated file (export, backup) through a temporary download link
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
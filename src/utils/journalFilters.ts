@@ -0,0 +1,252 @@
+import { CustomFieldDefinition, SessionConfig, TagGroupDefinition, TagGroupId, Trade } from '../types';
+import { getRealizedR, getTradeVolume, isOpenTrade } from './tradePnl';
+import { getCustomFieldValue } from './customFields';
+import { getHoldMinutes, getSession, getWeekday, SESSIONS, WEEKDAYS } from './tradeTime';
+import { getTradeDay, toZonedDateKey } from './timezone';
+
+export type FilterFieldKind = 'text' | 'number' | 'date' | 'option' | 'multi' | 'boolean';
+
+export type FilterOperator =
+  | 'contains' | 'equals' | 'notEquals'
+  | 'atLeast' | 'atMost' | 'between'
+  | 'anyOf' | 'noneOf' | 'allOf'
+  | 'empty' | 'notEmpty'
+  | 'isTrue' | 'isFalse';
+
+export type FilterValue = string | number | string[];
+
+export interface FilterRule {
+  id: number;
+  field: string;
+  operator: FilterOperator;
+  value?: FilterValue;
+  // Upper bound of a "between" rule
+  valueTo?: FilterValue;
+}
+
+export type FilterCombinator = 'and' | 'or';
+
+export interface FilterGroup {
+  id: number;
+  combinator: FilterCombinator;
+  rules: FilterRule[];
+}
+
+/** Groups of rules; rules combine inside a group, groups combine with the tree's combinator. */
+export interface FilterTree {
+  combinator: FilterCombinator;
+  groups: FilterGroup[];
+}
+
+type FieldValue = string | number | boolean | string[] | null;
+
+export interface FilterField {
+  id: string;
+  label: string;
+  kind: FilterFieldKind;
+  // Choices for option and multi fields
+  options?: string[];
+  getValue: (trade: Trade) => FieldValue;
+}
+
+export const EMPTY_FILTER_TREE: FilterTree = { combinator: 'and', groups: [] };
+
+export const OPERATORS_BY_KIND: Record<FilterFieldKind, FilterOperator[]> = {
+  text: ['contains', 'equals', 'notEquals', 'empty', 'notEmpty'],
+  number: ['atLeast', 'atMost', 'between', 'equals', 'empty', 'notEmpty'],
+  date: ['atLeast', 'atMost', 'between', 'equals', 'empty', 'notEmpty'],
+  option: ['anyOf', 'noneOf', 'empty', 'notEmpty'],
+  multi: ['anyOf', 'allOf', 'noneOf', 'empty', 'notEmpty'],
+  boolean: ['isTrue', 'isFalse']
+};
+
+export const OPERATOR_LABELS: Record<FilterOperator, string> = {
+  contains: 'contains',
+  equals: 'is',
+  notEquals: 'is not',
+  atLeast: 'at least',
+  atMost: 'at most',
+  between: 'between',
+  anyOf: 'is any of',
+  noneOf: 'is none of',
+  allOf: 'has all of',
+  empty: 'is empty',
+  notEmpty: 'is not empty',
+  isTrue: 'is checked',
+  isFalse: 'is not checked'
+};
+
+// Operators that don't take a value from the user
+const VALUELESS_OPERATORS: FilterOperator[] = ['empty', 'notEmpty', 'isTrue', 'isFalse'];
+
+export const operatorNeedsValue = (operator: FilterOperator) => !VALUELESS_OPERATORS.includes(operator);
+
+const CUSTOM_FIELD_KINDS: Record<CustomFieldDefinition['type'], FilterFieldKind> = {
+  text: 'text',
+  number: 'number',
+  date: 'date',
+  select: 'option',
+  multiselect: 'multi',
+  checkbox: 'boolean'
+};
+
+/** Everything the builder can filter on: built-in trade properties, tag groups and custom fields. */
+export const getFilterFields = (
+  customFields: CustomFieldDefinition[],
+  tagGroups: TagGroupDefinition[],
+  tagOptions: Record<TagGroupId, string[]>,
+  sessionConfig: SessionConfig,
+  timezone = ''
+): FilterField[] => [
+  { id: 'ticker', label: 'Pair', kind: 'text', getValue: t => t.ticker },
+  { id: 'direction', label: 'Direction', kind: 'option', options: ['Long', 'Short'], getValue: t => t.direction },
+  { id: 'style', label: 'Style', kind: 'option', options: ['Scalping', 'Intraday', 'Intraweek', 'Swing'], getValue: t => t.style || 'Intraday' },
+  { id: 'status', label: 'Status', kind: 'option', options: ['Open', 'Closed'], getValue: t => (isOpenTrade(t) ? 'Open' : 'Closed') },
+  { id: 'pnl', label: 'PnL (%)', kind: 'number', getValue: t => t.pnl },
+  { id: 'risk', label: 'Risk (%)', kind: 'number', getValue: t => t.risk },
+  { id: 'r', label: 'R Multiple', kind: 'number', getValue: getRealizedR },
+  { id: 'holdtime', label: 'Hold Time (hours)', kind: 'number', getValue: t => {
+    const minutes = getHoldMinutes(t.entryDate, t.exitDate);
+    return minutes === null ? null : minutes / 60;
+  } },
+  { id: 'session', label: 'Session', kind: 'option', options: [...SESSIONS], getValue: t => (t.entryDate ? getSession(t.entryDate, sessionConfig, timezone) : null) },
+  { id: 'weekday', label: 'Weekday', kind: 'option', options: WEEKDAYS, getValue: t => (t.entryDate ? getWeekday(t.entryDate, timezone) : null) },
+  { id: 'date', label: 'Open Date', kind: 'date', getValue: t => getTradeDay(t, timezone) },
+  { id: 'exitDate', label: 'Close Date', kind: 'date', getValue: t => (t.exitDate ? toZonedDateKey(t.exitDate, timezone) : null) },
+  { id: 'entryPrice', label: 'Entry', kind: 'number', getValue: t => t.entryPrice ?? null },
+  { id: 'exitPrice', label: 'Exit', kind: 'number', getValue: t => t.exitPrice ?? null },
+  { id: 'quantity', label: 'Size', kind: 'number', getValue: t => t.quantity ?? null },
+  { id: 'volume', label: 'Volume', kind: 'number', getValue: getTradeVolume },
+  ...tagGroups.map(({ id, label }): FilterField => ({
+    id: `tag:${id}`, label, kind: 'multi', options: tagOptions[id] ?? [], getValue: t => t.tags?.[id] ?? []
+  })),
+  ...customFields.map((field): FilterField => ({
+    id: `custom:${field.id}`,
+    label: field.name,
+    kind: CUSTOM_FIELD_KINDS[field.type],
+    options: field.options,
+    getValue: t => getCustomFieldValue(t, field) ?? null
+  }))
+];
+
+// Groups and rules share one id space, so ids stay unique across the whole tree
+const nextFilterId = (tree: FilterTree): number =>
+  tree.groups.reduce((max, group) => Math.max(max, group.id, ...group.rules.map(r => r.id)), 0) + 1;
+
+export const newFilterRule = (field: FilterField, tree: FilterTree): FilterRule => ({
+  id: nextFilterId(tree),
+  field: field.id,
+  operator: OPERATORS_BY_KIND[field.kind][0]
+});
+
+export const newFilterGroup = (field: FilterField, tree: FilterTree): FilterGroup => {
+  const id = nextFilterId(tree);
+  return {
+    id,
+    combinator: 'and',
+    rules: [{ ...newFilterRule(field, tree), id: id + 1 }]
+  };
+};
+
+const isEmptyValue = (value: FieldValue) =>
+  value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+const isBlankInput = (value: FilterValue | undefined) =>
+  value === undefined || value === '' || (Array.isArray(value) && value.length === 0) || (typeof value === 'number' && isNaN(value));
+
+/** A rule still missing its value is ignored rather than hiding every trade. */
+export const isRuleComplete = (rule: FilterRule): boolean => {
+  if (!operatorNeedsValue(rule.operator)) return true;
+  if (rule.operator === 'between') return !isBlankInput(rule.value) || !isBlankInput(rule.valueTo);
+  return !isBlankInput(rule.value);
+};
+
+const compare = (value: FieldValue, bound: FilterValue | undefined, kind: FilterFieldKind): number | null => {
+  if (isEmptyValue(value) || isBlankInput(bound)) return null;
+  if (kind === 'number') return Number(value) - Number(bound);
+  return String(value).localeCompare(String(bound));
+};
+
+const matchesRule = (trade: Trade, rule: FilterRule, field: FilterField): boolean => {
+  const value = field.getValue(trade);
+
+  switch (rule.operator) {
+    case 'empty':
+      return isEmptyValue(value);
+    case 'notEmpty':
+      return !isEmptyValue(value);
+    case 'isTrue':
+      return !!value;
+    case 'isFalse':
+      return !value;
+    case 'contains':
+      return String(value ?? '').toLowerCase().includes(String(rule.value).toLowerCase());
+    case 'equals':
+    case 'notEquals': {
+      const isEqual = field.kind === 'number'
+        ? !isEmptyValue(value) && Number(value) === Number(rule.value)
+        : String(value ?? '').toLowerCase() === String(rule.value).toLowerCase();
+      return rule.operator === 'equals' ? isEqual : !isEqual;
+    }
+    case 'atLeast': {
+      const diff = compare(value, rule.value, field.kind);
+      return diff !== null && diff >= 0;
+    }
+    case 'atMost': {
+      const diff = compare(value, rule.value, field.kind);
+      return diff !== null && diff <= 0;
+    }
+    case 'between': {
+      if (isEmptyValue(value)) return false;
+      const fromDiff = compare(value, rule.value, field.kind);
+      const toDiff = compare(value, rule.valueTo, field.kind);
+      return (fromDiff === null || fromDiff >= 0) && (toDiff === null || toDiff <= 0);
+    }
+    case 'anyOf':
+    case 'noneOf':
+    case 'allOf': {
+      const wanted = (Array.isArray(rule.value) ? rule.value : [String(rule.value)]).map(v => v.toLowerCase());
+      const actual = (Array.isArray(value) ? value : isEmptyValue(value) ? [] : [String(value)]).map(v => v.toLowerCase());
+      if (rule.operator === 'allOf') return wanted.every(v => actual.includes(v));
+      const hasAny = actual.some(v => wanted.includes(v));
+      return rule.operator === 'anyOf' ? hasAny : !hasAny;
+    }
+    default:
+      return true;
+  }
+};
+
+const matchesGroup = (trade: Trade, group: FilterGroup, fieldsById: Map<string, FilterField>): boolean => {
+  // Incomplete rules and rules on deleted custom fields don't narrow anything
+  const rules = group.rules.filter(rule => fieldsById.has(rule.field) && isRuleComplete(rule));
+  if (rules.length === 0) return true;
+  const test = (rule: FilterRule) => matchesRule(trade, rule, fieldsById.get(rule.field)!);
+  return group.combinator === 'and' ? rules.every(test) : rules.some(test);
+};
+
+/** Returns a predicate so the field lookup is built once per filter pass. */
+export const createTreeMatcher = (tree: FilterTree, fields: FilterField[]) => {
+  const fieldsById = new Map(fields.map(f => [f.id, f]));
+  const groups = tree.groups.filter(group => group.rules.some(rule => fieldsById.has(rule.field) && isRuleComplete(rule)));
+  if (groups.length === 0) return () => true;
+  return (trade: Trade) => {
+    const test = (group: FilterGroup) => matchesGroup(trade, group, fieldsById);
+    return tree.combinator === 'and' ? groups.every(test) : groups.some(test);
+  };
+};
+
+export const countActiveRules = (tree: FilterTree): number =>
+  tree.groups.reduce((acc, group) => acc + group.rules.filter(isRuleComplete).length, 0);
+
+/** Full-text search over the ticker, tags, conclusions and top-down analysis notes. */
+export const matchesSearch = (trade: Trade, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  const haystack = [
+    trade.ticker,
+    trade.conclusions,
+    ...(trade.tda ?? []).map(item => item.note),
+    ...Object.values(trade.tags ?? {}).flatMap(tags => tags ?? [])
+  ];
+  return haystack.some(text => text?.toLowerCase().includes(needle));
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { Account, Trade } from '../types';
+import { analyzeDrawdowns } from './drawdown';
+import { computeMetrics, getMetricHistory } from './performanceMetrics';
+
+const trade = (id: number, exitDate: string, pnl: number): Trade => ({
+  id, accountId: 1, date: exitDate.slice(0, 10), entryDate: exitDate, exitDate,
+  ticker: 'BTC', direction: 'Long', style: 'Intraday', risk: 1, pnl
+});
+
+describe('performance metrics', () => {
+  // The first loss was imported after the win, so its id is higher though it closed first
+  const trades = [
+    trade(1, '2026-03-02T10:00+00:00', 5),
+    trade(2, '2026-03-01T10:00+00:00', -2),
+    trade(3, '2026-03-03T10:00+00:00', -1)
+  ];
+
+  it('replays trades in the order they closed, not by id', () => {
+    // -2, +5, -1 draws down 2% at most; by id, +5, -2, -1 would draw down almost 3%
+    expect(computeMetrics(trades).recovery).toBeCloseTo(1);
+  });
+
+  it('builds the history in close order', () => {
+    const history = getMetricHistory(trades);
+    expect([...history.keys()]).toEqual([2, 1, 3]);
+    expect(history.get(2)?.avgLoss).toBe(-2);
+    expect(history.get(1)?.avgWin).toBe(5);
+  });
+
+  // Held an hour each; +4, -2, +6, -2 with R equal to the percent, since risk is 1
+  const series = [4, -2, 6, -2].map((pnl, i) => ({
+    ...trade(i + 1, `2026-03-0${i + 1}T10:00Z`, pnl),
+    entryDate: `2026-03-0${i + 1}T09:00Z`
+  }));
+
+  it('computes the ratios from hand-worked values', () => {
+    const metrics = computeMetrics(series);
+    // Mean 1.5; sample variance (60 - 6² / 4) / 3 = 17
+    expect(metrics.expectancy).toBeCloseTo(1.5);
+    expect(metrics.stdDev).toBeCloseTo(Math.sqrt(17));
+    expect(metrics.sharpe).toBeCloseTo(1.5 / Math.sqrt(17));
+    // Downside deviation sqrt((4 + 4) / 4)
+    expect(metrics.sortino).toBeCloseTo(1.5 / Math.sqrt(2));
+    // Payoff 5 / 2 = 2.5 at a 50% winrate: 0.5 - 0.5 / 2.5
+    expect(metrics.payoff).toBeCloseTo(2.5);
+    expect(metrics.kelly).toBeCloseTo(30);
+    // sqrt(4) * 1.5 / sqrt(17)
+    expect(metrics.sqn).toBeCloseTo(3 / Math.sqrt(17));
+    expect(metrics.hold).toBe(60);
+  });
+
+  it('puts the net and yearly return over the compounded max drawdown', () => {
+    const metrics = computeMetrics(series);
+    // 1.04 -> 1.0192 and 1.080352 -> 1.05874496 both sit 2% below the peak
+    expect(metrics.recovery).toBeCloseTo(6 / 2);
+    // 73 hours from the first entry to the last exit: 6% over 73 / 8760 years is 720% a year
+    expect(metrics.calmar).toBeCloseTo(720 / 2);
+  });
+
+  it('takes the max drawdown from the account balance, like the drawdown panel', () => {
+    const account: Account = {
+      id: 1, name: 'Main', currency: 'USD', startingBalance: 10000,
+      cashFlows: [{ id: 1, date: '2026-03-02T00:00Z', amount: 10000 }],
+      createdAt: '', updatedAt: ''
+    };
+    const losses = [trade(1, '2026-03-01T10:00Z', -10), trade(2, '2026-03-03T10:00Z', -10)];
+    // 9000, then 19000 after the deposit with the peak at 20000, then 17100: 14.5% below it
+    expect(analyzeDrawdowns(losses, account, 'trade').maxDrawdown).toBeCloseTo(14.5);
+    expect(computeMetrics(losses, account).recovery).toBeCloseTo(-20 / 14.5);
+    expect(getMetricHistory(losses, account).get(2)?.recovery).toBeCloseTo(-20 / 14.5);
+  });
+});
@@ -0,0 +1,176 @@
+import { Account, Trade } from '../types';
+import { formatPercent, formatR } from '.';
+import { getTradeDrawdowns } from './drawdown';
+import { compareTimestamps } from './timezone';
+import { getRealizedR } from './tradePnl';
+import { getHoldMinutes } from './tradeTime';
+
+// Percent results are the trades' pnl; ratios are per trade, with no risk-free rate or annualizing,
+// except Calmar, which needs a yearly return to compare against the drawdown. The drawdown is the
+// one the drawdown panel shows, on the account balance when there is one
+
+export type MetricId =
+  | 'expectancy' | 'avgWin' | 'avgLoss' | 'payoff' | 'sharpe' | 'sortino'
+  | 'calmar' | 'recovery' | 'kelly' | 'sqn' | 'stdDev' | 'hold';
+
+// Null when the trades can't produce the metric yet, e.g. a payoff ratio without losses
+export type PerformanceMetrics = Record<MetricId, number | null>;
+
+export interface MetricDefinition {
+  id: MetricId;
+  label: string;
+  icon: string;
+  desc: string;
+  format: (value: number) => string;
+}
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Van Tharp caps the sample so a long history doesn't inflate the score
+const SQN_MAX_TRADES = 100;
+
+const formatRatio = (value: number) => value.toFixed(2);
+
+export const formatDuration = (minutes: number): string => {
+  const rounded = Math.round(minutes);
+  if (rounded < 60) return `${rounded}m`;
+  if (rounded < 1440) return `${Math.floor(rounded / 60)}h ${rounded % 60}m`;
+  return `${Math.floor(rounded / 1440)}d ${Math.floor((rounded % 1440) / 60)}h`;
+};
+
+export const METRIC_DEFINITIONS: MetricDefinition[] = [
+  { id: 'expectancy', label: 'Expectancy', icon: 'target', desc: 'Average R won or lost per trade', format: formatR },
+  { id: 'avgWin', label: 'Avg Win', icon: 'trending-up', desc: 'Average result of winning trades', format: formatPercent },
+  { id: 'avgLoss', label: 'Avg Loss', icon: 'trending-down', desc: 'Average result of losing trades', format: formatPercent },
+  { id: 'payoff', label: 'Payoff Ratio', icon: 'scale', desc: 'Average win over average loss', format: formatRatio },
+  { id: 'sharpe', label: 'Sharpe Ratio', icon: 'activity', desc: 'Return per unit of volatility', format: formatRatio },
+  { id: 'sortino', label: 'Sortino Ratio', icon: 'activity', desc: 'Return per unit of downside volatility', format: formatRatio },
+  { id: 'calmar', label: 'Calmar Ratio', icon: 'trending-down', desc: 'Yearly return over max drawdown', format: formatRatio },
+  { id: 'recovery', label: 'Recovery Factor', icon: 'trending-up', desc: 'Net return over max drawdown', format: formatRatio },
+  { id: 'kelly', label: 'Kelly %', icon: 'pie-chart', desc: 'Share of capital the edge would justify risking', format: value => `${value.toFixed(1)}%` },
+  { id: 'sqn', label: 'SQN', icon: 'target', desc: 'System quality number from R multiples', format: formatRatio },
+  { id: 'stdDev', label: 'Std Deviation', icon: 'activity', desc: 'Spread of trade returns', format: value => `${value.toFixed(2)}%` },
+  { id: 'hold', label: 'Time in Trade', icon: 'clock', desc: 'Average position duration', format: formatDuration }
+];
+
+const METRICS_BY_ID = new Map(METRIC_DEFINITIONS.map(metric => [metric.id, metric]));
+
+export const isMetricId = (id: string): id is MetricId => METRICS_BY_ID.has(id as MetricId);
+
+export const formatMetric = (id: MetricId, value: number | null): string =>
+  value === null ? '—' : METRICS_BY_ID.get(id)!.format(value);
+
+// R from the stop when one is set, otherwise from the percent the trade risked
+const getTradeR = (trade: Trade): number => getRealizedR(trade) ?? trade.pnl / (trade.risk || 1);
+
+const sampleStdDev = (sum: number, sumSquares: number, count: number): number | null => {
+  if (count < 2) return null;
+  const variance = (sumSquares - (sum * sum) / count) / (count - 1);
+  return Math.sqrt(Math.max(0, variance));
+};
+
+const ratio = (numerator: number, denominator: number | null): number | null =>
+  denominator ? numerator / denominator : null;
+
+/**
+ * Running totals the metrics are derived from. Adding trades one at a time and reading the
+ * metrics after each keeps a metric's history over n trades linear rather than quadratic.
+ */
+const createAccumulator = (drawdowns: Map<number, number>) => {
+  let count = 0;
+  let sum = 0;
+  let sumSquares = 0;
+  let downsideSquares = 0;
+  let wins = 0;
+  let winSum = 0;
+  let losses = 0;
+  let lossSum = 0;
+  let rSum = 0;
+  let rSquares = 0;
+  let holdSum = 0;
+  let holdCount = 0;
+  let maxDrawdown = 0;
+  let firstTime = Infinity;
+  let lastTime = -Infinity;
+
+  const add = (trade: Trade) => {
+    const pnl = trade.pnl;
+    count++;
+    sum += pnl;
+    sumSquares += pnl * pnl;
+    if (pnl < 0) downsideSquares += pnl * pnl;
+    if (pnl > 0) { wins++; winSum += pnl; }
+    if (pnl < 0) { losses++; lossSum += pnl; }
+
+    const r = getTradeR(trade);
+    rSum += r;
+    rSquares += r * r;
+
+    const hold = getHoldMinutes(trade.entryDate, trade.exitDate);
+    if (hold !== null && hold >= 0) { holdSum += hold; holdCount++; }
+
+    // Open trades have no place on the equity curve yet
+    const drawdown = drawdowns.get(trade.id);
+    if (drawdown !== undefined) maxDrawdown = Math.max(maxDrawdown, drawdown);
+
+    const start = new Date(trade.entryDate || trade.date).getTime();
+    const end = new Date(trade.exitDate || trade.entryDate || trade.date).getTime();
+    if (!isNaN(start)) firstTime = Math.min(firstTime, start);
+    if (!isNaN(end)) lastTime = Math.max(lastTime, end);
+  };
+
+  const read = (): PerformanceMetrics => {
+    const mean = count ? sum / count : null;
+    const stdDev = sampleStdDev(sum, sumSquares, count);
+    const downsideDev = count ? Math.sqrt(downsideSquares / count) : null;
+    const avgWin = wins ? winSum / wins : null;
+    const avgLoss = losses ? lossSum / losses : null;
+    const payoff = avgWin !== null && avgLoss !== null ? avgWin / Math.abs(avgLoss) : null;
+    const winrate = count ? wins / count : 0;
+    const rStdDev = sampleStdDev(rSum, rSquares, count);
+    // Anything shorter than a day would blow the yearly return out of proportion
+    const years = Math.max(lastTime - firstTime, DAY_MS) / YEAR_MS;
+
+    return {
+      expectancy: count ? rSum / count : null,
+      avgWin,
+      avgLoss,
+      payoff,
+      sharpe: mean !== null ? ratio(mean, stdDev) : null,
+      sortino: mean !== null ? ratio(mean, downsideDev) : null,
+      calmar: count && isFinite(years) ? ratio(sum / years, maxDrawdown) : null,
+      recovery: count ? ratio(sum, maxDrawdown) : null,
+      kelly: payoff ? (winrate - (1 - winrate) / payoff) * 100 : null,
+      sqn: count ? ratio(Math.sqrt(Math.min(count, SQN_MAX_TRADES)) * (rSum / count), rStdDev) : null,
+      stdDev,
+      hold: holdCount ? holdSum / holdCount : null
+    };
+  };
+
+  return { add, read };
+};
+
+// In the order the trades closed, like the equity curve and drawdown; open ones count from their entry.
+// Ids only break ties: imported, duplicated and restored trades get ids long after they were taken
+const byCloseTime = (trades: Trade[]) => [...trades].sort((a, b) =>
+  compareTimestamps(a.exitDate || a.entryDate, b.exitDate || b.entryDate) || a.id - b.id);
+
+const getDrawdownsById = (trades: Trade[], account: Account | null) =>
+  new Map(getTradeDrawdowns(trades, account).map(({ trade, drawdown }) => [trade.id, drawdown]));
+
+export const computeMetrics = (trades: Trade[], account: Account | null = null): PerformanceMetrics => {
+  const accumulator = createAccumulator(getDrawdownsById(trades, account));
+  byCloseTime(trades).forEach(accumulator.add);
+  return accumulator.read();
+};
+
+/** Every metric as it stood after each trade, keyed by trade id. */
+export const getMetricHistory = (trades: Trade[], account: Account | null = null): Map<number, PerformanceMetrics> => {
+  const accumulator = createAccumulator(getDrawdownsById(trades, account));
+  const history = new Map<number, PerformanceMetrics>();
+  byCloseTime(trades).forEach(trade => {
+    accumulator.add(trade);
+    history.set(trade.id, accumulator.read());
+  });
+  return history;
+};
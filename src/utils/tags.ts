@@ -0,0 +1,68 @@
+import { TagGroupDefinition, TagGroupId, TagStats, Trade, TradeTags } from '../types';
+
+export const normalizeTag = (value: string): string => value.trim().replace(/\s+/g, ' ');
+
+const sameTag = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/** Adds a tag to a group unless it is already there in another casing. */
+export const addTag = (tags: TradeTags | undefined, group: TagGroupId, value: string): TradeTags => {
+  const tag = normalizeTag(value);
+  const current = tags?.[group] ?? [];
+  if (!tag || current.some(t => sameTag(t, tag))) return tags ?? {};
+  return { ...tags, [group]: [...current, tag] };
+};
+
+export const removeTag = (tags: TradeTags | undefined, group: TagGroupId, tag: string): TradeTags => {
+  const remaining = (tags?.[group] ?? []).filter(t => t !== tag);
+  const next = { ...tags };
+  if (remaining.length) next[group] = remaining;
+  else delete next[group];
+  return next;
+};
+
+/** Every tag used across the journal, per group, for suggestions and filters. */
+export const collectTags = (trades: Trade[], groups: TagGroupDefinition[]): Record<TagGroupId, string[]> => {
+  const collected: Record<TagGroupId, string[]> = Object.fromEntries(groups.map(g => [g.id, []]));
+  trades.forEach(trade => {
+    groups.forEach(({ id }) => {
+      trade.tags?.[id]?.forEach(tag => {
+        if (!collected[id].some(t => sameTag(t, tag))) collected[id].push(tag);
+      });
+    });
+  });
+  groups.forEach(({ id }) => collected[id].sort((a, b) => a.localeCompare(b)));
+  return collected;
+};
+
+// Tags of removed groups stay on the trades but no longer count
+export const countTags = (tags: TradeTags | undefined, groups: TagGroupDefinition[]): number =>
+  groups.reduce((acc, { id }) => acc + (tags?.[id]?.length ?? 0), 0);
+
+/** Winrate, profit factor and expectancy of the trades carrying each tag. */
+export const getTagStats = (trades: Trade[], groups: TagGroupDefinition[]): TagStats[] => {
+  const byTag = new Map<string, { group: TagGroupId; tag: string; trades: Trade[] }>();
+  trades.forEach(trade => {
+    groups.forEach(({ id }) => {
+      trade.tags?.[id]?.forEach(tag => {
+        const key = `${id}:${tag.toLowerCase()}`;
+        const entry = byTag.get(key) ?? { group: id, tag, trades: [] };
+        entry.trades.push(trade);
+        byTag.set(key, entry);
+      });
+    });
+  });
+
+  return [...byTag.values()].map(({ group, tag, trades: tagged }) => {
+    const wins = tagged.filter(t => t.pnl > 0);
+    const grossWin = wins.reduce((acc, t) => acc + t.pnl, 0);
+    const grossLoss = Math.abs(tagged.filter(t => t.pnl < 0).reduce((acc, t) => acc + t.pnl, 0));
+    return {
+      group,
+      tag,
+      count: tagged.length,
+      winrate: Math.round((wins.length / tagged.length) * 100),
+      profitFactor: grossLoss === 0 ? (grossWin === 0 ? '0.00' : '∞') : (grossWin / grossLoss).toFixed(2),
+      expectancy: tagged.reduce((acc, t) => acc + t.pnl, 0) / tagged.length
+    };
+  });
+};
@@ -0,0 +1,66 @@
+import { BreakdownRow, SessionConfig, Trade } from '../types';
+import { getClock, getHoldTimeBucket, getSession, HOLD_TIME_BUCKETS, SESSIONS, WEEKDAYS } from './tradeTime';
+
+export type TimeDimension = 'session' | 'weekday' | 'hour' | 'holdtime';
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+// Every group a dimension can produce, in display order, with the key each trade is sorted under
+const getDimension = (dimension: TimeDimension, config: SessionConfig, timezone: string): { groups: { key: string; label: string }[]; keyOf: (trade: Trade) => string | null } => {
+  switch (dimension) {
+    case 'session':
+      return {
+        groups: [...SESSIONS.map(s => ({ key: s, label: s })), { key: '—', label: 'Outside sessions' }],
+        keyOf: trade => (trade.entryDate ? getSession(trade.entryDate, config, timezone) : null)
+      };
+    case 'weekday':
+      return {
+        groups: WEEKDAYS.map(day => ({ key: day, label: day })),
+        keyOf: trade => {
+          const clock = getClock(trade.entryDate, timezone);
+          return clock ? WEEKDAYS[clock.weekday] : null;
+        }
+      };
+    case 'hour':
+      return {
+        groups: Array.from({ length: 24 }, (_, hour) => ({ key: String(hour), label: formatHour(hour) })),
+        keyOf: trade => {
+          const clock = getClock(trade.entryDate, timezone);
+          return clock ? String(clock.hour) : null;
+        }
+      };
+    case 'holdtime':
+      return {
+        groups: HOLD_TIME_BUCKETS.map(({ label }) => ({ key: label, label })),
+        keyOf: trade => getHoldTimeBucket(trade.entryDate, trade.exitDate)
+      };
+  }
+};
+
+/** Trade count, net PnL, winrate and expectancy per group; groups without trades are left out. */
+export const getTimeBreakdown = (trades: Trade[], dimension: TimeDimension, config: SessionConfig, timezone = ''): BreakdownRow[] => {
+  const { groups, keyOf } = getDimension(dimension, config, timezone);
+  const byKey = new Map<string, Trade[]>();
+  trades.forEach(trade => {
+    const key = keyOf(trade);
+    if (key === null) return;
+    const grouped = byKey.get(key) ?? [];
+    grouped.push(trade);
+    byKey.set(key, grouped);
+  });
+
+  return groups
+    .filter(({ key }) => byKey.has(key))
+    .map(({ key, label }) => {
+      const grouped = byKey.get(key)!;
+      const pnl = grouped.reduce((acc, t) => acc + t.pnl, 0);
+      return {
+        key,
+        label,
+        count: grouped.length,
+        pnl,
+        winrate: Math.round((grouped.filter(t => t.pnl > 0).length / grouped.length) * 100),
+        expectancy: pnl / grouped.length
+      };
+    });
+};
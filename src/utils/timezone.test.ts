@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SESSION_CONFIG } from '../constants';
+import { fromWallTime, normalizeTimestamp, toWallTime, toZonedDateKey } from './timezone';
+import { getSession } from './tradeTime';
+
+describe('fromWallTime', () => {
+  it('gives a wall time the offset in force on that day', () => {
+    expect(fromWallTime('2026-01-15T09:30', 'Europe/Berlin')).toBe('2026-01-15T09:30+01:00');
+    expect(fromWallTime('2026-07-15T09:30', 'Europe/Berlin')).toBe('2026-07-15T09:30+02:00');
+    expect(fromWallTime('2026-07-15T09:30', 'America/New_York')).toBe('2026-07-15T09:30-04:00');
+  });
+
+  it('moves a time skipped by the spring jump to after the jump', () => {
+    expect(fromWallTime('2026-03-29T02:30', 'Europe/Berlin')).toBe('2026-03-29T03:30+02:00');
+    expect(fromWallTime('2026-03-08T02:30', 'America/New_York')).toBe('2026-03-08T03:30-04:00');
+  });
+
+  it('takes the later pass of a time repeated in the autumn', () => {
+    expect(fromWallTime('2026-10-25T02:30', 'Europe/Berlin')).toBe('2026-10-25T02:30+01:00');
+    expect(fromWallTime('2026-11-01T01:30', 'America/New_York')).toBe('2026-11-01T01:30-05:00');
+  });
+
+  it('round-trips through toWallTime on either side of a change', () => {
+    ['2026-03-29T01:59', '2026-03-29T03:00', '2026-10-25T01:59', '2026-10-25T03:00'].forEach(wallTime => {
+      expect(toWallTime(fromWallTime(wallTime, 'Europe/Berlin'), 'Europe/Berlin')).toBe(wallTime);
+    });
+  });
+
+  it('keeps timestamps that already carry an offset', () => {
+    expect(normalizeTimestamp('2026-03-29T02:30+00:00', 'Europe/Berlin')).toBe('2026-03-29T02:30+00:00');
+  });
+});
+
+describe('toZonedDateKey', () => {
+  it('puts instants near midnight on the day of the journal timezone', () => {
+    expect(toZonedDateKey('2026-03-02T23:30Z', 'Europe/Berlin')).toBe('2026-03-03');
+    expect(toZonedDateKey('2026-03-02T23:30Z', 'America/New_York')).toBe('2026-03-02');
+    expect(toZonedDateKey('2026-03-03T00:30+01:00', 'UTC')).toBe('2026-03-02');
+  });
+
+  it('follows the offset change on the night of a DST switch', () => {
+    // 22:30 UTC is still the 28th in Berlin in winter time, but the clocks moved forward overnight
+    expect(toZonedDateKey('2026-03-28T22:30Z', 'Europe/Berlin')).toBe('2026-03-28');
+    expect(toZonedDateKey('2026-03-29T22:30Z', 'Europe/Berlin')).toBe('2026-03-30');
+  });
+});
+
+describe('getSession across DST', () => {
+  it('reads session hours on the journal clock, not a fixed UTC offset', () => {
+    // 07:30 UTC is 07:30 in London in winter and 08:30 once summer time starts
+    expect(getSession('2026-03-27T07:30Z', DEFAULT_SESSION_CONFIG, 'Europe/London')).toBe('Asian');
+    expect(getSession('2026-03-30T07:30Z', DEFAULT_SESSION_CONFIG, 'Europe/London')).toBe('London');
+  });
+
+  it('places the same wall time in the same session on both sides of the change', () => {
+    const before = fromWallTime('2026-10-23T14:30', 'America/New_York');
+    const after = fromWallTime('2026-11-02T14:30', 'America/New_York');
+    expect(getSession(before, DEFAULT_SESSION_CONFIG, 'America/New_York')).toBe('New-York');
+    expect(getSession(after, DEFAULT_SESSION_CONFIG, 'America/New_York')).toBe('New-York');
+  });
+});
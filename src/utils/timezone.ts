@@ -0,0 +1,125 @@
+import { Trade } from '../types';
+
+// Trade timestamps are stored as wall time in the journal timezone plus that zone's UTC offset at
+// the moment, e.g. 2026-03-29T09:30+02:00, so they mean the same instant in any browser and still
+// read as the journal's day. Values without an offset (older trades, CSV imports) are wall times in
+// the journal timezone and get its offset when stored.
+
+const OFFSET_PATTERN = /(Z|[+-]\d{2}:?\d{2})$/;
+const WALL_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}))?/;
+const SHORT_WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  // 0 = Monday
+  weekday: number;
+}
+
+// Formatters are costly to build and get called for every trade in a table
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const PARTS_OPTIONS: Intl.DateTimeFormatOptions = {
+  year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hourCycle: 'h23', weekday: 'short'
+};
+
+const getPartsFormatter = (timezone: string): Intl.DateTimeFormat => {
+  let formatter = partsFormatters.get(timezone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', { ...PARTS_OPTIONS, timeZone: timezone || undefined });
+    } catch {
+      // An unknown timezone name falls back to the browser's clock
+      formatter = new Intl.DateTimeFormat('en-US', PARTS_OPTIONS);
+    }
+    partsFormatters.set(timezone, formatter);
+  }
+  return formatter;
+};
+
+/** Calendar fields of an instant as a clock in the timezone shows them; '' is the browser's zone. */
+export const getZonedParts = (date: Date, timezone = ''): ZonedParts => {
+  const parts = getPartsFormatter(timezone).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '';
+  return {
+    year: Number(part('year')),
+    month: Number(part('month')),
+    day: Number(part('day')),
+    hour: Number(part('hour')) % 24,
+    minute: Number(part('minute')),
+    weekday: SHORT_WEEKDAYS.indexOf(part('weekday'))
+  };
+};
+
+// Minutes the timezone is ahead of UTC at that instant; changes across DST
+export const getOffsetMinutes = (date: Date, timezone = ''): number => {
+  const p = getZonedParts(date, timezone);
+  const wallAsUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return Math.round((wallAsUtc - Math.floor(date.getTime() / 60000) * 60000) / 60000);
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const formatOffset = (minutes: number) =>
+  `${minutes < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(minutes) / 60))}:${pad(Math.abs(minutes) % 60)}`;
+
+export const hasOffset = (timestamp: string) => OFFSET_PATTERN.test(timestamp);
+
+/** The instant as wall time in the timezone with its offset, the stored form of trade timestamps. */
+export const toZonedTimestamp = (date: Date, timezone = ''): string => {
+  const p = getZonedParts(date, timezone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}${formatOffset(getOffsetMinutes(date, timezone))}`;
+};
+
+/** yyyy-mm-dd of the day the instant falls on in the timezone. */
+export const toZonedDateKey = (value: string | Date, timezone = ''): string => {
+  const p = getZonedParts(typeof value === 'string' ? new Date(value) : value, timezone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+};
+
+/** Value for a datetime-local input showing a stored timestamp on the journal's clock. */
+export const toWallTime = (timestamp: string, timezone = ''): string => {
+  if (!timestamp) return '';
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) return timestamp;
+  const p = getZonedParts(date, timezone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}`;
+};
+
+/**
+ * Reads a wall time typed for the timezone (yyyy-mm-ddThh:mm) and returns it with the offset in
+ * force then. A time skipped by a DST jump lands after the jump; a repeated one takes the later pass.
+ */
+export const fromWallTime = (wallTime: string, timezone = ''): string => {
+  const match = WALL_TIME_PATTERN.exec(wallTime);
+  if (!match) return wallTime;
+  const [, y, mo, d, h = '00', mi = '00'] = match;
+  const wallAsUtc = Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi));
+  // A day either side of any DST change gives both offsets the wall time could be in
+  const candidates = [-DAY_MS, DAY_MS].map(shift => wallAsUtc - getOffsetMinutes(new Date(wallAsUtc + shift), timezone) * 60000);
+  const matching = candidates.filter(instant => toWallTime(new Date(instant).toISOString(), timezone) === `${y}-${mo}-${d}T${h}:${mi}`);
+  return toZonedTimestamp(new Date(Math.max(...(matching.length ? matching : candidates))), timezone);
+};
+
+/** Gives a timestamp without an offset the journal's; ones that already carry an offset are kept. */
+export const normalizeTimestamp = (timestamp: string | undefined, timezone = ''): string => {
+  if (!timestamp) return '';
+  return hasOffset(timestamp) ? timestamp : fromWallTime(timestamp, timezone);
+};
+
+/** The journal day a trade counts on: its entry's day in the timezone, else its stored date. */
+export const getTradeDay = (trade: Trade, timezone = ''): string =>
+  trade.entryDate ? toZonedDateKey(trade.entryDate, timezone) : trade.date;
+
+/** yyyy-mm-dd of a calendar day; out-of-range days and months roll over like Date does. */
+export const toDayKey = (year: number, month: number, day: number): string =>
+  new Date(Date.UTC(year, month - 1, day)).toISOString().split('T')[0];
+
+/** Today's date key in the timezone. */
+export const getZonedToday = (timezone = ''): string => toZonedDateKey(new Date(), timezone);
+
+export const compareTimestamps = (a: string, b: string): number => new Date(a).getTime() - new Date(b).getTime();
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ACCOUNT_ID, SAMPLE_TRADES } from '../constants';
+import { migrateTrade, migrateTrades, RawTrade, TRADE_SCHEMA_VERSION } from './tradeMigrations';
+
+// Shape of a trade as the current version writes it
+const CURRENT: RawTrade = {
+  id: 1,
+  date: '2026-03-02',
+  entryDate: '2026-03-02T09:30+00:00',
+  exitDate: '2026-03-02T11:00+00:00',
+  pair: 'EURUSD',
+  style: 'Swing',
+  tda: [{ tf: 'H4', image: '', note: 'range' }],
+  boardLinks: [{ boardId: 3 }],
+  accountId: 4,
+  pnl: 1.5
+};
+
+describe('trade migrations', () => {
+  it('v1 -> v2 derives the timestamps from the calendar day', () => {
+    const trade = migrateTrade({ id: 1, date: '2026-03-02' }, 1);
+    expect(trade.entryDate).toBe('2026-03-02T00:00+00:00');
+    expect(trade.exitDate).toBe('2026-03-02T00:00+00:00');
+  });
+
+  it('v1 -> v2 derives the calendar day from the entry timestamp', () => {
+    const trade = migrateTrade({ id: 1, entryDate: '2026-03-02T09:30', exitDate: '2026-03-02T11:00' }, 1);
+    expect(trade.date).toBe('2026-03-02');
+    expect(trade.exitDate).toBe('2026-03-02T11:00+00:00');
+  });
+
+  it('v2 -> v3 makes older trades intraday', () => {
+    expect(migrateTrade({ id: 1 }, 2).style).toBe('Intraday');
+    expect(migrateTrade({ id: 1, style: 'Swing' }, 2).style).toBe('Swing');
+  });
+
+  it('v3 -> v4 adds an empty top-down analysis', () => {
+    expect(migrateTrade({ id: 1 }, 3).tda).toEqual([]);
+    expect(migrateTrade({ id: 1, tda: 'broken' }, 3).tda).toEqual([]);
+  });
+
+  it('v4 -> v5 adds an empty list of board links', () => {
+    expect(migrateTrade({ id: 1 }, 4).boardLinks).toEqual([]);
+  });
+
+  it('v5 -> v6 moves trades without an account to the default one', () => {
+    expect(migrateTrade({ id: 1 }, 5).accountId).toBe(DEFAULT_ACCOUNT_ID);
+    expect(migrateTrade({ id: 1, accountId: 4 }, 5).accountId).toBe(4);
+  });
+
+  it('v6 -> v7 gives timestamps the offset of the clock they were typed on', () => {
+    const trade = migrateTrade({
+      id: 1,
+      date: '2026-03-02',
+      entryDate: '2026-03-02T09:30',
+      exitDate: '2026-03-02T11:00+02:00',
+      executions: [{ id: 1, date: '2026-03-02T10:15' }]
+    }, 6);
+    expect(trade.entryDate).toBe('2026-03-02T09:30+00:00');
+    expect(trade.exitDate).toBe('2026-03-02T11:00+02:00');
+    expect(trade.executions?.[0].date).toBe('2026-03-02T10:15+00:00');
+  });
+
+  it('v6 -> v7 reads the calendar day back from the entry', () => {
+    const trade = migrateTrade({ id: 1, date: '2026-03-02', entryDate: '2026-03-02T23:30-05:00', exitDate: '' }, 6);
+    expect(trade.date).toBe('2026-03-03');
+    expect(migrateTrade({ id: 1, date: '2026-03-02', entryDate: '' }, 6).date).toBe('2026-03-02');
+  });
+
+  it('v6 -> v7 reads offset-less times on the journal clock, not the browser\'s', () => {
+    // The tests run with the browser on UTC
+    const trade = migrateTrade({
+      id: 1,
+      date: '2026-03-02',
+      entryDate: '2026-03-02T21:30',
+      exitDate: '2026-03-02T23:00',
+      executions: [{ id: 1, date: '2026-03-02T22:15' }]
+    }, 6, 'America/New_York');
+    expect(trade.entryDate).toBe('2026-03-02T21:30-05:00');
+    expect(trade.exitDate).toBe('2026-03-02T23:00-05:00');
+    expect(trade.executions?.[0].date).toBe('2026-03-02T22:15-05:00');
+    // Already 02:30 on the 3rd in UTC, but still the 2nd in New York
+    expect(trade.date).toBe('2026-03-02');
+  });
+
+  it('seeds the sample trades with the journal offset', () => {
+    const seeded = migrateTrades(SAMPLE_TRADES, 6, 'Europe/Berlin');
+    expect(seeded[0]).toMatchObject({ date: '2025-12-02', entryDate: '2025-12-02T09:30+01:00', exitDate: '2025-12-02T16:00+01:00' });
+    expect(seeded.every(t => t.entryDate.endsWith('+01:00') && t.exitDate.endsWith('+01:00'))).toBe(true);
+  });
+
+  it('runs every step for records written before versioning existed', () => {
+    const trade = migrateTrade({ id: 1, date: '2026-03-02', pnl: 1 }, 0);
+    expect(trade).toMatchObject({
+      entryDate: '2026-03-02T00:00+00:00',
+      style: 'Intraday',
+      tda: [],
+      boardLinks: [],
+      accountId: DEFAULT_ACCOUNT_ID
+    });
+  });
+
+  it.each(Array.from({ length: TRADE_SCHEMA_VERSION }, (_, i) => i + 1))(
+    'leaves an up-to-date trade unchanged when rerun from v%i',
+    version => {
+      expect(migrateTrade(CURRENT, version)).toEqual(CURRENT);
+    }
+  );
+
+  it('gives the same result when a migrated trade is migrated again', () => {
+    const once = migrateTrade({ id: 1, date: '2026-03-02', entryDate: '2026-03-02T09:30' }, 1);
+    expect(migrateTrade(once, 1)).toEqual(once);
+  });
+
+  it('refuses trades saved by a newer schema', () => {
+    expect(() => migrateTrades([CURRENT], TRADE_SCHEMA_VERSION + 1))
+      .toThrow(`Trades were saved by a newer version of the app (schema v${TRADE_SCHEMA_VERSION + 1})`);
+  });
+});
@@ -0,0 +1,81 @@
+import { Trade } from '../types';
+import { DEFAULT_ACCOUNT_ID } from '../constants';
+import { normalizeTimestamp, toZonedDateKey } from './timezone';
+
+/**
+ * Version of the persisted Trade shape. Bump it together with a new entry in MIGRATIONS
+ * instead of renaming the storage key, so older journals keep upgrading in place.
+ */
+export const TRADE_SCHEMA_VERSION = 7;
+
+// Stored records can come from any past release, so they are untyped until migrated
+export type RawTrade = Record<string, any>;
+// Offset-less timestamps are wall times on the journal's clock, so steps get its timezone
+type TradeMigration = (trade: RawTrade, timezone: string) => RawTrade;
+
+// MIGRATIONS[n] upgrades a record from version n to n + 1.
+// Steps must be idempotent: records written before versioning existed start at 1.
+const MIGRATIONS: Record<number, TradeMigration> = {
+  // v1 -> v2: trades only had a calendar day, no entry/exit timestamps
+  1: (trade) => {
+    const date = trade.date || (typeof trade.entryDate === 'string' ? trade.entryDate.split('T')[0] : '');
+    const entryDate = trade.entryDate || `${date}T00:00`;
+    return {
+      ...trade,
+      date,
+      entryDate,
+      exitDate: trade.exitDate || entryDate
+    };
+  },
+  // v2 -> v3: trading style was introduced, everything before it was intraday
+  2: (trade) => ({
+    ...trade,
+    style: trade.style || 'Intraday'
+  }),
+  // v3 -> v4: top-down analysis frames
+  3: (trade) => ({
+    ...trade,
+    tda: Array.isArray(trade.tda) ? trade.tda : []
+  }),
+  // v4 -> v5: trades can be linked to whiteboard boards
+  4: (trade) => ({
+    ...trade,
+    boardLinks: Array.isArray(trade.boardLinks) ? trade.boardLinks : []
+  }),
+  // v5 -> v6: trades belong to an account; the existing journal becomes the default one
+  5: (trade) => ({
+    ...trade,
+    accountId: typeof trade.accountId === 'number' ? trade.accountId : DEFAULT_ACCOUNT_ID
+  }),
+  // v6 -> v7: timestamps carry their UTC offset; older ones are wall times in the journal timezone.
+  // The calendar day is read back from the entry so the two can't disagree
+  6: (trade, timezone) => {
+    const entryDate = normalizeTimestamp(trade.entryDate, timezone);
+    return {
+      ...trade,
+      ...(entryDate && { date: toZonedDateKey(entryDate, timezone) }),
+      entryDate,
+      exitDate: normalizeTimestamp(trade.exitDate, timezone),
+      ...(Array.isArray(trade.executions) && {
+        executions: trade.executions.map((execution: RawTrade) => ({ ...execution, date: normalizeTimestamp(execution.date, timezone) }))
+      })
+    };
+  }
+};
+
+export const migrateTrade = (trade: RawTrade, fromVersion: number, timezone = ''): Trade => {
+  let migrated = trade;
+  for (let version = Math.max(1, fromVersion); version < TRADE_SCHEMA_VERSION; version++) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new Error(`Missing trade migration from v${version} to v${version + 1}`);
+    migrated = step(migrated, timezone);
+  }
+  return migrated as Trade;
+};
+
+export const migrateTrades = (trades: RawTrade[], fromVersion: number, timezone = ''): Trade[] => {
+  if (fromVersion > TRADE_SCHEMA_VERSION) {
+    throw new Error(`Trades were saved by a newer version of the app (schema v${fromVersion})`);
+  }
+  return trades.map(trade => migrateTrade(trade, fromVersion, timezone));
+};
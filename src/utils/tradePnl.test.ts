@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { Account, Trade } from '../types';
+import { getBalanceBefore, rebaseComputedPnl } from './accountEquity';
+import { computeTradePnl, withComputedPnl } from './tradePnl';
+
+const priced: Partial<Trade> = {
+  direction: 'Long', entryPrice: 100, exitPrice: 110, quantity: 10, fees: 2, leverage: 10
+};
+
+describe('computeTradePnl', () => {
+  it('measures the percent against the account balance, not the margin', () => {
+    expect(computeTradePnl(priced, 10000)).toEqual({ amount: 98, percent: 0.98 });
+  });
+
+  it('has no percent without a balance', () => {
+    expect(computeTradePnl(priced)).toEqual({ amount: 98, percent: null });
+  });
+});
+
+describe('withComputedPnl', () => {
+  it('stores the computed result as a percent of the balance', () => {
+    expect(withComputedPnl({ ...priced, pnl: 5 }, 10000).pnl).toBe(0.98);
+  });
+
+  it('keeps the typed percent when the balance is unknown', () => {
+    expect(withComputedPnl({ ...priced, pnl: 5 }, null).pnl).toBe(5);
+  });
+});
+
+describe('getBalanceBefore', () => {
+  const account: Account = {
+    id: 1, name: 'Main', currency: 'USD', startingBalance: 10000,
+    cashFlows: [
+      { id: 1, date: '2026-03-01T09:00+00:00', amount: 1000 },
+      { id: 2, date: '2026-03-10T09:00+00:00', amount: -500 }
+    ],
+    createdAt: '', updatedAt: ''
+  };
+  const trade = (id: number, exitDate: string, pnl: number, accountId = 1): Trade => ({
+    id, accountId, date: exitDate.slice(0, 10), entryDate: exitDate, exitDate,
+    ticker: 'BTC', direction: 'Long', style: 'Intraday', risk: 1, pnl
+  });
+  const trades = [
+    trade(1, '2026-03-02T10:00+00:00', 10),
+    trade(2, '2026-03-04T10:00+00:00', 50, 2),
+    trade(3, '2026-03-05T10:00+00:00', 5)
+  ];
+
+  it('counts the cash flows and the account\'s own trades up to the trade', () => {
+    // 10000 + 1000, then +10% from trade 1
+    expect(getBalanceBefore(account, trades, trades[2])).toBeCloseTo(12100);
+  });
+
+  it('gives the current balance to an undated trade', () => {
+    expect(getBalanceBefore(account, trades, {})).toBeCloseTo(12100 * 1.05 - 500);
+  });
+});
+
+describe('rebaseComputedPnl', () => {
+  const account: Account = { id: 1, name: 'Main', currency: 'USD', startingBalance: 10000, cashFlows: [], createdAt: '', updatedAt: '' };
+  const handTyped: Trade = {
+    id: 1, accountId: 1, date: '2026-03-01', entryDate: '2026-03-01T09:00Z', exitDate: '2026-03-01T10:00Z',
+    ticker: 'BTC', direction: 'Long', style: 'Intraday', risk: 1, pnl: 10
+  };
+  // Makes 110 in currency, stored as 1.1% of the 10000 it was first measured against
+  const priced: Trade = {
+    ...handTyped, id: 2, date: '2026-03-02', entryDate: '2026-03-02T09:00Z', exitDate: '2026-03-02T10:00Z',
+    entryPrice: 100, exitPrice: 111, quantity: 10, pnl: 1.1
+  };
+
+  it('measures a priced trade again after an earlier trade moved the balance', () => {
+    expect(rebaseComputedPnl(account, [handTyped, priced])).toEqual([{ ...priced, pnl: 1 }]);
+  });
+
+  it('follows deposits and withdrawals before the trade', () => {
+    const withdrawn = { ...account, cashFlows: [{ id: 1, date: '2026-03-01T12:00Z', amount: -5000 }] };
+    expect(rebaseComputedPnl(withdrawn, [priced])).toEqual([{ ...priced, pnl: 2.2 }]);
+  });
+
+  it('leaves trades that are still in line alone', () => {
+    expect(rebaseComputedPnl(account, [priced])).toEqual([]);
+  });
+});
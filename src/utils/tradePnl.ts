@@ -0,0 +1,140 @@
+import { Execution, Trade } from '../types';
+import { compareTimestamps } from './timezone';
+
+export interface TradePnl {
+  // In the quote currency, after fees
+  amount: number;
+  // Share of the account balance the trade was taken on, the same measure as a hand-entered `pnl`;
+  // null when that balance isn't known
+  percent: number | null;
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const isOpenTrade = (trade: Pick<Trade, 'exitDate'>): boolean => !trade.exitDate;
+
+export const isClosedTrade = (trade: Pick<Trade, 'exitDate'>): boolean => !!trade.exitDate;
+
+export interface ExecutionSummary {
+  entryPrice?: number;
+  exitPrice?: number;
+  // Size bought (or sold short) across all entries
+  quantity: number;
+  exitedQuantity: number;
+  fees: number;
+  entryDate: string;
+  // Time of the last exit once the whole size is out, otherwise empty
+  exitDate: string;
+}
+
+const weightedAverage = (executions: Execution[]): number | undefined => {
+  const quantity = executions.reduce((acc, e) => acc + e.quantity, 0);
+  return quantity > 0 ? executions.reduce((acc, e) => acc + e.price * e.quantity, 0) / quantity : undefined;
+};
+
+/** Average entry and exit across scale-ins and partial exits, or null without any entry. */
+export const summarizeExecutions = (executions: Execution[]): ExecutionSummary | null => {
+  const sorted = [...executions].sort((a, b) => compareTimestamps(a.date, b.date));
+  const entries = sorted.filter(e => e.side === 'entry');
+  const exits = sorted.filter(e => e.side === 'exit');
+  if (entries.length === 0) return null;
+
+  const quantity = entries.reduce((acc, e) => acc + e.quantity, 0);
+  const exitedQuantity = exits.reduce((acc, e) => acc + e.quantity, 0);
+  return {
+    entryPrice: weightedAverage(entries),
+    exitPrice: weightedAverage(exits),
+    quantity,
+    exitedQuantity,
+    fees: sorted.reduce((acc, e) => acc + (e.fee || 0), 0),
+    entryDate: entries[0].date,
+    exitDate: quantity > 0 && exitedQuantity >= quantity ? exits[exits.length - 1].date : ''
+  };
+};
+
+/** Copies the averages and dates from the trade's executions onto its flat fields. */
+export const withExecutionSummary = <T extends Partial<Trade>>(trade: T): T => {
+  const summary = trade.executions?.length ? summarizeExecutions(trade.executions) : null;
+  if (!summary) return trade;
+  return {
+    ...trade,
+    date: summary.entryDate.split('T')[0],
+    entryDate: summary.entryDate,
+    exitDate: summary.exitDate,
+    entryPrice: summary.entryPrice,
+    exitPrice: summary.exitPrice,
+    quantity: summary.quantity,
+    fees: summary.fees
+  };
+};
+
+/**
+ * PnL from the execution fields, or null while entry, exit or quantity is missing.
+ * With partial exits only the size already closed counts, so an open trade shows its realized PnL.
+ * Leverage changes the margin, not the result, so it doesn't enter the percent.
+ */
+export const computeTradePnl = (trade: Partial<Trade>, balance: number | null = null): TradePnl | null => {
+  const { entryPrice, exitPrice, quantity } = trade;
+  if (!isNumber(entryPrice) || !isNumber(exitPrice) || !isNumber(quantity) || entryPrice <= 0 || quantity <= 0) {
+    return null;
+  }
+
+  const side = trade.direction === 'Short' ? -1 : 1;
+  const fees = isNumber(trade.fees) ? trade.fees : 0;
+  const summary = trade.executions?.length ? summarizeExecutions(trade.executions) : null;
+  const closedQuantity = summary ? Math.min(summary.exitedQuantity, quantity) : quantity;
+
+  const amount = (exitPrice - entryPrice) * closedQuantity * side - fees;
+  return { amount, percent: balance !== null && balance > 0 ? (amount / balance) * 100 : null };
+};
+
+/** Position value at entry. */
+export const getTradeVolume = (trade: Partial<Trade>): number | null => {
+  const { entryPrice, quantity } = trade;
+  return isNumber(entryPrice) && isNumber(quantity) ? entryPrice * quantity : null;
+};
+
+/**
+ * Overwrites the hand-typed `pnl` with the computed result when prices are filled in, as a percent
+ * of the account balance the trade was taken on, so the journal's percentage stats stay consistent
+ * with the executions. Without a balance the typed `pnl` is kept.
+ */
+export const withComputedPnl = <T extends Partial<Trade>>(trade: T, balance: number | null = null): T => {
+  const synced = withExecutionSummary(trade);
+  const computed = computeTradePnl(synced, balance);
+  if (computed && computed.percent !== null) return { ...synced, pnl: Math.round(computed.percent * 100) / 100 };
+  if (computed) return synced;
+  // Executions without an exit yet have realized nothing
+  return synced.executions?.length ? { ...synced, pnl: 0 } : synced;
+};
+
+/** Price distance to the stop, or null when the stop is missing or sits on the entry. */
+const getStopDistance = (trade: Partial<Trade>): number | null => {
+  const { entryPrice, stopLoss } = trade;
+  if (!isNumber(entryPrice) || !isNumber(stopLoss)) return null;
+  const distance = Math.abs(entryPrice - stopLoss);
+  return distance > 0 ? distance : null;
+};
+
+/** Reward-to-risk the trade was planned with: distance to the target over distance to the stop. */
+export const getPlannedR = (trade: Partial<Trade>): number | null => {
+  const distance = getStopDistance(trade);
+  if (distance === null || !isNumber(trade.takeProfit)) return null;
+  return Math.abs(trade.takeProfit - trade.entryPrice!) / distance;
+};
+
+/**
+ * Result in multiples of the initial risk. Fees count against the trade when the size
+ * is known; without a stop there is no risk unit, so no R is reported.
+ */
+export const getRealizedR = (trade: Partial<Trade>): number | null => {
+  const distance = getStopDistance(trade);
+  if (distance === null) return null;
+
+  const computed = computeTradePnl(trade);
+  if (computed) return computed.amount / (distance * trade.quantity!);
+
+  if (!isNumber(trade.exitPrice)) return null;
+  const side = trade.direction === 'Short' ? -1 : 1;
+  return ((trade.exitPrice - trade.entryPrice!) * side) / distance;
+};
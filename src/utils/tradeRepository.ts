@@ -0,0 +1,146 @@
+import { Trade } from '../types';
+import { DB_CONFIG, LEGACY_TRADES_KEY_PREFIX, SAMPLE_TRADES } from '../constants';
+import { openDatabase, promisifyRequest, transactionDone } from './db';
+import { migrateTrades, RawTrade, TRADE_SCHEMA_VERSION } from './tradeMigrations';
+
+const TRADES = DB_CONFIG.STORES.TRADES;
+const META = DB_CONFIG.STORES.META;
+const INITIALIZED_KEY = 'tradesInitialized';
+const SCHEMA_VERSION_KEY = 'tradesSchemaVersion';
+
+export type TradeIndex = 'date' | 'ticker' | 'style';
+
+const sortNewestFirst = (trades: Trade[]) => trades.sort((a, b) => b.id - a.id);
+
+// "garden_trades_final_17" -> 17
+const getLegacyKeyGeneration = (key: string) => parseInt(key.slice(LEGACY_TRADES_KEY_PREFIX.length), 10) || 0;
+
+/**
+ * Reads the pre-IndexedDB journal, which kept every trade in a single localStorage key.
+ * Each schema bump used to rename that key, so every generation is collected and merged,
+ * with newer keys winning for the same trade id. Returns null when there is nothing to migrate.
+ */
+export const readLegacyTrades = (timezone = ''): Trade[] | null => {
+  const legacyKeys = Object.keys(localStorage)
+    .filter(key => key.startsWith(LEGACY_TRADES_KEY_PREFIX))
+    .sort((a, b) => getLegacyKeyGeneration(a) - getLegacyKeyGeneration(b));
+
+  const byId = new Map<number, RawTrade>();
+  legacyKeys.forEach(key => {
+    try {
+      const saved = localStorage.getItem(key);
+      if (!saved || saved.trim() === '') return;
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) {
+        parsed.forEach((trade: RawTrade) => {
+          if (trade && trade.id !== undefined) byId.set(Number(trade.id), trade);
+        });
+      }
+    } catch (error) {
+      console.warn(`Failed to parse legacy trades from "${key}":`, error);
+    }
+  });
+
+  if (byId.size === 0) return null;
+  // Legacy keys carried no version marker, so run the full migration pipeline
+  return migrateTrades(Array.from(byId.values()), 1, timezone);
+};
+
+const removeLegacyTrades = () => {
+  Object.keys(localStorage)
+    .filter(key => key.startsWith(LEGACY_TRADES_KEY_PREFIX))
+    .forEach(key => localStorage.removeItem(key));
+};
+
+/**
+ * Runs once per browser profile: moves legacy localStorage trades into IndexedDB,
+ * or seeds the sample journal when there is no history yet.
+ */
+const initializeStore = async (db: IDBDatabase, timezone: string): Promise<void> => {
+  const initialized = await promisifyRequest(
+    db.transaction(META, 'readonly').objectStore(META).get(INITIALIZED_KEY)
+  );
+  if (initialized) return;
+
+  const legacyTrades = readLegacyTrades(timezone);
+  // The samples are v6 records, so the last step gives their wall times the journal's offset
+  const seeded = legacyTrades ?? migrateTrades(SAMPLE_TRADES, 6, timezone);
+  const tx = db.transaction([TRADES, META], 'readwrite');
+  const store = tx.objectStore(TRADES);
+  seeded.forEach(trade => store.put(trade));
+  tx.objectStore(META).put(true, INITIALIZED_KEY);
+  tx.objectStore(META).put(TRADE_SCHEMA_VERSION, SCHEMA_VERSION_KEY);
+  await transactionDone(tx);
+
+  // Only free the quota once the trades are safely committed
+  if (legacyTrades) {
+    removeLegacyTrades();
+  }
+};
+
+/**
+ * Upgrades stored records to the current Trade shape and writes them back,
+ * so the pipeline runs at most once per schema bump.
+ */
+const upgradeStoredTrades = async (db: IDBDatabase, trades: RawTrade[], timezone: string): Promise<Trade[]> => {
+  const storedVersion = await promisifyRequest(
+    db.transaction(META, 'readonly').objectStore(META).get(SCHEMA_VERSION_KEY)
+  );
+  // Records written before versioning existed have no marker
+  const fromVersion = typeof storedVersion === 'number' ? storedVersion : 1;
+  if (fromVersion === TRADE_SCHEMA_VERSION) return trades as Trade[];
+
+  const migrated = migrateTrades(trades, fromVersion, timezone);
+  const tx = db.transaction([TRADES, META], 'readwrite');
+  const store = tx.objectStore(TRADES);
+  migrated.forEach(trade => store.put(trade));
+  tx.objectStore(META).put(TRADE_SCHEMA_VERSION, SCHEMA_VERSION_KEY);
+  await transactionDone(tx);
+  return migrated;
+};
+
+/** Stored trades in the current shape; `timezone` is the journal's, for records that predate offsets. */
+export const loadTrades = async (timezone = ''): Promise<Trade[]> => {
+  const db = await openDatabase();
+  await initializeStore(db, timezone);
+  const stored = await promisifyRequest(
+    db.transaction(TRADES, 'readonly').objectStore(TRADES).getAll()
+  );
+  const trades = await upgradeStoredTrades(db, stored, timezone);
+  return sortNewestFirst(trades);
+};
+
+export const queryTrades = async (index: TradeIndex, query: IDBValidKey | IDBKeyRange): Promise<Trade[]> => {
+  const db = await openDatabase();
+  const trades = await promisifyRequest(
+    db.transaction(TRADES, 'readonly').objectStore(TRADES).index(index).getAll(query)
+  );
+  return sortNewestFirst(trades as Trade[]);
+};
+
+export const putTrades = async (trades: Trade[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(TRADES, 'readwrite');
+  const store = tx.objectStore(TRADES);
+  trades.forEach(trade => store.put(trade));
+  return transactionDone(tx);
+};
+
+export const putTrade = (trade: Trade): Promise<void> => putTrades([trade]);
+
+export const deleteTradesByIds = async (ids: number[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(TRADES, 'readwrite');
+  const store = tx.objectStore(TRADES);
+  ids.forEach(id => store.delete(id));
+  return transactionDone(tx);
+};
+
+export const replaceAllTrades = async (trades: Trade[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(TRADES, 'readwrite');
+  const store = tx.objectStore(TRADES);
+  store.clear();
+  trades.forEach(trade => store.put(trade));
+  return transactionDone(tx);
+};
@@ -0,0 +1,66 @@
+// Session, weekday and hold time of a trade, shared by the journal table, its filters and the stats
+
+import { SessionConfig, SessionHours, SessionName } from '../types';
+import { DEFAULT_SESSION_CONFIG } from '../constants';
+import { getZonedParts } from './timezone';
+
+export const SESSIONS: SessionName[] = ['Asian', 'London', 'New-York'];
+
+export const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+/** Hour (0-23) and weekday (0 = Monday) of a timestamp, read on the given timezone's clock. */
+export const getClock = (dateStr: string, timezone = ''): { hour: number; weekday: number } | null => {
+  if (!dateStr) return null;
+  const date = new Date(dateStr);
+  if (isNaN(date.getTime())) return null;
+  const { hour, weekday } = getZonedParts(date, timezone);
+  return { hour, weekday };
+};
+
+const isHourInSession = (hour: number, { start, end }: SessionHours) =>
+  start <= end ? hour >= start && hour < end : hour >= start || hour < end;
+
+// Sessions may overlap; the first one listed wins. Hours outside every session read as '—'
+export const getSession = (dateStr: string, config: SessionConfig = DEFAULT_SESSION_CONFIG, timezone = '') => {
+  const clock = getClock(dateStr, timezone);
+  if (!clock) return '—';
+  return SESSIONS.find(session => isHourInSession(clock.hour, config.hours[session])) ?? '—';
+};
+
+export const getWeekday = (dateStr: string, timezone = '') => {
+  const clock = getClock(dateStr, timezone);
+  return clock ? WEEKDAYS[clock.weekday] : '—';
+};
+
+// Null while the trade is open or has no entry time
+export const getHoldMinutes = (start: string, end?: string): number | null => {
+  if (!start || !end) return null;
+  return Math.floor((new Date(end).getTime() - new Date(start).getTime()) / 60000);
+};
+
+export const getHoldTime = (start: string, end?: string) => {
+  const minutes = getHoldMinutes(start, end);
+  if (minutes === null) return '—';
+
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  const days = Math.floor(hours / 24);
+  return `${days}d`;
+};
+
+// Upper bounds in minutes, exclusive
+export const HOLD_TIME_BUCKETS = [
+  { label: '< 15m', max: 15 },
+  { label: '15m – 1h', max: 60 },
+  { label: '1h – 4h', max: 240 },
+  { label: '4h – 1d', max: 1440 },
+  { label: '1d – 3d', max: 4320 },
+  { label: '> 3d', max: Infinity }
+];
+
+export const getHoldTimeBucket = (start: string, end?: string): string | null => {
+  const minutes = getHoldMinutes(start, end);
+  if (minutes === null) return null;
+  return HOLD_TIME_BUCKETS.find(bucket => minutes < bucket.max)!.label;
+};
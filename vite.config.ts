@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
@@ -40,6 +41,10 @@ export default defineConfig(({ mode }) => {
       },
       optimizeDeps: {
         include: ['react', 'react-dom', 'recharts', 'lucide-react'],
+      },
+      test: {
+        // Timestamps without an offset are read on the machine's clock; pin it so results don't vary
+        env: { TZ: 'UTC' },
       }
     };
 });